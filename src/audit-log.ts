@@ -0,0 +1,266 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { PrintifyChange } from './printify-api.js';
+
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 6;
+const MAX_MEMORY_ENTRIES = 10000;
+const SECRET_KEY_PATTERN = /(api[-_]?key|token|secret|password|authorization)/i;
+
+// Argument names that identify a Printify resource, recorded even when the tool only reads it
+const RESOURCE_ARGUMENTS: Record<string, string> = {
+  productId: 'product',
+  imageId: 'image',
+  blueprintId: 'blueprint',
+  printProviderId: 'print_provider',
+  shopId: 'shop',
+  orderId: 'order',
+  webhookId: 'webhook'
+};
+
+export interface AuditResource {
+  type: string;
+  id: string;
+  action?: PrintifyChange['action']; // Set when the tool changed the resource
+}
+
+// One tool invocation. Sessions are referenced by a hash of their ID because the ID
+// of a legacy MCP URL is itself a credential.
+export interface AuditEntry {
+  at: number;
+  sessionRef: string;
+  keyFingerprint: string; // Owner of the session, used to authorize /api/audit
+  clientId?: string;
+  workspaceId?: string;
+  memberId?: string;
+  tool: string;
+  arguments: unknown;
+  status: 'success' | 'error';
+  error?: string;
+  resources: AuditResource[];
+  durationMs: number;
+}
+
+// Who is calling; fixed for the lifetime of an MCP server instance
+export type AuditContext = Pick<AuditEntry, 'sessionRef' | 'keyFingerprint' | 'clientId' | 'workspaceId' | 'memberId'>;
+
+export interface AuditQuery {
+  keyFingerprint: string;
+  sessionRef?: string;
+  tool?: string;
+  status?: AuditEntry['status'];
+  resourceId?: string;
+  workspaceId?: string;
+  memberId?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+// Append-only backend; entries are never rewritten or removed by the server
+export interface AuditLog {
+  readonly kind: string;
+  append(entry: AuditEntry): Promise<void>;
+  // Matching entries, newest first
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return entry.keyFingerprint === query.keyFingerprint &&
+    (!query.sessionRef || entry.sessionRef === query.sessionRef) &&
+    (!query.tool || entry.tool === query.tool) &&
+    (!query.status || entry.status === query.status) &&
+    (!query.resourceId || entry.resources.some(resource => resource.id === query.resourceId)) &&
+    (!query.workspaceId || entry.workspaceId === query.workspaceId) &&
+    (!query.memberId || entry.memberId === query.memberId) &&
+    (query.since === undefined || entry.at >= query.since) &&
+    (query.until === undefined || entry.at <= query.until);
+}
+
+// Entries are scanned oldest to newest; only the newest `limit` matches are kept
+function addMatch(matches: AuditEntry[], entry: AuditEntry, query: AuditQuery): void {
+  if (!matchesQuery(entry, query)) return;
+  matches.push(entry);
+  if (matches.length > (query.limit ?? 100)) matches.shift();
+}
+
+// Volatile log capped at the most recent entries (used when sessions are memory-only)
+export class MemoryAuditLog implements AuditLog {
+  readonly kind = 'memory';
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_MEMORY_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_MEMORY_ENTRIES);
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const matches: AuditEntry[] = [];
+    this.entries.forEach(entry => addMatch(matches, entry, query));
+    return matches.reverse();
+  }
+}
+
+// Durable log with one JSON entry per line; the file is only ever appended to
+export class FileAuditLog implements AuditLog {
+  readonly kind = 'file';
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    // Chain appends so concurrent tool calls never interleave within a line
+    const write = this.writeChain.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.writeChain;
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return [];
+    }
+
+    // Stream the file so a large log is never read into memory at once
+    const lines = readline.createInterface({ input: createReadStream(this.filePath, 'utf8'), crlfDelay: Infinity });
+    const matches: AuditEntry[] = [];
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        addMatch(matches, JSON.parse(line), query);
+      } catch {
+        // A line cut short by a crash is skipped rather than failing the whole query
+      }
+    }
+    return matches.reverse();
+  }
+}
+
+// Select the backend from the environment (SESSION_STORE=file|memory, AUDIT_LOG_PATH)
+export function createAuditLog(): AuditLog {
+  const backend = (process.env.SESSION_STORE || 'file').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemoryAuditLog();
+  }
+
+  const sessionPath = process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json');
+  const filePath = process.env.AUDIT_LOG_PATH || path.join(path.dirname(sessionPath), 'audit.jsonl');
+  return new FileAuditLog(filePath);
+}
+
+// Copy tool arguments for the log: secrets are redacted and large values (base64 images,
+// long descriptions, variant lists) are truncated so entries stay small
+export function sanitizeArguments(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} chars)`
+      : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[nested]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => sanitizeArguments(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`... (${value.length - MAX_ARRAY_ITEMS} more)`);
+    }
+    return items;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SECRET_KEY_PATTERN.test(key) ? '[redacted]' : sanitizeArguments(item, depth + 1);
+  }
+  return copy;
+}
+
+// Find resource IDs named in the arguments, including nested ones such as print area image IDs
+function collectArgumentResources(value: unknown, found: AuditResource[], depth = 0): void {
+  if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) return;
+
+  for (const [key, item] of Object.entries(value)) {
+    const type = RESOURCE_ARGUMENTS[key];
+    if (type && (typeof item === 'string' || typeof item === 'number')) {
+      found.push({ type, id: String(item) });
+    } else {
+      collectArgumentResources(item, found, depth + 1);
+    }
+  }
+}
+
+function mergeResources(resources: AuditResource[]): AuditResource[] {
+  const merged = new Map<string, AuditResource>();
+  for (const resource of resources) {
+    const key = `${resource.type}:${resource.id}`;
+    const existing = merged.get(key);
+    if (!existing || (resource.action && !existing.action)) {
+      merged.set(key, resource);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// Changes reported by PrintifyAPI are attributed to the tool call whose async context made them
+const activeCall = new AsyncLocalStorage<AuditResource[]>();
+
+export function recordResourceChange(change: PrintifyChange): void {
+  activeCall.getStore()?.push({ type: change.resourceType, id: change.resourceId, action: change.action });
+}
+
+function describeFailure(result: any): string | undefined {
+  const text = result?.content?.find((item: any) => item?.type === 'text')?.text;
+  return typeof text === 'string' ? text.slice(0, MAX_STRING_LENGTH) : undefined;
+}
+
+// Wrap a tool handler so every call is timed and appended to the audit log. Logging
+// failures are reported but never change the tool result.
+export function auditToolHandler<T extends (...args: any[]) => any>(
+  log: AuditLog,
+  context: AuditContext,
+  tool: string,
+  handler: T
+): T {
+  return (async (...args: any[]) => {
+    // Tools with a parameter schema receive (arguments, extra); the rest only receive extra
+    const toolArguments = args.length > 1 ? args[0] : {};
+    const touched: AuditResource[] = [];
+    collectArgumentResources(toolArguments, touched);
+
+    const startedAt = Date.now();
+    const record = (status: AuditEntry['status'], error?: string) => {
+      log.append({
+        at: startedAt,
+        ...context,
+        tool,
+        arguments: sanitizeArguments(toolArguments),
+        status,
+        error,
+        resources: mergeResources(touched),
+        durationMs: Date.now() - startedAt
+      }).catch(logError => console.error('Failed to write audit entry:', logError));
+    };
+
+    try {
+      const result = await activeCall.run(touched, () => handler(...args));
+      record(result?.isError ? 'error' : 'success', result?.isError ? describeFailure(result) : undefined);
+      return result;
+    } catch (error: any) {
+      record('error', String(error?.message ?? error).slice(0, MAX_STRING_LENGTH));
+      throw error;
+    }
+  }) as T;
+}
@@ -0,0 +1,337 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_TTL_HOURS = 24;
+const REFRESH_RETRY_DELAY = 15 * 60 * 1000; // Wait after a failed crawl before crawling again
+const FIELD_WEIGHTS = { title: 5, tags: 4, brand: 3, model: 3, description: 1 };
+
+// Product types recognized in blueprint titles and descriptions. The first match sets the
+// blueprint's type; every match adds tags, so "Hooded Sweatshirt" finds both.
+const BLUEPRINT_TYPES: { type: string; category: string; pattern: RegExp }[] = [
+  { type: 'hoodie', category: 'apparel', pattern: /\b(hoodie|hooded)/ },
+  { type: 'sweatshirt', category: 'apparel', pattern: /\b(sweatshirt|crewneck|pullover)/ },
+  { type: 'tanktop', category: 'apparel', pattern: /\b(tank|racerback)/ },
+  { type: 'longsleeve', category: 'apparel', pattern: /\blong[\s-]?sleeve/ },
+  { type: 'tshirt', category: 'apparel', pattern: /\b(tshirt|jersey|tee)\b/ },
+  { type: 'polo', category: 'apparel', pattern: /\bpolo\b/ },
+  { type: 'jacket', category: 'apparel', pattern: /\b(jacket|windbreaker|bomber)/ },
+  { type: 'leggings', category: 'apparel', pattern: /\b(leggings|joggers|sweatpants|shorts)\b/ },
+  { type: 'dress', category: 'apparel', pattern: /\b(dress|skirt)\b/ },
+  { type: 'baby', category: 'apparel', pattern: /\b(onesie|bodysuit|infant|baby|toddler)/ },
+  { type: 'socks', category: 'apparel', pattern: /\bsocks?\b/ },
+  { type: 'shoes', category: 'apparel', pattern: /\b(shoes?|sneakers?|slippers?|flip[\s-]?flops?|sandals?)\b/ },
+  { type: 'hat', category: 'accessories', pattern: /\b(hat|cap|beanie|snapback|trucker)s?\b/ },
+  { type: 'mug', category: 'accessories', pattern: /\b(mug|cup)s?\b/ },
+  { type: 'tumbler', category: 'accessories', pattern: /\b(tumbler|water bottle|bottle|flask)s?\b/ },
+  { type: 'totebag', category: 'accessories', pattern: /\btote/ },
+  { type: 'bag', category: 'accessories', pattern: /\b(backpack|bag|pouch|duffel|fanny pack)s?\b/ },
+  { type: 'phonecase', category: 'accessories', pattern: /\b(phone|iphone|samsung|galaxy|pixel)\b.*\bcase|\bcase\b.*\b(phone|iphone|samsung)/ },
+  { type: 'sticker', category: 'accessories', pattern: /\b(sticker|decal|kiss[\s-]?cut|die[\s-]?cut)s?\b/ },
+  { type: 'jewelry', category: 'accessories', pattern: /\b(necklace|bracelet|earrings?|pendant|ring|jewelry)\b/ },
+  { type: 'mousepad', category: 'accessories', pattern: /\b(mouse ?pad|desk mat|gaming mat)s?\b/ },
+  { type: 'pet', category: 'accessories', pattern: /\b(pet|dog|cat)\b/ },
+  { type: 'poster', category: 'home', pattern: /\b(poster|art print|photo print)s?\b/ },
+  { type: 'canvas', category: 'home', pattern: /\bcanvas\b/ },
+  { type: 'blanket', category: 'home', pattern: /\bblankets?\b/ },
+  { type: 'pillow', category: 'home', pattern: /\b(pillow|cushion)s?\b/ },
+  { type: 'towel', category: 'home', pattern: /\btowels?\b/ },
+  { type: 'rug', category: 'home', pattern: /\b(rug|doormat|floor mat)s?\b/ },
+  { type: 'calendar', category: 'home', pattern: /\bcalendars?\b/ },
+  { type: 'journal', category: 'home', pattern: /\b(journal|notebook|notepad|planner)s?\b/ },
+  { type: 'card', category: 'home', pattern: /\b(greeting card|postcard|card)s?\b/ },
+  { type: 'ornament', category: 'home', pattern: /\bornaments?\b/ },
+  { type: 'puzzle', category: 'home', pattern: /\bpuzzles?\b/ },
+  { type: 'candle', category: 'home', pattern: /\bcandles?\b/ },
+  { type: 'clock', category: 'home', pattern: /\bclocks?\b/ },
+  { type: 'wallart', category: 'home', pattern: /\b(wall art|tapestry|framed|metal art|acrylic)/ },
+  { type: 'bedding', category: 'home', pattern: /\b(duvet|sheet|comforter|bedding|shower curtain)s?\b/ }
+];
+
+export interface IndexedBlueprint {
+  id: number;
+  title: string;
+  brand: string;
+  model: string;
+  description: string;
+  image?: string;
+  category?: string; // Derived from the title and description, e.g. apparel
+  type?: string; // e.g. tshirt
+  tags: string[]; // Every recognized type and category
+}
+
+export interface CatalogSearchOptions {
+  query?: string; // Free text: type, brand, model or words of the title
+  category?: string;
+  type?: string;
+  limit?: number;
+}
+
+export interface CatalogSearchResult {
+  blueprints: IndexedBlueprint[];
+  total: number; // Matches before the limit
+  builtAt: number;
+}
+
+// Spellings of the same product type are folded together before matching
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\bt[\s-]?shirts?\b/g, 'tshirt')
+    .replace(/\btees\b/g, 'tee')
+    .replace(/\bhoodies\b/g, 'hoodie')
+    .replace(/\btote[\s-]?bags?\b/g, 'tote')
+    .replace(/\bphone[\s-]?cases?\b/g, 'phone case')
+    .replace(/\btank[\s-]?tops?\b/g, 'tank')
+    .replace(/&amp;/g, '&');
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^a-z0-9]+/).filter(token => token.length > 0);
+}
+
+export function deriveBlueprintTags(title: string, description: string): Pick<IndexedBlueprint, 'category' | 'type' | 'tags'> {
+  // The title names the product; the description only helps when the title doesn't
+  const matches = [normalizeText(title), normalizeText(description)]
+    .map(text => BLUEPRINT_TYPES.filter(entry => entry.pattern.test(text)));
+  const primary = matches[0][0] || matches[1][0];
+  const tags = new Set<string>();
+  matches[0].forEach(entry => tags.add(entry.type).add(entry.category));
+  if (matches[0].length === 0) {
+    matches[1].forEach(entry => tags.add(entry.type).add(entry.category));
+  }
+  return { category: primary?.category, type: primary?.type, tags: Array.from(tags) };
+}
+
+// Whether a blueprint is the kind of product a free-text term names, e.g. "hoodies",
+// "t-shirt" or "apparel"
+export function blueprintMatchesProduct(blueprint: { title: string; description?: string }, term: string): boolean {
+  const tags = deriveBlueprintTags(blueprint.title, blueprint.description || '').tags;
+  const termType = deriveBlueprintTags(term, '').type;
+  if (termType) {
+    return tags.includes(termType);
+  }
+  if (tags.includes(term.toLowerCase().trim())) {
+    return true;
+  }
+  const titleTokens = tokenize(blueprint.title);
+  return tokenize(term).every(token => titleTokens.some(candidate => candidate.startsWith(token.replace(/s$/, ''))));
+}
+
+export function toIndexedBlueprint(blueprint: any): IndexedBlueprint {
+  const title = String(blueprint.title || '');
+  const description = String(blueprint.description || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return {
+    id: blueprint.id,
+    title,
+    brand: String(blueprint.brand || ''),
+    model: String(blueprint.model || ''),
+    description,
+    image: Array.isArray(blueprint.images) ? blueprint.images[0] : undefined,
+    ...deriveBlueprintTags(title, description)
+  };
+}
+
+// Edit distance with an early exit once it exceeds max
+function withinDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+}
+
+// How well one query token matches a field's tokens: exact, prefix, substring, then typo
+function matchToken(token: string, fieldTokens: string[]): number {
+  let best = 0;
+  for (const candidate of fieldTokens) {
+    if (candidate === token) return 1;
+    if (candidate.startsWith(token)) best = Math.max(best, 0.8);
+    else if (token.length >= 3 && candidate.includes(token)) best = Math.max(best, 0.6);
+    else if (token.length >= 4 && withinDistance(token, candidate, token.length >= 7 ? 2 : 1)) best = Math.max(best, 0.5);
+  }
+  return best;
+}
+
+interface SearchEntry {
+  blueprint: IndexedBlueprint;
+  fields: Record<keyof typeof FIELD_WEIGHTS, string[]>;
+}
+
+// Full blueprint catalog kept locally for search. Printify's catalog is the same for every
+// account, so one index serves all sessions and is rebuilt from a crawl once it is stale.
+export class CatalogIndex {
+  private entries: SearchEntry[] = [];
+  private builtAt = 0;
+  private loaded: Promise<void> | null = null;
+  private refreshing: Promise<void> | null = null;
+  private failedAt = 0; // Last failed crawl; crawls back off so a failing catalog isn't crawled on every search
+  private lastFailure?: Error;
+
+  private ttl: number;
+
+  constructor(private filePath?: string, ttlHours = Number(process.env.CATALOG_INDEX_TTL_HOURS) || DEFAULT_TTL_HOURS) {
+    this.ttl = ttlHours * 3600000;
+  }
+
+  get kind(): string {
+    return this.filePath ? 'file' : 'memory';
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) return;
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      if (Array.isArray(parsed?.blueprints)) {
+        this.setBlueprints(parsed.blueprints, parsed.builtAt || 0);
+        console.log(`Loaded ${this.entries.length} indexed blueprints from ${this.filePath}`);
+      }
+    } catch (error: any) {
+      // A missing or unreadable index is rebuilt by the next crawl
+      if (error.code !== 'ENOENT') {
+        console.error(`Ignoring catalog index ${this.filePath}: ${error.message}`);
+      }
+    }
+  }
+
+  private setBlueprints(blueprints: IndexedBlueprint[], builtAt: number): void {
+    this.builtAt = builtAt;
+    this.entries = blueprints.map(blueprint => ({
+      blueprint,
+      fields: {
+        title: tokenize(blueprint.title),
+        tags: blueprint.tags,
+        brand: tokenize(blueprint.brand),
+        model: tokenize(blueprint.model),
+        description: tokenize(blueprint.description)
+      }
+    }));
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+    const data = JSON.stringify({ version: 1, builtAt: this.builtAt, blueprints: this.entries.map(entry => entry.blueprint) });
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Crawl the catalog again; concurrent callers share one crawl
+  refresh(crawl: () => Promise<any[]>): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const blueprints = await crawl();
+        if (blueprints.length === 0) {
+          throw new Error('The blueprint catalog came back empty');
+        }
+        this.setBlueprints(blueprints.map(toIndexedBlueprint), Date.now());
+        await this.persist().catch(error => console.error('Failed to save catalog index:', error));
+        console.log(`Indexed ${this.entries.length} blueprints`);
+      })().catch(error => {
+        this.failedAt = Date.now();
+        this.lastFailure = error;
+        throw error;
+      }).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Wait for a crawl only when there is nothing to search yet. A stale index keeps serving
+  // while it is rebuilt in the background. After a failed crawl, no new one starts for a while.
+  async ensureReady(crawl: () => Promise<any[]>): Promise<void> {
+    await this.ensureLoaded();
+    const backingOff = Date.now() - this.failedAt < REFRESH_RETRY_DELAY;
+    if (this.entries.length === 0) {
+      if (backingOff && !this.refreshing && this.lastFailure) {
+        throw this.lastFailure;
+      }
+      await this.refresh(crawl);
+    } else if (Date.now() - this.builtAt > this.ttl && !backingOff) {
+      this.refresh(crawl).catch(error => console.error('Catalog index refresh failed:', error.message));
+    }
+  }
+
+  // Ranked search. Every word of the query has to match some field, closely or with a typo;
+  // matches in the title and derived tags rank above matches in the description.
+  search(options: CatalogSearchOptions): CatalogSearchResult {
+    // A category or type the index doesn't derive is searched for as text instead
+    const tokens = tokenize(options.query || '');
+    let category = options.category?.toLowerCase().trim();
+    if (category && !BLUEPRINT_TYPES.some(entry => entry.category === category)) {
+      tokens.push(...tokenize(category));
+      category = undefined;
+    }
+    let type = options.type ? tokenize(options.type).join('') : undefined;
+    if (type && !BLUEPRINT_TYPES.some(entry => entry.type === type)) {
+      tokens.push(...tokenize(options.type!));
+      type = undefined;
+    }
+
+    const scored: { blueprint: IndexedBlueprint; score: number }[] = [];
+    for (const entry of this.entries) {
+      if (category && !entry.blueprint.tags.includes(category)) continue;
+      if (type && !entry.blueprint.tags.includes(type)) continue;
+
+      let score = 0;
+      let matchedAll = true;
+      for (const token of tokens) {
+        let best = 0;
+        for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+          best = Math.max(best, matchToken(token, entry.fields[field as keyof typeof FIELD_WEIGHTS]) * weight);
+        }
+        if (best === 0) {
+          matchedAll = false;
+          break;
+        }
+        score += best;
+      }
+      if (!matchedAll) continue;
+
+      // The blueprint's own type outranks products that merely mention it
+      if (type && entry.blueprint.type === type) score += 2;
+      scored.push({ blueprint: entry.blueprint, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.blueprint.title.localeCompare(b.blueprint.title));
+    return {
+      blueprints: scored.slice(0, options.limit ?? 15).map(result => result.blueprint),
+      total: scored.length,
+      builtAt: this.builtAt
+    };
+  }
+}
+
+// Select the backend from the environment (SESSION_STORE=file|memory, CATALOG_INDEX_PATH,
+// CATALOG_INDEX_TTL_HOURS)
+export function createCatalogIndex(): CatalogIndex {
+  const backend = (process.env.SESSION_STORE || 'file').toLowerCase();
+
+  if (backend === 'memory') {
+    return new CatalogIndex();
+  }
+
+  const sessionPath = process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json');
+  const filePath = process.env.CATALOG_INDEX_PATH || path.join(path.dirname(sessionPath), 'catalog-index.json');
+  return new CatalogIndex(filePath);
+}
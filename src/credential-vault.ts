@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+
+// Envelope-encrypted payload: a random data key encrypts the value with AES-256-GCM,
+// and the master key identified by keyId wraps that data key.
+export interface EncryptedEnvelope {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Master keys must be 32 random bytes, hex or base64 encoded (e.g. `openssl rand -base64 32`)
+function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== 32) {
+    throw new Error('Encryption keys must be 32 bytes encoded as hex (64 chars) or base64');
+  }
+  return key;
+}
+
+// Stable, non-reversible identifier for a high-entropy secret such as an API key,
+// used to look up records by key without storing the key itself
+export function fingerprintSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret.trim(), 'utf8').digest('hex');
+}
+
+function keyIdFor(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function decrypt(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export class CredentialVault {
+  private currentKey: Buffer;
+  private keys = new Map<string, Buffer>();
+  readonly currentKeyId: string;
+  readonly isEphemeral: boolean;
+
+  constructor(currentKey: Buffer, previousKeys: Buffer[] = [], isEphemeral: boolean = false) {
+    this.currentKey = currentKey;
+    this.currentKeyId = keyIdFor(currentKey);
+    this.isEphemeral = isEphemeral;
+
+    [currentKey, ...previousKeys].forEach(key => this.keys.set(keyIdFor(key), key));
+  }
+
+  // Build from SESSION_ENCRYPTION_KEY and optional comma-separated SESSION_ENCRYPTION_PREVIOUS_KEYS.
+  // Without a configured key a random per-process key is used, so nothing can be persisted.
+  static fromEnvironment(): CredentialVault {
+    const current = process.env.SESSION_ENCRYPTION_KEY;
+    if (!current) {
+      console.warn('SESSION_ENCRYPTION_KEY is not set - using an ephemeral key, sessions will not survive restarts');
+      return new CredentialVault(crypto.randomBytes(32), [], true);
+    }
+
+    const previous = (process.env.SESSION_ENCRYPTION_PREVIOUS_KEYS || '')
+      .split(',')
+      .map(k => k.trim())
+      .filter(k => k.length > 0)
+      .map(parseMasterKey);
+
+    return new CredentialVault(parseMasterKey(current), previous);
+  }
+
+  // Encrypt a JSON-serializable value under a fresh data key
+  seal<T>(value: T): EncryptedEnvelope {
+    const dataKey = crypto.randomBytes(32);
+    const data = encrypt(dataKey, Buffer.from(JSON.stringify(value), 'utf8'));
+
+    return {
+      keyId: this.currentKeyId,
+      wrappedKey: this.wrapDataKey(dataKey),
+      iv: data.iv.toString('base64'),
+      tag: data.tag.toString('base64'),
+      ciphertext: data.ciphertext.toString('base64')
+    };
+  }
+
+  open<T>(envelope: EncryptedEnvelope): T {
+    const dataKey = this.unwrapDataKey(envelope);
+    const plaintext = decrypt(
+      dataKey,
+      Buffer.from(envelope.iv, 'base64'),
+      Buffer.from(envelope.tag, 'base64'),
+      Buffer.from(envelope.ciphertext, 'base64')
+    );
+    return JSON.parse(plaintext.toString('utf8')) as T;
+  }
+
+  needsRewrap(envelope: EncryptedEnvelope): boolean {
+    return envelope.keyId !== this.currentKeyId;
+  }
+
+  // Re-wrap the data key under the current master key; the payload ciphertext is unchanged
+  rewrap(envelope: EncryptedEnvelope): EncryptedEnvelope {
+    if (!this.needsRewrap(envelope)) {
+      return envelope;
+    }
+
+    const dataKey = this.unwrapDataKey(envelope);
+    return {
+      ...envelope,
+      keyId: this.currentKeyId,
+      wrappedKey: this.wrapDataKey(dataKey)
+    };
+  }
+
+  private wrapDataKey(dataKey: Buffer): string {
+    const wrapped = encrypt(this.currentKey, dataKey);
+    return Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64');
+  }
+
+  private unwrapDataKey(envelope: EncryptedEnvelope): Buffer {
+    const masterKey = this.keys.get(envelope.keyId);
+    if (!masterKey) {
+      throw new Error(
+        `No encryption key available for key ID ${envelope.keyId}. ` +
+        `Add the old key to SESSION_ENCRYPTION_PREVIOUS_KEYS to decrypt it.`
+      );
+    }
+
+    const raw = Buffer.from(envelope.wrappedKey, 'base64');
+    return decrypt(
+      masterKey,
+      raw.subarray(0, IV_LENGTH),
+      raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+      raw.subarray(IV_LENGTH + TAG_LENGTH)
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const DEFAULT_MAX_EVENTS = 1000;
+const DEFAULT_RETENTION = 5 * 60 * 1000; // How long a client has to reconnect with Last-Event-ID
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+// Bounded in-memory event store. One instance serves a single MCP session, because the SDK
+// reuses the same stream ID for every session's standalone GET stream.
+export class MemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private nextEventId = 1;
+
+  constructor(
+    private maxEvents: number = DEFAULT_MAX_EVENTS,
+    private retention: number = DEFAULT_RETENTION
+  ) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = String(this.nextEventId++);
+    this.events.push({ eventId, streamId, message, storedAt: Date.now() });
+    this.prune();
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    this.prune();
+
+    const index = this.events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      throw new Error(`Event ${lastEventId} is no longer available for replay`);
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retention;
+    let drop = 0;
+    while (drop < this.events.length && (this.events[drop].storedAt < cutoff || this.events.length - drop > this.maxEvents)) {
+      drop++;
+    }
+    if (drop > 0) this.events.splice(0, drop);
+  }
+}
+
+// Select the event store for stateful MCP sessions (MCP_EVENT_STORE=memory|none).
+// Returns a factory because each MCP session needs its own store.
+export function createEventStoreFactory(): (() => EventStore) | undefined {
+  const backend = (process.env.MCP_EVENT_STORE || 'memory').toLowerCase();
+
+  if (backend === 'none') {
+    return undefined;
+  }
+
+  const retentionSeconds = parseInt(process.env.MCP_EVENT_RETENTION_SECONDS || '', 10);
+  const retention = retentionSeconds > 0 ? retentionSeconds * 1000 : DEFAULT_RETENTION;
+  return () => new MemoryEventStore(DEFAULT_MAX_EVENTS, retention);
+}
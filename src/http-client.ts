@@ -0,0 +1,246 @@
+import fetch from 'node-fetch';
+import { sanitizeArguments } from './audit-log.js';
+import { parseRetryAfter } from './request-scheduler.js';
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE'];
+
+// Only reads are repeated after a timeout, dropped connection or server error by default: a write
+// that failed that way may already have been applied, and repeating it could duplicate it
+const RETRYABLE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// One outgoing call as it passes through the middleware. Per-call settings (timeout, retries,
+// caching) travel with the request so any layer can read them.
+export interface HttpRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  label: string; // Names the call in logs and errors, e.g. "catalog request"
+  timeoutMs: number;
+  retries: number;
+  idempotent?: boolean; // Lets a write be retried like a read, e.g. a POST that only calculates a quote
+  cacheTtl?: number; // GET responses are reused for this long when set
+  signal?: AbortSignal; // Set by the timeout middleware
+}
+
+// Responses are read in full by the transport, so middleware can inspect, cache or replay them
+export interface HttpResponse {
+  status: number;
+  ok: boolean;
+  headers: { get(name: string): string | null };
+  body: string;
+}
+
+export type HttpHandler = (request: HttpRequest) => Promise<HttpResponse>;
+export type HttpMiddleware = (request: HttpRequest, next: HttpHandler) => Promise<HttpResponse>;
+
+// The subset of fetch the client needs, so tests and other runtimes can inject their own
+export type FetchLike = (url: string, init: {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}) => Promise<{ status: number; ok: boolean; headers: { get(name: string): string | null }; text(): Promise<string> }>;
+
+export class HttpTimeoutError extends Error {
+  constructor(public request: HttpRequest) {
+    super(`${request.label} timeout after ${request.timeoutMs / 1000}s: ${request.url}`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+export function isNetworkError(error: any): boolean {
+  return NETWORK_ERROR_CODES.includes(error?.code);
+}
+
+// Compose middleware, outermost first, around a fetch call
+export function createHttpClient(middleware: HttpMiddleware[], fetchImpl: FetchLike = fetch as unknown as FetchLike): HttpHandler {
+  const transport: HttpHandler = async request => {
+    const response = await fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal
+    });
+    return { status: response.status, ok: response.ok, headers: response.headers, body: await response.text() };
+  };
+  return middleware.reduceRight<HttpHandler>((next, layer) => request => layer(request, next), transport);
+}
+
+export function authMiddleware(token: string): HttpMiddleware {
+  return (request, next) => next({ ...request, headers: { ...request.headers, Authorization: `Bearer ${token}` } });
+}
+
+// Abort the call after request.timeoutMs, including reading the body
+export function timeoutMiddleware(): HttpMiddleware {
+  return async (request, next) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), request.timeoutMs);
+    try {
+      return await next({ ...request, signal: controller.signal });
+    } catch (error: any) {
+      throw error?.name === 'AbortError' ? new HttpTimeoutError(request) : error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+}
+
+// How long to wait before attempt `attempt + 1`, or undefined to give up
+export type RetryPolicy = (
+  attempt: number,
+  outcome: { response?: HttpResponse; error?: any },
+  request: HttpRequest
+) => number | undefined;
+
+export function isIdempotent(request: HttpRequest): boolean {
+  return request.idempotent ?? RETRYABLE_METHODS.includes(request.method.toUpperCase());
+}
+
+// Rate limits back off up to 5s unless Retry-After says longer; Printify rejects those requests
+// unprocessed, so every method is retried. Idempotent requests are also retried after server
+// errors (up to 5s), timeouts (up to 10s) and dropped connections (up to 5s).
+export const defaultRetryPolicy: RetryPolicy = (attempt, { response, error }, request) => {
+  if (response?.status !== 429 && !isIdempotent(request)) return undefined;
+  if (response) {
+    if (response.status !== 429 && response.status < 500) return undefined;
+    const backoff = Math.min(1000 * Math.pow(2, attempt), 5000);
+    const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : undefined;
+    return Math.max(backoff, retryAfter ?? 0);
+  }
+  if (error instanceof HttpTimeoutError) return Math.min(2000 * Math.pow(2, attempt), 10000);
+  if (isNetworkError(error)) return Math.min(1000 * Math.pow(2, attempt), 5000);
+  return undefined;
+};
+
+// Retry up to request.retries times. The last response is returned even when it failed,
+// so the caller decides how to report it.
+export function retryMiddleware(policy: RetryPolicy = defaultRetryPolicy): HttpMiddleware {
+  return async (request, next) => {
+    for (let attempt = 0; ; attempt++) {
+      let outcome: { response?: HttpResponse; error?: any };
+      try {
+        outcome = { response: await next(request) };
+        if (outcome.response!.ok) return outcome.response!;
+      } catch (error) {
+        outcome = { error };
+      }
+
+      const delay = attempt < request.retries ? policy(attempt, outcome, request) : undefined;
+      if (delay === undefined) {
+        if (outcome.error) throw outcome.error;
+        return outcome.response!;
+      }
+
+      const reason = outcome.response ? `status ${outcome.response.status}` : outcome.error.code || outcome.error.name;
+      console.log(`Retrying ${request.label} after ${delay}ms (${reason}, attempt ${attempt + 1}/${request.retries})...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  };
+}
+
+// Debug logging with the Authorization header redacted and long bodies (base64 uploads) truncated
+export function loggingMiddleware(enabled: () => boolean): HttpMiddleware {
+  return async (request, next) => {
+    if (!enabled()) return next(request);
+
+    console.log(`[DEBUG] ${request.label}: ${request.method} ${request.url}`);
+    console.log('[DEBUG] Headers:', { ...request.headers, ...(request.headers.Authorization ? { Authorization: 'Bearer ***' } : {}) });
+    if (request.body) {
+      try {
+        console.log('[DEBUG] Request body:', JSON.stringify(sanitizeArguments(JSON.parse(request.body)), null, 2));
+      } catch {
+        console.log('[DEBUG] Request body (raw):', sanitizeArguments(request.body));
+      }
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await next(request);
+      console.log(`[DEBUG] Response ${response.status} in ${Date.now() - startedAt}ms (${response.body.length} bytes)`);
+      if (!response.ok) {
+        console.error('[DEBUG] API error response:', sanitizeArguments(response.body));
+      }
+      return response;
+    } catch (error) {
+      console.error(`[DEBUG] ${request.label} failed after ${Date.now() - startedAt}ms:`, error);
+      throw error;
+    }
+  };
+}
+
+// Successful GET responses, kept for request.cacheTtl. Each client has its own cache, holding at
+// most maxEntries URLs; the least recently used one is dropped to make room.
+export function cacheMiddleware(maxEntries = 200): HttpMiddleware {
+  const entries = new Map<string, { response: HttpResponse; expiresAt: number }>();
+  return async (request, next) => {
+    if (request.method !== 'GET' || !request.cacheTtl) return next(request);
+
+    const cached = entries.get(request.url);
+    if (cached) {
+      entries.delete(request.url);
+      if (cached.expiresAt > Date.now()) {
+        entries.set(request.url, cached); // Map order doubles as recency order
+        return cached.response;
+      }
+    }
+
+    const response = await next(request);
+    if (response.ok) {
+      entries.set(request.url, { response, expiresAt: Date.now() + request.cacheTtl });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+    return response;
+  };
+}
+
+export interface HttpMetricsSnapshot {
+  requests: number;
+  failures: number; // Error statuses, timeouts and network errors
+  byStatus: Record<string, number>;
+  byLabel: Record<string, number>;
+  averageMs: number;
+}
+
+// Counters for calls that actually went out, i.e. after caching and including every retry
+export class HttpMetrics {
+  private requests = 0;
+  private failures = 0;
+  private totalMs = 0;
+  private byStatus: Record<string, number> = {};
+  private byLabel: Record<string, number> = {};
+
+  record(label: string, status: number | 'timeout' | 'error', durationMs: number): void {
+    this.requests++;
+    this.totalMs += durationMs;
+    if (typeof status !== 'number' || status >= 400) this.failures++;
+    this.byStatus[status] = (this.byStatus[status] || 0) + 1;
+    this.byLabel[label] = (this.byLabel[label] || 0) + 1;
+  }
+
+  snapshot(): HttpMetricsSnapshot {
+    return {
+      requests: this.requests,
+      failures: this.failures,
+      byStatus: { ...this.byStatus },
+      byLabel: { ...this.byLabel },
+      averageMs: this.requests ? Math.round(this.totalMs / this.requests) : 0
+    };
+  }
+}
+
+export function metricsMiddleware(metrics: HttpMetrics): HttpMiddleware {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    try {
+      const response = await next(request);
+      metrics.record(request.label, response.status, Date.now() - startedAt);
+      return response;
+    } catch (error) {
+      metrics.record(request.label, error instanceof HttpTimeoutError ? 'timeout' : 'error', Date.now() - startedAt);
+      throw error;
+    }
+  };
+}
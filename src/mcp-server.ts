@@ -0,0 +1,4102 @@
+import crypto from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ElicitResultSchema, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  ORDER_STATUSES,
+  PrintifyAPI,
+  PrintifyErrorCode,
+  PrintifyOrder,
+  PrintifyOrderFilters,
+  PrintifyOrderLineItemRequest,
+  PrintifyOrderRequest,
+  PrintifyProductCopy,
+  PrintifyProviderOffer,
+  PrintifyShippingMethod,
+  ResponseFormatter,
+  SHIPPING_METHODS,
+  WEBHOOK_TOPICS
+} from './printify-api.js';
+import { ReplicateClient } from './replicate-client.js';
+import { CatalogIndex } from './catalog-index.js';
+import { createScopedToolRegistrar, Scope, ToolHandlerWrapper } from './scopes.js';
+
+// Color normalization helper functions
+const COLOR_MAPPINGS: {[key: string]: string} = {
+  // Primary mappings - map variants to standard colors
+  'carolina blue': 'blue',
+  'sky blue': 'blue',
+  'baby blue': 'blue',
+  'royal blue': 'blue',
+  'navy blue': 'blue',
+  'ocean blue': 'blue',
+  'cobalt': 'blue',
+  'azure': 'blue',
+  'teal': 'blue',
+  'turquoise': 'blue',
+  'cerulean': 'blue',
+  'sapphire': 'blue',
+  'indigo': 'blue',
+  'denim': 'blue',
+  'steel blue': 'blue',
+  'powder blue': 'blue',
+  
+  'jet black': 'black',
+  'midnight': 'black',
+  'ebony': 'black',
+  'onyx': 'black',
+  'carbon': 'black',
+  'pitch black': 'black',
+  
+  'charcoal': 'gray',
+  'heather gray': 'gray',
+  'heather grey': 'gray',
+  'silver': 'gray',
+  'ash': 'gray',
+  'slate': 'gray',
+  'graphite': 'gray',
+  'smoke': 'gray',
+  'stone': 'gray',
+  'pewter': 'gray',
+  'concrete': 'gray',
+  'dove gray': 'gray',
+  'storm': 'gray',
+  
+  'off white': 'white',
+  'off-white': 'white',
+  'ivory': 'white',
+  'cream': 'white',
+  'natural': 'white',
+  'snow': 'white',
+  'pearl': 'white',
+  'bone': 'white',
+  'vanilla': 'white',
+  'eggshell': 'white',
+  'linen': 'white',
+  'antique white': 'white',
+  
+  'cardinal': 'red',
+  'scarlet': 'red',
+  'crimson': 'red',
+  'burgundy': 'red',
+  'cherry': 'red',
+  'ruby': 'red',
+  'maroon': 'red',
+  'wine': 'red',
+  'brick': 'red',
+  'fire': 'red',
+  'flame': 'red',
+  'raspberry': 'red',
+  'blood red': 'red',
+  
+  'forest green': 'green',
+  'forest': 'green',
+  'olive': 'green',
+  'emerald': 'green',
+  'mint': 'green',
+  'sage': 'green',
+  'lime': 'green',
+  'kelly green': 'green',
+  'kelly': 'green',
+  'hunter green': 'green',
+  'hunter': 'green',
+  'jade': 'green',
+  'sea green': 'green',
+  'pine': 'green',
+  'moss': 'green',
+  'shamrock': 'green',
+  'grass': 'green',
+  
+  'rose': 'pink',
+  'blush': 'pink',
+  'fuchsia': 'pink',
+  'magenta': 'pink',
+  'coral': 'pink',
+  'salmon': 'pink',
+  'hot pink': 'pink',
+  'bubblegum': 'pink',
+  'carnation': 'pink',
+  'flamingo': 'pink',
+  'dusty rose': 'pink',
+  
+  'violet': 'purple',
+  'lavender': 'purple',
+  'plum': 'purple',
+  'eggplant': 'purple',
+  'orchid': 'purple',
+  'amethyst': 'purple',
+  'grape': 'purple',
+  'mauve': 'purple',
+  'lilac': 'purple',
+  'periwinkle': 'purple',
+  
+  'gold': 'yellow',
+  'mustard': 'yellow',
+  'lemon': 'yellow',
+  'butter': 'yellow',
+  'sunshine': 'yellow',
+  'canary': 'yellow',
+  'daffodil': 'yellow',
+  'honey': 'yellow',
+  'amber': 'yellow',
+  'corn': 'yellow',
+  
+  'rust': 'orange',
+  'burnt orange': 'orange',
+  'tangerine': 'orange',
+  'peach': 'orange',
+  'apricot': 'orange',
+  'pumpkin': 'orange',
+  'terracotta': 'orange',
+  'sunset': 'orange',
+  'copper': 'orange',
+  
+  'tan': 'brown',
+  'beige': 'brown',
+  'taupe': 'brown',
+  'chocolate': 'brown',
+  'coffee': 'brown',
+  'mocha': 'brown',
+  'espresso': 'brown',
+  'caramel': 'brown',
+  'khaki': 'brown',
+  'sand': 'brown',
+  'chestnut': 'brown',
+  'walnut': 'brown',
+  'cocoa': 'brown'
+};
+
+// Catalog variants carry their color as an option; older blueprints only have it in the title
+function variantColor(variant: any): string {
+  return variant.options?.color || String(variant.title || '').split(' / ')[0];
+}
+
+// Resolve print areas that pick their variants by color group (e.g. black, navy and gray for a
+// white-ink design) to the matching variant IDs of the product
+async function resolvePrintAreaColors(
+  printifyClient: PrintifyAPI,
+  blueprintId: number,
+  printProviderId: number,
+  variantIds: number[],
+  printAreas: { variantIds?: number[]; colors?: string[] }[]
+): Promise<void> {
+  const selecting = printAreas.filter(area => area.colors && area.colors.length > 0);
+  if (selecting.length === 0) return;
+
+  const { variants } = await printifyClient.getVariants(blueprintId.toString(), printProviderId.toString());
+  const colorById = new Map<number, string>(
+    (variants || []).map((variant: any) => [variant.id, normalizeColorName(variantColor(variant))])
+  );
+
+  for (const area of selecting) {
+    if (area.variantIds) {
+      throw new Error('A print area takes either variantIds or colors, not both');
+    }
+    const groups = area.colors!.map(color => normalizeColorName(color));
+    area.variantIds = variantIds.filter(id => groups.includes(colorById.get(id) || ''));
+    if (area.variantIds.length === 0) {
+      throw new Error(`No product variants match the colors ${area.colors!.join(', ')} (normalized: ${groups.join(', ')})`);
+    }
+  }
+}
+
+// Normalize a color name to a standard color
+function normalizeColorName(color: string): string {
+  const lowerColor = color.toLowerCase().trim();
+  
+  // Check if it's already a standard color
+  const standardColors = ['white', 'black', 'gray', 'grey', 'red', 'blue', 'green', 'pink', 'purple', 'yellow', 'orange', 'brown', 'navy'];
+  if (standardColors.includes(lowerColor)) {
+    return lowerColor === 'grey' ? 'gray' : lowerColor; // Normalize grey to gray
+  }
+  
+  // Check color mappings
+  if (COLOR_MAPPINGS[lowerColor]) {
+    return COLOR_MAPPINGS[lowerColor];
+  }
+  
+  // Remove common prefixes/suffixes and try again
+  const cleanedColor = lowerColor
+    .replace(/^(solid|heather|dark|light|bright|pale|deep|medium|vintage|classic)\s+/, '')
+    .replace(/\s+(heather|solid|blend)$/, '')
+    .trim();
+  
+  if (cleanedColor !== lowerColor && COLOR_MAPPINGS[cleanedColor]) {
+    return COLOR_MAPPINGS[cleanedColor];
+  }
+  
+  // Try fuzzy matching - find the best match
+  const colorWords = lowerColor.split(/[\s\-_]+/);
+  for (const word of colorWords) {
+    if (COLOR_MAPPINGS[word]) {
+      return COLOR_MAPPINGS[word];
+    }
+    // Check if the word is a standard color
+    if (standardColors.includes(word)) {
+      return word === 'grey' ? 'gray' : word;
+    }
+  }
+  
+  // Check if the color contains a standard color as substring
+  for (const [mappedColor, standardColor] of Object.entries(COLOR_MAPPINGS)) {
+    if (lowerColor.includes(mappedColor)) {
+      return standardColor;
+    }
+  }
+  
+  // Check standard colors as substrings
+  for (const standardColor of standardColors) {
+    if (lowerColor.includes(standardColor)) {
+      return standardColor === 'grey' ? 'gray' : standardColor;
+    }
+  }
+  
+  // Return original if no mapping found
+  return lowerColor;
+}
+
+// Default weights for compare-providers; they only need to be relative to each other
+const PROVIDER_WEIGHTS = { cost: 4, coverage: 3, shipping: 2, location: 1 };
+
+interface RankedProviderOffer {
+  offer: PrintifyProviderOffer;
+  score: number; // 0-100
+  missingColors: string[];
+  missingSizes: string[];
+}
+
+// Scale values so the best gets 1 and the worst 0; lower is better unless higherIsBetter
+function relativeScores(values: (number | undefined)[], higherIsBetter: boolean = false): number[] {
+  const known = values.filter((value): value is number => value !== undefined);
+  const best = higherIsBetter ? Math.max(...known) : Math.min(...known);
+  const worst = higherIsBetter ? Math.min(...known) : Math.max(...known);
+  return values.map(value => {
+    if (value === undefined) return 0;
+    if (best === worst) return 1;
+    return (value - worst) / (best - worst);
+  });
+}
+
+// Rank providers by weighted cost, coverage of the requested colors and sizes (or of the whole
+// range when none are requested), standard shipping and whether they produce in a target country
+function rankProviderOffers(
+  offers: PrintifyProviderOffer[],
+  request: { colors: string[]; sizes: string[]; countries: string[]; weights: typeof PROVIDER_WEIGHTS }
+): RankedProviderOffer[] {
+  const usable = offers.filter(offer => !offer.error && offer.variants > 0);
+  const normalizeSize = (size: string) => size.toUpperCase().replace(/\s+/g, '');
+
+  const coverage = usable.map(offer => {
+    const colors = new Set(offer.colors.map(color => normalizeColorName(color)));
+    const sizes = new Set(offer.sizes.map(normalizeSize));
+    const missingColors = request.colors.filter(color => !colors.has(normalizeColorName(color)));
+    const missingSizes = request.sizes.filter(size => !sizes.has(normalizeSize(size)));
+    const requested = request.colors.length + request.sizes.length;
+    return {
+      missingColors,
+      missingSizes,
+      value: requested > 0 ? (requested - missingColors.length - missingSizes.length) / requested : offer.variants
+    };
+  });
+
+  const scores = {
+    cost: relativeScores(usable.map(offer => offer.cost?.min)),
+    coverage: request.colors.length + request.sizes.length > 0
+      ? coverage.map(item => item.value)
+      : relativeScores(coverage.map(item => item.value), true),
+    shipping: relativeScores(usable.map(offer => {
+      const rates = offer.shipping.map(rate => rate.firstItem?.min);
+      if (rates.length === 0 || rates.some(rate => rate === undefined)) return undefined;
+      return (rates as number[]).reduce((sum, rate) => sum + rate, 0) / rates.length;
+    })),
+    location: usable.map(offer => request.countries.includes(offer.provider.location?.country?.toUpperCase() || '') ? 1 : 0)
+  };
+
+  // Shipping and location only count when countries were given
+  const weights = { ...request.weights };
+  if (request.countries.length === 0) {
+    weights.shipping = 0;
+    weights.location = 0;
+  }
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+
+  return usable
+    .map((offer, index) => ({
+      offer,
+      score: Math.round(100 * (Object.keys(weights) as (keyof typeof weights)[])
+        .reduce((sum, key) => sum + weights[key] * scores[key][index], 0) / totalWeight),
+      missingColors: coverage[index].missingColors,
+      missingSizes: coverage[index].missingSizes
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Helper function to extract validation errors from API responses
+function extractValidationErrors(error: any): { field: string; messages: string[] }[] {
+  const validationErrors: { field: string; messages: string[] }[] = [];
+  
+  // Try different error formats that Printify API might return
+  const errorSources = [
+    error.context?.errorDetails?.errors,
+    error.context?.errors,
+    error.errors,
+    error.response?.data?.errors,
+    error.response?.errors
+  ];
+  
+  for (const source of errorSources) {
+    if (source && typeof source === 'object') {
+      Object.entries(source).forEach(([field, errors]) => {
+        const messages = Array.isArray(errors) ? errors : [errors];
+        validationErrors.push({
+          field,
+          messages: messages.map(e => String(e))
+        });
+      });
+      break; // Found errors, stop looking
+    }
+  }
+  
+  // If no structured errors found, try to parse from message
+  if (validationErrors.length === 0 && error.message) {
+    const messageMatch = error.message.match(/Field errors: (.+)/s);
+    if (messageMatch) {
+      // Parse field errors from message
+      const fieldErrorsText = messageMatch[1];
+      const fieldMatches = fieldErrorsText.matchAll(/([\w.]+): (.+?)(?=\n|$)/g);
+      for (const match of fieldMatches) {
+        validationErrors.push({
+          field: match[1],
+          messages: [match[2]]
+        });
+      }
+    }
+  }
+  
+  return validationErrors;
+}
+
+// Parse a date filter; a plain date used as an upper bound covers the whole day (UTC)
+function parseOrderDate(value: string | undefined, name: string, endOfDay: boolean = false): Date | undefined {
+  if (!value) return undefined;
+  
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date such as 2025-01-31`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+export type ChargeConfirmation = 'confirmed' | 'declined' | 'unsupported';
+
+// Charges are confirmed by the user in a prompt their MCP client shows them (elicitation). The
+// model never sees that exchange, so it can't approve a charge on the user's behalf. Clients
+// that haven't declared elicitation support - including every stateless HTTP request, which
+// never sees the client's capabilities - get 'unsupported', and send-order-to-production then
+// falls back to its confirmTotal argument.
+async function confirmCharge(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  message: string
+): Promise<ChargeConfirmation> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return 'unsupported';
+  }
+
+  const result = await extra.sendRequest({
+    method: 'elicitation/create',
+    params: {
+      message,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Charge the Printify account', default: false }
+        },
+        required: ['confirm']
+      }
+    }
+  }, ElicitResultSchema);
+  return result.action === 'accept' && result.content?.confirm === true ? 'confirmed' : 'declined';
+}
+
+function orderTotal(order: PrintifyOrder): number {
+  return order.total_price + order.total_shipping + order.total_tax;
+}
+
+// Line items as accepted by create-order and calculate-shipping
+const orderLineItemsSchema = z.array(z.object({
+  productId: z.string().optional().describe("ID of an existing product in the shop"),
+  blueprintId: z.number().optional().describe("Blueprint ID, for items printed without a saved product"),
+  printProviderId: z.number().optional().describe("Print provider ID (with blueprintId)"),
+  variantId: z.number().describe("Variant ID"),
+  printAreas: z.record(z.string().url()).optional().describe("Position to image URL, e.g. { front: 'https://...' } (with blueprintId)"),
+  quantity: z.number().int().min(1).optional().default(1).describe("Quantity")
+})).min(1).describe("Items to order: productId + variantId, or blueprintId + printProviderId + variantId + printAreas");
+
+// Shipping quotes only need the blueprint variant, so printAreas is optional for them
+function toOrderLineItems(lineItems: z.infer<typeof orderLineItemsSchema>, requirePrintAreas: boolean = true): PrintifyOrderLineItemRequest[] {
+  return lineItems.map((item, index) => {
+    if (item.productId && item.blueprintId) {
+      throw new Error(`Line item ${index + 1}: use either productId or blueprintId, not both`);
+    }
+    if (item.productId) {
+      return { product_id: item.productId, variant_id: item.variantId, quantity: item.quantity };
+    }
+    const hasPrintAreas = item.printAreas && Object.keys(item.printAreas).length > 0;
+    if (!item.blueprintId || !item.printProviderId || (requirePrintAreas && !hasPrintAreas)) {
+      throw new Error(`Line item ${index + 1}: needs productId, or blueprintId, printProviderId and printAreas`);
+    }
+    return {
+      blueprint_id: item.blueprintId,
+      print_provider_id: item.printProviderId,
+      variant_id: item.variantId,
+      print_areas: item.printAreas,
+      quantity: item.quantity
+    };
+  });
+}
+
+// Receiver URLs on the host that accept signed Printify deliveries (the web server has them,
+// stdio does not). Receivers are reserved before the webhook exists, then linked to it.
+export interface WebhookReceiverHost {
+  create(topic: string, shopId: string): Promise<{ receiverId: string; url: string; secret: string }>;
+  link(receiverId: string, webhookId: string): Promise<void>;
+  discard(receiverId: string): Promise<void>;
+  discardWebhook(webhookId: string): Promise<void>; // The webhook was deleted or now points elsewhere
+  isReceiverUrl(url: string): boolean;
+  readRecentEvents(): Promise<unknown[]>; // Backs printify://events/recent
+}
+
+// What the shared MCP server needs from its host. The web server builds one per user
+// session; the stdio entry point builds one from environment variables.
+export interface PrintifyMcpContext {
+  printifyClient: PrintifyAPI;
+  replicateClient?: ReplicateClient; // generate-and-upload-image is only offered with one
+  scopes: readonly Scope[];
+  wrapToolHandler?: ToolHandlerWrapper; // e.g. to write every call to the audit log
+  onShopChanged?: (shopId: string | undefined) => Promise<void>;
+  readRecentAudit?: () => Promise<unknown[]>; // Backs printify://audit/recent
+  webhookReceivers?: WebhookReceiverHost;
+  catalogIndex?: CatalogIndex; // Shared between sessions; a private in-memory index otherwise
+}
+
+// Register every Printify tool, resource and prompt the context's scopes allow
+export function createPrintifyMcpServer(context: PrintifyMcpContext): McpServer {
+  const { printifyClient, replicateClient } = context;
+  const catalogIndex = context.catalogIndex ?? new CatalogIndex();
+
+  // Ensure the Printify client has a valid shop ID
+  if (!printifyClient.shopId) {
+    const shops = printifyClient.shops || [];
+    if (shops.length > 0) {
+      // Re-initialize with the first available shop
+      printifyClient.shopId = String(shops[0].id);
+      console.log(`Recovered shop ID: ${shops[0].title} (${shops[0].id})`);
+    } else {
+      console.warn('No shops available for session, API calls may fail');
+    }
+  }
+  
+  const server = new McpServer({
+    name: "printify-mcp",
+    version: "1.0.0",
+    vendor: "printify"
+  });
+  const tool = createScopedToolRegistrar(server, context.scopes, context.wrapToolHandler);
+
+  // List shops tool
+  tool(
+    "list-shops",
+    {},
+    async () => {
+      const shops = await printifyClient.getShops();
+      
+      let output = `🏪 Available Shops\n`;
+      output += `═══════════════\n\n`;
+      
+      if (!shops || shops.length === 0) {
+        output += `❌ No shops found\n\n`;
+        output += `💡 Tips:\n`;
+        output += `• Ensure your Printify API key has access to shops\n`;
+        output += `• Check your Printify account has connected stores\n`;
+      } else {
+        const currentShopId = printifyClient.shopId;
+        
+        shops.forEach((shop: any, index: number) => {
+          const isCurrent = String(shop.id) === String(currentShopId);
+          output += `${isCurrent ? '→ ' : '  '}${index + 1}. ${shop.title}\n`;
+          output += `     ID: ${shop.id}\n`;
+          output += `     Channel: ${shop.sales_channel || 'Unknown'}\n`;
+          if (isCurrent) output += `     (Current Shop)\n`;
+          output += `\n`;
+        });
+        
+        output += `💡 Actions:\n`;
+        output += `• Switch shop: switch-shop {shop_id}\n`;
+        output += `• View products: list-products\n`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: output
+        }]
+      };
+    }
+  );
+
+  // Switch shop tool
+  tool(
+    "switch-shop",
+    {
+      shopId: z.string().describe("The ID of the shop to switch to")
+    },
+    async ({ shopId }) => {
+      await printifyClient.setShop(shopId);
+      
+      // Let the host remember the selection (the web server persists it across restarts)
+      await context.onShopChanged?.(printifyClient.shopId);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Switched to shop ${shopId}`
+        }]
+      };
+    }
+  );
+
+  // List products tool
+  tool(
+    "list-products",
+    {
+      page: z.number().optional().default(1).describe("Page number"),
+      limit: z.number().optional().default(10).describe("Number of products per page")
+    },
+    async ({ page, limit }) => {
+      const products = await printifyClient.getProducts(page, limit);
+      
+      let output = `📦 Product List\n`;
+      output += `═══════════════\n\n`;
+      
+      if (!products.data || products.data.length === 0) {
+        output += `❌ No products found\n\n`;
+        output += `💡 Get started:\n`;
+        output += `• Create your first product: create-product-simple\n`;
+        output += `• Browse blueprints: get-popular-blueprints\n`;
+        output += `• Upload a design: upload-image\n`;
+      } else {
+        output += `📊 Page ${products.current_page} of ${products.last_page} (${products.total} total products)\n\n`;
+        
+        products.data.forEach((product: any, index: number) => {
+          const num = (page - 1) * limit + index + 1;
+          output += `${num}. ${product.title}\n`;
+          output += `   🆔 ID: ${product.id}\n`;
+          output += `   📋 Blueprint: ${product.blueprint_id}\n`;
+          output += `   👕 Variants: ${product.variants?.filter((v: any) => v.is_enabled).length || 0} enabled\n`;
+          output += `   👁️ Status: ${product.is_locked ? 'Publishing' : product.visible ? 'Published' : 'Draft'}\n`;
+          output += `   📅 Created: ${new Date(product.created_at).toLocaleDateString()}\n`;
+          output += `\n`;
+        });
+        
+        output += `📄 Pagination:\n`;
+        if (page > 1) output += `• Previous: list-products page=${page - 1} limit=${limit}\n`;
+        if (page < products.last_page) output += `• Next: list-products page=${page + 1} limit=${limit}\n`;
+        output += `\n`;
+        
+        output += `💡 Actions:\n`;
+        output += `• View details: get-product {product_id}\n`;
+        output += `• Create new: create-product-simple\n`;
+        output += `• Update: update-product {product_id}\n`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: output
+        }]
+      };
+    }
+  );
+
+  // Get product details
+  tool(
+    "get-product",
+    {
+      productId: z.string().describe("Product ID")
+    },
+    async ({ productId }) => {
+      const product = await printifyClient.getProduct(productId);
+      
+      let output = `📋 Product Details\n`;
+      output += `═══════════════════\n\n`;
+      output += `🆔 ID: ${product.id}\n`;
+      output += `📝 Title: ${product.title}\n`;
+      output += `📄 Description: ${product.description || 'No description'}\n`;
+      output += `🏷️ Tags: ${product.tags?.join(', ') || 'No tags'}\n`;
+      output += `📋 Blueprint: ${product.blueprint_id}\n`;
+      output += `🖨️ Print Provider: ${product.print_provider_id}\n`;
+      output += `👁️ Visible: ${product.visible ? 'Yes' : 'No'}\n`;
+      output += `🚀 Publishing: ${ResponseFormatter.formatPublishingStatus(product)}\n`;
+      output += `📅 Created: ${new Date(product.created_at).toLocaleDateString()}\n`;
+      output += `🔄 Updated: ${new Date(product.updated_at).toLocaleDateString()}\n\n`;
+      
+      output += `👕 Variants: ${product.variants?.length || 0}\n`;
+      if (product.variants && product.variants.length > 0) {
+        const enabledVariants = product.variants.filter((v: any) => v.is_enabled);
+        output += `  • Enabled: ${enabledVariants.length}\n`;
+        output += `  • Disabled: ${product.variants.length - enabledVariants.length}\n`;
+      }
+      
+      output += `🖼️ Images: ${product.images?.length || 0}\n`;
+      (product.images || []).slice(0, 10).forEach((image: any) => {
+        output += `  ${image.is_default ? '⭐' : '•'} ${image.position || 'mockup'}${image.is_selected_for_publishing === false ? ' (hidden)' : ''}: ${image.src}\n`;
+      });
+      output += `📐 Print Areas: ${product.print_areas?.length || 0} configured\n`;
+      (product.print_areas || []).forEach((area: any, index: number) => {
+        const placements = area.placeholders
+          .map((p: any) => `${p.position} [${p.images.map((image: any) => image.id).join(', ')}]`)
+          .join('; ');
+        output += `  ${index + 1}. ${area.variant_ids.length} variant(s): ${placements || 'no design'}\n`;
+      });
+      output += `\n`;
+      
+      output += `💡 Actions:\n`;
+      output += `• Update: update-product ${product.id}\n`;
+      output += `• Publish: publish-product ${product.id}\n`;
+      output += `• Delete: delete-product ${product.id}\n`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: output
+        }]
+      };
+    }
+  );
+
+  // List orders tool
+  tool(
+    "list-orders",
+    {
+      status: z.enum(ORDER_STATUSES).optional().describe("Only orders with this status"),
+      sku: z.string().optional().describe("Only orders containing this variant SKU"),
+      createdAfter: z.string().optional().describe("Only orders created on or after this date (ISO 8601, e.g. 2025-01-31)"),
+      createdBefore: z.string().optional().describe("Only orders created on or before this date (ISO 8601; a plain date includes the whole day)"),
+      maxResults: z.number().min(1).max(100).optional().default(20).describe("Maximum number of orders to return")
+    },
+    async ({ status, sku, createdAfter, createdBefore, maxResults }) => {
+      try {
+        const filters: PrintifyOrderFilters = {
+          status,
+          sku,
+          createdAfter: parseOrderDate(createdAfter, 'createdAfter'),
+          createdBefore: parseOrderDate(createdBefore, 'createdBefore', true)
+        };
+        const search = await printifyClient.searchOrders(filters, maxResults);
+        
+        return {
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatOrdersList(search, filters)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'listing orders')
+          }]
+        };
+      }
+    }
+  );
+
+  // Get order tool
+  tool(
+    "get-order",
+    {
+      orderId: z.string().describe("Order ID")
+    },
+    async ({ orderId }) => {
+      try {
+        const order = await printifyClient.getOrder(orderId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatOrderDetails(order)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `retrieving order ${orderId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Create order tool
+  tool(
+    "create-order",
+    {
+      lineItems: orderLineItemsSchema,
+      address: z.object({
+        firstName: z.string(),
+        lastName: z.string(),
+        email: z.string().email(),
+        phone: z.string().optional(),
+        country: z.string().length(2).describe("ISO country code, e.g. US"),
+        region: z.string().optional().describe("State or region code, e.g. CA"),
+        address1: z.string(),
+        address2: z.string().optional(),
+        city: z.string(),
+        zip: z.string(),
+        company: z.string().optional()
+      }).describe("Shipping address"),
+      shippingMethod: z.enum(['standard', 'priority', 'express', 'economy']).optional().default('standard').describe("Shipping speed"),
+      label: z.string().optional().describe("Label shown on the order in Printify"),
+      externalId: z.string().optional().describe("Your own unique reference for the order"),
+      sendShippingNotification: z.boolean().optional().default(false).describe("Have Printify email the recipient when the order ships"),
+      draft: z.boolean().optional().default(true).describe("Create the order without sending it to production (nothing is charged). draft: false asks the user to confirm the charge")
+    },
+    async ({ lineItems, address, shippingMethod, label, externalId, sendShippingNotification, draft }, extra) => {
+      try {
+        const order: PrintifyOrderRequest = {
+          external_id: externalId || '',
+          label,
+          line_items: toOrderLineItems(lineItems),
+          shipping_method: SHIPPING_METHODS[shippingMethod],
+          is_economy_shipping: shippingMethod === 'economy' || undefined,
+          send_shipping_notification: sendShippingNotification,
+          address_to: {
+            first_name: address.firstName,
+            last_name: address.lastName,
+            email: address.email,
+            phone: address.phone,
+            country: address.country.toUpperCase(),
+            region: address.region,
+            address1: address.address1,
+            address2: address.address2,
+            city: address.city,
+            zip: address.zip,
+            company: address.company
+          }
+        };
+        
+        // Ordering straight to production charges the account, so the user confirms the preview
+        if (!draft) {
+          const quote = await printifyClient.calculateShipping(order).catch(() => undefined);
+          const preview = ResponseFormatter.formatOrderPreview(order, shippingMethod, quote);
+          const confirmation = await confirmCharge(server, extra,
+            `${preview}\nCreate this order and charge the items, shipping and tax to the Printify account?`);
+          if (confirmation !== 'confirmed') {
+            let output = preview;
+            output += ResponseFormatter.formatChargeNotConfirmed('the items, shipping and tax', confirmation);
+            output += confirmation === 'unsupported'
+              ? `\n💡 Create it as a draft (draft: true), then send it with send-order-to-production once the user has approved its total\n`
+              : `\n💡 Or create it as a draft (draft: true) to see the exact total first\n`;
+            
+            return {
+              content: [{
+                type: "text",
+                text: output
+              }]
+            };
+          }
+        }
+        
+        if (!order.external_id) {
+          order.external_id = `mcp-${crypto.randomBytes(8).toString('hex')}`;
+        }
+        const { id } = await printifyClient.createOrder(order);
+        
+        let output: string;
+        if (draft) {
+          output = `✅ Draft order created - nothing has been charged\n\n`;
+          output += ResponseFormatter.formatOrderDetails(await printifyClient.getOrder(id));
+          output += `\n💡 Next Steps:\n`;
+          output += `• Use send-order-to-production ${id} to review the charge and send it\n`;
+          output += `• Use cancel-order ${id} if it's no longer needed\n`;
+        } else {
+          try {
+            await printifyClient.sendOrderToProduction(id);
+          } catch (error: any) {
+            error.message = `Order ${id} was created but not sent to production: ${error.message}`;
+            throw error;
+          }
+          output = `✅ Order created and sent to production\n\n`;
+          output += ResponseFormatter.formatOrderDetails(await printifyClient.getOrder(id));
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'creating order')
+          }]
+        };
+      }
+    }
+  );
+
+  // Send order to production tool
+  tool(
+    "send-order-to-production",
+    {
+      orderId: z.string().describe("Order ID. The user is asked to confirm the charge"),
+      confirmTotal: z.number().int().optional().describe("Only for connections that can't show the user a confirmation prompt: the order total in cents from the preview, passed after the user has approved that charge in the conversation")
+    },
+    async ({ orderId, confirmTotal }, extra) => {
+      try {
+        const order = await printifyClient.getOrder(orderId);
+        const details = ResponseFormatter.formatOrderDetails(order);
+        const total = orderTotal(order);
+        const charge = ResponseFormatter.formatMoney(total);
+        
+        // confirmTotal never skips a prompt the client can show, and must match the current total
+        const confirmation = await confirmCharge(server, extra, `${details}\nSend this order to production and charge ${charge} to the Printify account?`);
+        if (confirmation !== 'confirmed' && !(confirmation === 'unsupported' && confirmTotal === total)) {
+          let output = details + ResponseFormatter.formatChargeNotConfirmed(charge, confirmation);
+          if (confirmation === 'unsupported') {
+            output += ResponseFormatter.formatExplicitConfirmation(orderId, total, confirmTotal);
+          }
+          
+          return {
+            content: [{
+              type: "text",
+              text: output
+            }]
+          };
+        }
+        
+        await printifyClient.sendOrderToProduction(orderId);
+        
+        let output = `✅ Order sent to production\n\n`;
+        output += ResponseFormatter.formatOrderDetails(await printifyClient.getOrder(orderId));
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `sending order ${orderId} to production`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Cancel order tool
+  tool(
+    "cancel-order",
+    {
+      orderId: z.string().describe("Order ID (must be on hold or awaiting payment)")
+    },
+    async ({ orderId }) => {
+      try {
+        const order = await printifyClient.cancelOrder(orderId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Order ${orderId} canceled (status: ${order?.status || 'canceled'})`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `canceling order ${orderId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // List webhooks tool
+  tool(
+    "list-webhooks",
+    {},
+    async () => {
+      try {
+        const webhooks = await printifyClient.getWebhooks();
+        
+        let output = `🔔 Webhooks\n`;
+        output += `═══════════════\n\n`;
+        
+        if (!webhooks || webhooks.length === 0) {
+          output += `❌ No webhooks for shop ${printifyClient.shopId}\n\n`;
+          output += `💡 Create one: create-webhook {topic}\n`;
+        } else {
+          webhooks.forEach((webhook, index) => {
+            output += `${index + 1}. ${webhook.topic}\n`;
+            output += `   🆔 ID: ${webhook.id}\n`;
+            output += `   🔗 URL: ${webhook.url}\n`;
+            if (context.webhookReceivers?.isReceiverUrl(webhook.url)) {
+              output += `   📥 Delivers to this server (printify://events/recent)\n`;
+            }
+            output += `\n`;
+          });
+          
+          output += `💡 Actions:\n`;
+          output += `• Change URL: update-webhook {webhook_id} {url}\n`;
+          output += `• Remove: delete-webhook {webhook_id}\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'listing webhooks')
+          }]
+        };
+      }
+    }
+  );
+
+  // Create webhook tool
+  tool(
+    "create-webhook",
+    {
+      topic: z.enum(WEBHOOK_TOPICS).describe("Event to subscribe to"),
+      url: z.string().url().optional().describe("Where Printify should send events; omit to receive them on this server"),
+      secret: z.string().optional().describe("Signing secret for your own URL (a secret is generated for this server's receiver)")
+    },
+    async ({ topic, url, secret }) => {
+      try {
+        if (url) {
+          const webhook = await printifyClient.createWebhook({ topic, url, secret });
+          
+          return {
+            content: [{
+              type: "text",
+              text: `✅ Webhook ${webhook.id} created: ${topic} → ${url}`
+            }]
+          };
+        }
+        
+        const receivers = context.webhookReceivers;
+        if (!receivers) {
+          throw new Error('This server cannot receive webhooks - pass the url of your own endpoint');
+        }
+        if (!printifyClient.shopId) {
+          throw new Error('No shop selected');
+        }
+        
+        const receiver = await receivers.create(topic, printifyClient.shopId);
+        let webhook;
+        try {
+          webhook = await printifyClient.createWebhook({ topic, url: receiver.url, secret: receiver.secret });
+        } catch (error) {
+          await receivers.discard(receiver.receiverId);
+          throw error;
+        }
+        await receivers.link(receiver.receiverId, String(webhook.id));
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Webhook ${webhook.id} created: ${topic}\n\n` +
+              `📥 Events are signature-checked and stored by this server.\n` +
+              `💡 Read them from the printify://events/recent resource\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `creating ${topic} webhook`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Update webhook tool
+  tool(
+    "update-webhook",
+    {
+      webhookId: z.string().describe("Webhook ID"),
+      url: z.string().url().describe("New URL for the webhook's events")
+    },
+    async ({ webhookId, url }) => {
+      try {
+        await printifyClient.updateWebhook(webhookId, url);
+        
+        // Events no longer arrive here, so the receiver and its secret are dropped
+        if (context.webhookReceivers && !context.webhookReceivers.isReceiverUrl(url)) {
+          await context.webhookReceivers.discardWebhook(webhookId);
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Webhook ${webhookId} now delivers to ${url}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `updating webhook ${webhookId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Delete webhook tool
+  tool(
+    "delete-webhook",
+    {
+      webhookId: z.string().describe("Webhook ID")
+    },
+    async ({ webhookId }) => {
+      try {
+        const webhook = (await printifyClient.getWebhooks()).find(w => String(w.id) === webhookId);
+        if (!webhook) {
+          throw new Error(`Webhook ${webhookId} not found in shop ${printifyClient.shopId}`);
+        }
+        
+        await printifyClient.deleteWebhook(webhookId, new URL(webhook.url).host);
+        await context.webhookReceivers?.discardWebhook(webhookId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Webhook ${webhookId} (${webhook.topic}) deleted`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `deleting webhook ${webhookId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Create product tool
+  tool(
+    "create-product",
+    {
+      title: z.string().describe("Product title (e.g., 'Cool T-Shirt Design')"),
+      description: z.string().describe("Product description for customers"),
+      blueprintId: z.number().describe("Blueprint ID (e.g., 5 for Bella+Canvas 3001 T-Shirt)"),
+      printProviderId: z.number().describe("Print provider ID (get from get-print-providers)"),
+      variants: z.array(z.object({
+        variantId: z.number().describe("Variant ID from get-variants"),
+        price: z.number().describe("Price in cents (e.g., 1999 for $19.99)"),
+        isEnabled: z.boolean().optional().default(true).describe("Whether to sell this variant")
+      })).describe("Product variants with pricing"),
+      printAreas: z.array(z.object({
+        variantIds: z.array(z.number()).optional().describe("Variants that use this design; each variant can be in one print area"),
+        colors: z.array(z.string()).optional().describe("Select variants by color group instead of variantIds, e.g. ['black', 'navy', 'gray'] for a white-ink design. Shades are matched like normalize-color-name"),
+        placeholders: z.array(z.object({
+          position: z.string().describe("Print position from get-variants (e.g., 'front', 'back', 'left_sleeve', 'neck_label')"),
+          images: z.array(z.object({
+            imageId: z.string().optional().describe("Image ID from upload-image or list-uploads"),
+            imageFileName: z.string().optional().describe("File name of an image already in the media library (instead of imageId)"),
+            text: z.string().optional().describe("Text to print instead of an image"),
+            fontFamily: z.string().optional().describe("Font for text layers (default: Roboto)"),
+            fontSize: z.number().optional().describe("Font size for text layers (default: 24)"),
+            fontWeight: z.number().optional().describe("Font weight for text layers (default: 400)"),
+            fontColor: z.string().optional().describe("Hex color for text layers (default: #000000)"),
+            x: z.number().optional().describe("Horizontal position (0-1, default: 0.5 for center)"),
+            y: z.number().optional().describe("Vertical position (0-1, default: 0.5 for center)"),
+            scale: z.number().optional().describe("Scale factor (0.5-2, default: 1)"),
+            angle: z.number().optional().describe("Rotation angle in degrees (default: 0)")
+          })).describe("Layers in this position, bottom first")
+        })).describe("Every position printed for these variants")
+      })).optional().describe("Designs: usually one print area with a placeholder per position, e.g. front + back + left_sleeve. A print area without variantIds or colors covers every variant the others don't")
+    },
+    async (params) => {
+      try {
+        // Layers can name an existing upload by file name instead of ID
+        for (const area of params.printAreas || []) {
+          for (const placeholder of area.placeholders) {
+            for (const layer of placeholder.images) {
+              if (!layer.imageId && layer.imageFileName) {
+                layer.imageId = (await printifyClient.findUploadByFileName(layer.imageFileName)).id;
+              }
+            }
+          }
+        }
+        await resolvePrintAreaColors(
+          printifyClient,
+          params.blueprintId,
+          params.printProviderId,
+          params.variants.map(variant => variant.variantId),
+          params.printAreas || []
+        );
+        
+        // Get blueprint for additional context in response
+        let blueprint;
+        try {
+          blueprint = await printifyClient.getBlueprint(params.blueprintId.toString());
+        } catch (error) {
+          // Don't fail if we can't get blueprint details
+        }
+        
+        const product = await printifyClient.createProduct(params);
+        
+        // Calculate pricing summary if variants are available
+        let pricingSummary = '';
+        if (product.variants && product.variants.length > 0) {
+          const enabledVariants = product.variants.filter((v: any) => v.is_enabled);
+          if (enabledVariants.length > 0) {
+            const prices = enabledVariants.map((v: any) => v.price);
+            const minPrice = Math.min(...prices);
+            const maxPrice = Math.max(...prices);
+            const avgPrice = prices.reduce((sum: number, p: number) => sum + p, 0) / prices.length;
+            
+            // Try to get cost information from variants data
+            let costInfo = '';
+            try {
+              const variantsData = await printifyClient.getVariants(
+                params.blueprintId.toString(),
+                params.printProviderId.toString()
+              );
+              if (variantsData.variants) {
+                const variantCosts = new Map();
+                variantsData.variants.forEach((v: any) => {
+                  variantCosts.set(v.id, v.cost);
+                });
+                
+                const costs = enabledVariants
+                  .map((v: any) => variantCosts.get(v.id))
+                  .filter((cost: any) => cost !== undefined);
+                
+                if (costs.length > 0) {
+                  const minCost = Math.min(...costs);
+                  const maxCost = Math.max(...costs);
+                  const avgCost = costs.reduce((sum: number, c: number) => sum + c, 0) / costs.length;
+                  const avgProfit = avgPrice - avgCost;
+                  const profitMargin = Math.round((avgProfit / avgPrice) * 100);
+                  
+                  costInfo = `\n💰 Pricing Analysis:\n`;
+                  costInfo += `• Cost range: ${minCost === maxCost ? `$${(minCost / 100).toFixed(2)}` : `$${(minCost / 100).toFixed(2)} - $${(maxCost / 100).toFixed(2)}`}\n`;
+                  costInfo += `• Selling price: ${minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`}\n`;
+                  costInfo += `• Average profit: $${(avgProfit / 100).toFixed(2)} per item\n`;
+                  costInfo += `• Profit margin: ${profitMargin}%\n`;
+                }
+              }
+            } catch (error) {
+              // Ignore cost calculation errors
+            }
+            
+            pricingSummary = costInfo || `\n💰 Pricing:\n• Price range: ${minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`}\n`;
+          }
+        }
+        
+        const formattedResponse = ResponseFormatter.formatProductCreated(product, blueprint);
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedResponse + pricingSummary
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, 'creating product');
+        
+        let troubleshootingGuidance = `\n🔧 Pre-creation Validation:\n`;
+        troubleshootingGuidance += `• Use validate-product-config to check all parameters before creation\n`;
+        troubleshootingGuidance += `• Use validate-blueprint ${params.blueprintId} to verify blueprint\n`;
+        troubleshootingGuidance += `• Use validate-variants ${params.blueprintId} ${params.printProviderId} to check variants\n`;
+        troubleshootingGuidance += `• Ensure images are uploaded successfully with upload-image\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + troubleshootingGuidance
+          }]
+        };
+      }
+    }
+  );
+
+  // Simplified product creation tool with improved validation and error recovery
+  tool(
+    "create-product-simple",
+    {
+      title: z.string().describe("Product title"),
+      description: z.string().optional().default("").describe("Product description"),
+      blueprintId: z.number().describe("Blueprint ID (use get-popular-blueprints for common IDs)"),
+      imageId: z.string().optional().describe("Image ID from upload-image or list-uploads"),
+      imageFileName: z.string().optional().describe("File name of an image already in the media library (instead of imageId)"),
+      profitMargin: z.string().optional().default("50%").describe("Profit margin (e.g., '50%' or '100%')"),
+      includeColors: z.string().optional().default("white,black").describe("Comma-separated colors to include"),
+      includeSizes: z.string().optional().default("M,L,XL,2XL").describe("Comma-separated sizes to include")
+    },
+    async ({ title, description, blueprintId, imageId: givenImageId, imageFileName, profitMargin, includeColors, includeSizes }) => {
+      try {
+        // Reuse an image already in the media library when only its file name is given
+        const imageId = givenImageId ||
+          (imageFileName ? (await printifyClient.findUploadByFileName(imageFileName)).id : '');
+        
+        // STEP 1: Enhanced pre-validation
+        const validationErrors: string[] = [];
+        const warnings: string[] = [];
+        
+        // Title validation
+        if (!title || title.trim().length < 3) {
+          validationErrors.push("Title must be at least 3 characters long");
+        } else if (title.trim().length > 100) {
+          warnings.push("Title is very long (>100 chars) - consider shortening for better display");
+        }
+        
+        // Description validation - ensure default is applied
+        const finalDescription = description || "";
+        
+        // Image ID validation - more flexible regex
+        if (!imageId || imageId.trim().length === 0) {
+          validationErrors.push("Image ID or file name is required - use upload-image or list-uploads first");
+        } else if (!imageId.match(/^[a-zA-Z0-9]{24}$/)) {
+          // Printify image IDs are typically 24 alphanumeric characters
+          // Don't error out, just warn if format looks different
+          if (!imageId.match(/^[a-zA-Z0-9_-]{16,32}$/)) {
+            warnings.push(`Image ID format looks unusual: ${imageId} - ensure it's from upload-image`);
+          }
+        }
+        
+        // Blueprint ID validation
+        if (!blueprintId || blueprintId <= 0) {
+          validationErrors.push("Invalid blueprint ID - must be a positive number");
+        }
+        
+        // Color/size validation
+        const colorList = includeColors.toLowerCase().split(',').map(c => c.trim()).filter(c => c.length > 0);
+        const sizeList = includeSizes.toUpperCase().split(',').map(s => s.trim()).filter(s => s.length > 0);
+        
+        if (colorList.length === 0) {
+          warnings.push("No colors specified - will try to match any color");
+        } else if (colorList.length > 10) {
+          warnings.push("Many colors requested - this may limit available variants");
+        }
+        
+        if (sizeList.length === 0) {
+          warnings.push("No sizes specified - will try to match any size");
+        }
+        
+        // Profit margin validation
+        const marginMatch = profitMargin.match(/^(\d+(?:\.\d+)?)\s*%?$/);
+        if (!marginMatch) {
+          validationErrors.push("Invalid profit margin format - use '50%' or '0.5'");
+        } else {
+          let marginValue = parseFloat(marginMatch[1]);
+          // If value is greater than 1 and has %, treat as percentage
+          if (profitMargin.includes('%') && marginValue > 1) {
+            // This is fine, it's a percentage like 50%
+          } else if (!profitMargin.includes('%') && marginValue > 1) {
+            // Assume it's meant to be a percentage (e.g., 50 means 50%)
+            marginValue = marginValue;
+          }
+          
+          if (marginValue < 10) {
+            warnings.push("Low profit margin (<10%) - consider increasing for sustainability");
+          } else if (marginValue > 200) {
+            warnings.push("Very high profit margin (>200%) - may affect competitiveness");
+          }
+        }
+        
+        if (validationErrors.length > 0) {
+          throw new Error(
+            `❌ Validation failed\n\n` +
+            `🚫 Errors:\n${validationErrors.map(e => `• ${e}`).join('\n')}\n\n` +
+            `💡 Quick fixes:\n` +
+            `• Use get-popular-blueprints for valid blueprint IDs\n` +
+            `• Upload an image first with upload-image\n` +
+            `• Example: title='My Product' blueprintId=77 imageId='...' colors='white,black'`
+          );
+        }
+        
+        // Log warnings but don't fail
+        if (warnings.length > 0 && process.env.PRINTIFY_DEBUG === 'true') {
+          console.log(`[DEBUG] Warnings: ${warnings.join('; ')}`);
+        }
+        
+        // Debug logging function
+        const debugLog = (message: string) => {
+          if (process.env.PRINTIFY_DEBUG === 'true') {
+            console.log(`[DEBUG] create-product-simple: ${message}`);
+          }
+        };
+        
+        debugLog(`Starting product creation - Title: "${title}", Blueprint: ${blueprintId}, Image: ${imageId}`);
+        
+        // STEP 2: Validate blueprint with error recovery
+        let blueprint;
+        try {
+          debugLog(`Validating blueprint ${blueprintId}...`);
+          blueprint = await printifyClient.getBlueprint(blueprintId.toString());
+          if (!blueprint) {
+            throw new Error(`Blueprint ${blueprintId} not found`);
+          }
+          debugLog(`Blueprint validated: ${blueprint.title || 'Unknown'}`);
+        } catch (error: any) {
+          debugLog(`Blueprint validation failed: ${error.message}`);
+          throw new Error(`Blueprint validation failed: ${error.message}\n• Use get-popular-blueprints to find valid blueprint IDs`);
+        }
+        
+        // STEP 3: Get print providers with fallback
+        let providers;
+        try {
+          debugLog(`Getting print providers for blueprint ${blueprintId}...`);
+          providers = await printifyClient.getPrintProviders(blueprintId.toString());
+          if (!providers || providers.length === 0) {
+            throw new Error(`No print providers available for blueprint ${blueprintId} (${blueprint.title})`);
+          }
+          debugLog(`Found ${providers.length} print providers`);
+        } catch (error: any) {
+          debugLog(`Print provider lookup failed: ${error.message}`);
+          throw new Error(`Print provider lookup failed: ${error.message}\n• This blueprint may not be available in your region`);
+        }
+        
+        const printProviderId = providers[0].id;
+        debugLog(`Selected print provider: ${providers[0].title || 'Unknown'} (ID: ${printProviderId})`)
+        
+        // STEP 4: Get and validate variants
+        let variantsData;
+        try {
+          variantsData = await printifyClient.getVariants(
+            blueprintId.toString(), 
+            printProviderId.toString()
+          );
+          if (!variantsData || !variantsData.variants || variantsData.variants.length === 0) {
+            throw new Error(`No variants available for blueprint ${blueprintId} with provider ${printProviderId}`);
+          }
+        } catch (error: any) {
+          throw new Error(`Variant lookup failed: ${error.message}\n• Try a different blueprint or check provider availability`);
+        }
+        
+        // STEP 5: Enhanced variant filtering with improved matching
+        // Normalize color names first
+        const requestedColors = includeColors.toLowerCase().split(',').map(c => c.trim()).filter(c => c.length > 0)
+          .map(color => normalizeColorName(color));
+        const requestedSizes = includeSizes.toUpperCase().split(',').map(s => s.trim()).filter(s => s.length > 0);
+        
+        const allVariants = variantsData.variants || [];
+        
+        debugLog(`Total variants available: ${allVariants.length}`);
+        debugLog(`Requested colors: ${requestedColors.join(', ')}`);
+        debugLog(`Requested sizes: ${requestedSizes.join(', ')}`);
+        
+        // Enhanced color matching with fuzzy logic
+        const enhancedColorMatch = (variantTitle: string, requestedColor: string) => {
+          const titleLower = variantTitle.toLowerCase();
+          const colorLower = requestedColor.toLowerCase();
+          
+          // Direct match
+          if (titleLower.includes(colorLower)) return true;
+          
+          // Handle common variations - expanded color mapping
+          const colorVariations: {[key: string]: string[]} = {
+            'white': ['white', 'solid white', 'natural', 'cream', 'ivory', 'off-white', 'snow'],
+            'black': ['black', 'solid black', 'dark', 'jet black', 'midnight'],
+            'gray': ['gray', 'grey', 'heather gray', 'heather grey', 'charcoal', 'silver', 'ash', 'slate'],
+            'red': ['red', 'cardinal', 'scarlet', 'crimson', 'burgundy', 'cherry', 'ruby', 'maroon'],
+            'blue': ['blue', 'navy', 'royal blue', 'sapphire', 'carolina blue', 'sky blue', 'baby blue', 'ocean', 'cobalt', 'azure', 'teal'],
+            'green': ['green', 'forest', 'olive', 'emerald', 'mint', 'sage', 'lime', 'kelly green', 'hunter green'],
+            'pink': ['pink', 'rose', 'blush', 'fuchsia', 'magenta', 'coral', 'salmon'],
+            'purple': ['purple', 'violet', 'lavender', 'plum', 'eggplant', 'orchid'],
+            'yellow': ['yellow', 'gold', 'mustard', 'lemon', 'butter', 'sunshine'],
+            'orange': ['orange', 'rust', 'burnt orange', 'tangerine', 'peach', 'apricot'],
+            'brown': ['brown', 'tan', 'beige', 'taupe', 'chocolate', 'coffee', 'mocha']
+          };
+          
+          // Check if requested color has variations
+          const variations = colorVariations[colorLower] || [];
+          return variations.some(variant => titleLower.includes(variant));
+        };
+        
+        // Enhanced size matching with better boundaries
+        const enhancedSizeMatch = (variantTitle: string, requestedSize: string) => {
+          // Extract size from variant title more reliably
+          // Common patterns: "Color / Size", "Color - Size", "Color Size"
+          const sizePatterns = [
+            new RegExp(`[/\\-\\s]\\s*${requestedSize}\\s*$`, 'i'), // End of string
+            new RegExp(`[/\\-\\s]\\s*${requestedSize}\\s*[/\\-\\s]`, 'i'), // Middle
+            new RegExp(`^${requestedSize}\\s*[/\\-\\s]`, 'i'), // Start
+            new RegExp(`\\b${requestedSize}\\b`, 'i') // Word boundary
+          ];
+          
+          return sizePatterns.some(pattern => pattern.test(variantTitle));
+        };
+        
+        // Filter variants with enhanced matching
+        let filteredVariants = allVariants.filter((v: any) => {
+          const title = v.title;
+          
+          const hasRequestedColor = requestedColors.length === 0 || 
+            requestedColors.some(color => enhancedColorMatch(title, color));
+          
+          const hasRequestedSize = requestedSizes.length === 0 ||
+            requestedSizes.some(size => enhancedSizeMatch(title, size));
+          
+          if (hasRequestedColor && hasRequestedSize) {
+            debugLog(`Matched variant: ${title}`);
+          }
+          
+          return hasRequestedColor && hasRequestedSize;
+        });
+        
+        debugLog(`Initial filter matched ${filteredVariants.length} variants`);
+        
+        // Progressive fallback strategy
+        if (filteredVariants.length === 0) {
+          debugLog('No exact matches found, trying fallback strategies...');
+          
+          // Fallback 1: Try colors only (ignore sizes)
+          if (requestedColors.length > 0) {
+            filteredVariants = allVariants.filter((v: any) => 
+              requestedColors.some(color => enhancedColorMatch(v.title, color))
+            );
+            debugLog(`Color-only fallback matched ${filteredVariants.length} variants`);
+          }
+          
+          // Fallback 2: Try common color/size combinations
+          if (filteredVariants.length === 0) {
+            const commonColors = ['white', 'black', 'gray', 'navy'];
+            const commonSizes = ['M', 'L', 'XL'];
+            
+            filteredVariants = allVariants.filter((v: any) => {
+              const title = v.title.toLowerCase();
+              const hasCommonColor = commonColors.some(color => title.includes(color));
+              const hasCommonSize = commonSizes.some(size => enhancedSizeMatch(v.title, size));
+              return hasCommonColor && hasCommonSize;
+            });
+            debugLog(`Common combo fallback matched ${filteredVariants.length} variants`);
+          }
+          
+          // Fallback 3: Use most popular variants (first few)
+          if (filteredVariants.length === 0) {
+            const fallbackCount = Math.min(5, allVariants.length);
+            filteredVariants = allVariants.slice(0, fallbackCount);
+            debugLog(`Using first ${fallbackCount} variants as final fallback`);
+          }
+        }
+        
+        const variants = filteredVariants.map((v: any) => {
+          const pricing = printifyClient.calculatePricing(v.cost, profitMargin);
+          return {
+            variantId: v.id,
+            price: pricing.price,
+            isEnabled: true
+          };
+        });
+
+        if (variants.length === 0) {
+          // Provide detailed error with available options
+          const sampleVariants = allVariants.slice(0, 5).map((v: any) => v.title);
+          const availableColors = new Set<string>();
+          const availableSizes = new Set<string>();
+          
+          // Extract available colors and sizes for better guidance
+          allVariants.forEach((v: any) => {
+            const title = v.title;
+            // Extract color (usually before / or -)
+            const colorMatch = title.match(/^([^\/\-]+?)(?:\s*[\/\-]|$)/);
+            if (colorMatch) availableColors.add(colorMatch[1].trim());
+            
+            // Extract size (usually after / or -)
+            const sizeMatch = title.match(/[\/\-]\s*([XSMLXL0-9]+)$/i);
+            if (sizeMatch) availableSizes.add(sizeMatch[1].trim().toUpperCase());
+          });
+          
+          throw new Error(
+            `❌ No variants could be created for blueprint ${blueprintId}\n\n` +
+            `📋 What went wrong:\n` +
+            `• Requested colors: ${requestedColors.join(', ') || 'none'}\n` +
+            `• Requested sizes: ${requestedSizes.join(', ') || 'none'}\n` +
+            `• No matching variants found\n\n` +
+            `✅ Available options:\n` +
+            `• Colors: ${Array.from(availableColors).slice(0, 5).join(', ')}${availableColors.size > 5 ? '...' : ''}\n` +
+            `• Sizes: ${Array.from(availableSizes).slice(0, 8).join(', ')}${availableSizes.size > 8 ? '...' : ''}\n` +
+            `• Sample variants: ${sampleVariants.join(', ')}${allVariants.length > 5 ? '...' : ''}\n\n` +
+            `💡 Solutions:\n` +
+            `1. Use common options: colors='white,black' sizes='M,L,XL'\n` +
+            `2. Check exact options: get-variants ${blueprintId} ${printProviderId}\n` +
+            `3. Validate first: validate-variants ${blueprintId} ${printProviderId}\n` +
+            `4. Use create-product for full control over variant selection`
+          );
+        }
+
+        // STEP 6: Create product with error recovery
+        const productData = {
+          title: title.trim(),
+          description: finalDescription.trim(),
+          blueprintId,
+          printProviderId,
+          variants,
+          printAreas: [{
+            placeholders: [{
+              position: 'front',
+              images: [{ imageId, x: 0.5, y: 0.5, scale: 1, angle: 0 }]
+            }]
+          }]
+        };
+
+        let product;
+        try {
+          debugLog(`Creating product with ${variants.length} variants`);
+          product = await printifyClient.createProduct(productData);
+        } catch (error: any) {
+          // Enhanced error message with more context
+          const errorMessage = error.message || 'Unknown error';
+          
+          // Log full error details in debug mode
+          if (process.env.PRINTIFY_DEBUG === 'true') {
+            console.log('[DEBUG] create-product-simple full error:', error);
+            if (error.context) {
+              console.log('[DEBUG] Error context:', JSON.stringify(error.context, null, 2));
+            }
+          }
+          
+          // Add minimal debug info even without debug mode
+          let debugHint = '';
+          if (process.env.PRINTIFY_DEBUG !== 'true' && error.context) {
+            debugHint = '\n\n💡 Debug Tip: Enable PRINTIFY_DEBUG=true for detailed error logs';
+          }
+          
+          // Check for common error patterns
+          if (errorMessage.toLowerCase().includes('validation')) {
+            // Extract validation errors using helper function
+            const validationErrors = extractValidationErrors(error);
+            let specificErrors = '';
+            
+            if (validationErrors.length > 0) {
+              specificErrors = '\n\n📌 Specific validation errors:\n';
+              validationErrors.forEach(({ field, messages }) => {
+                // Map field names to user-friendly names
+                const fieldDisplayName = {
+                  'title': 'Product Title',
+                  'description': 'Description', 
+                  'blueprint_id': 'Blueprint ID',
+                  'print_provider_id': 'Print Provider ID',
+                  'variants': 'Variants',
+                  'print_areas': 'Print Areas',
+                  'print_areas.0.placeholders.0.images.0.id': 'Image ID',
+                  'print_areas.0.placeholders.0.images.0': 'Image configuration',
+                  'print_areas.front.placeholders.0.images.0.id': 'Front Image ID',
+                  'print_areas.back.placeholders.0.images.0.id': 'Back Image ID'
+                }[field] || field.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+                specificErrors += `• ${fieldDisplayName}: ${messages.join(', ')}\n`;
+              });
+            } else if (errorMessage.includes('Field errors:')) {
+              // Error message already contains field errors from API
+              specificErrors = ''; // Don't duplicate
+            }
+            
+            throw new Error(
+              `❌ Product creation validation failed\n\n` +
+              `📋 Error details: ${errorMessage}${specificErrors}\n\n` +
+              `🔍 Common causes:\n` +
+              `• Invalid image ID: ${imageId}\n` +
+              `• Blueprint/provider mismatch\n` +
+              `• Variant configuration issues\n\n` +
+              `✅ Debug steps:\n` +
+              `1. Verify image upload: Check that upload-image returned ${imageId}\n` +
+              `2. Validate configuration: validate-product-config ${blueprintId} ${printProviderId} [${variants.map((v: any) => v.variantId).slice(0,3).join(',')}...]\n` +
+              `3. Try with minimal options: colors='white' sizes='L'\n` +
+              `4. Enable debug mode: Set PRINTIFY_DEBUG=true for detailed logs` +
+              debugHint
+            );
+          } else if (errorMessage.toLowerCase().includes('image')) {
+            throw new Error(
+              `❌ Image-related error during product creation\n\n` +
+              `📋 Error: ${errorMessage}\n\n` +
+              `🖼️ Image ID: ${imageId}\n\n` +
+              `✅ Solutions:\n` +
+              `• Ensure image was uploaded successfully\n` +
+              `• Check image format (PNG/JPG recommended)\n` +
+              `• Verify image dimensions meet blueprint requirements\n` +
+              `• Re-upload image if needed` +
+              debugHint
+            );
+          } else {
+            throw new Error(
+              `❌ Product creation failed\n\n` +
+              `📋 Error: ${errorMessage}\n\n` +
+              `📊 Attempted configuration:\n` +
+              `• Blueprint: ${blueprintId}\n` +
+              `• Provider: ${printProviderId}\n` +
+              `• Variants: ${variants.length} selected\n` +
+              `• Image: ${imageId}\n\n` +
+              `✅ Troubleshooting:\n` +
+              `• Try validate-blueprint ${blueprintId} first\n` +
+              `• Check API status and connection\n` +
+              `• Use create-product for more control\n` +
+              `• Contact support if issue persists` +
+              debugHint
+            );
+          }
+        }
+        
+        // Calculate pricing summary
+        const pricingSummary = variants.length > 0 ? (() => {
+          const costs = filteredVariants.map((v: any) => v.cost);
+          const minCost = Math.min(...costs);
+          const maxCost = Math.max(...costs);
+          const avgCost = costs.reduce((a: number, b: number) => a + b, 0) / costs.length;
+          
+          const minPrice = Math.min(...variants.map((v: any) => v.price));
+          const maxPrice = Math.max(...variants.map((v: any) => v.price));
+          const avgPrice = variants.reduce((sum: number, v: any) => sum + v.price, 0) / variants.length;
+          
+          return {
+            costRange: minCost === maxCost ? `$${(minCost / 100).toFixed(2)}` : `$${(minCost / 100).toFixed(2)} - $${(maxCost / 100).toFixed(2)}`,
+            priceRange: minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`,
+            avgProfit: `$${((avgPrice - avgCost) / 100).toFixed(2)}`,
+            avgMargin: `${Math.round(((avgPrice - avgCost) / avgPrice) * 100)}%`
+          };
+        })() : null;
+        
+        // Format success response using ResponseFormatter
+        const formattedResponse = ResponseFormatter.formatProductCreated(product, blueprint);
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedResponse + `\n\n📊 Creation Summary:\n` +
+              `• Blueprint: ${blueprint.title} (ID: ${blueprintId})\n` +
+              `• Variants: ${variants.length} enabled\n` +
+              `• Colors selected: ${requestedColors.length > 0 ? requestedColors.join(', ') : 'all available'}\n` +
+              `• Sizes selected: ${requestedSizes.length > 0 ? requestedSizes.join(', ') : 'all available'}\n\n` +
+              (pricingSummary ? 
+                `💰 Pricing Details:\n` +
+                `• Cost range: ${pricingSummary.costRange}\n` +
+                `• Selling price: ${pricingSummary.priceRange}\n` +
+                `• Average profit: ${pricingSummary.avgProfit} per item\n` +
+                `• Profit margin: ${profitMargin} (actual: ${pricingSummary.avgMargin})\n` +
+                `• Total potential profit: ${variants.length} variants × ${pricingSummary.avgProfit} = $${((parseFloat(pricingSummary.avgProfit.replace('$', '')) * variants.length).toFixed(2))}\n\n`
+                : '') +
+              `✅ Next Steps:\n` +
+              `• Use publish-product ${product.id} to make it available in your store\n` +
+              `• Use get-product ${product.id} to view current status\n` +
+              `• Use update-product ${product.id} to modify details if needed\n` +
+              `• Use calculate-pricing to experiment with different profit margins`
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, 'creating product (simple mode)');
+        
+        let troubleshootingSteps = `\n🔧 Troubleshooting Steps:\n`;
+        troubleshootingSteps += `1. Validate blueprint: validate-blueprint ${blueprintId}\n`;
+        troubleshootingSteps += `2. Check image: ensure upload-image returned valid ID\n`;
+        troubleshootingSteps += `3. Test variants: validate-variants ${blueprintId}\n`;
+        troubleshootingSteps += `4. Try simpler filters: colors='white,black' sizes='M,L,XL'\n`;
+        troubleshootingSteps += `5. Use get-popular-blueprints for tested blueprint IDs\n`;
+        
+        let quickFixes = `\n🚀 Quick Fixes:\n`;
+        quickFixes += `• Common working blueprint IDs: 5 (t-shirt), 19 (mug), 77 (hoodie)\n`;
+        quickFixes += `• Reliable color options: white, black, gray, red, blue\n`;
+        quickFixes += `• Standard sizes: S, M, L, XL, 2XL\n`;
+        quickFixes += `• For complex needs, use create-product instead\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + troubleshootingSteps + quickFixes
+          }]
+        };
+      }
+    }
+  );
+
+  // Update product tool
+  tool(
+    "update-product",
+    {
+      productId: z.string().describe("Product ID"),
+      title: z.string().optional().describe("Product title"),
+      description: z.string().optional().describe("Product description"),
+      tags: z.array(z.string()).optional().describe("Replaces the product's tags"),
+      variants: z.array(z.object({
+        variantId: z.number().describe("Variant ID"),
+        price: z.number().optional().describe("Price in cents (e.g., 1999 for $19.99)"),
+        isEnabled: z.boolean().optional().describe("Whether the variant is enabled")
+      })).optional().describe("Variant changes; variants left out keep their price and status"),
+      printAreas: z.array(z.object({
+        variantIds: z.array(z.number()).optional().describe("Variants to change the design for (default: all)"),
+        placeholders: z.array(z.object({
+          position: z.string().describe("Print position (e.g., 'front', 'back')"),
+          images: z.array(z.object({
+            imageId: z.string().optional().describe("Image ID; omit to keep the current image and only move it"),
+            imageFileName: z.string().optional().describe("File name of an image in the media library (instead of imageId)"),
+            x: z.number().optional().describe("Horizontal position (0-1)"),
+            y: z.number().optional().describe("Vertical position (0-1)"),
+            scale: z.number().optional().describe("Scale factor"),
+            angle: z.number().optional().describe("Rotation angle in degrees")
+          })).describe("Images in this position, bottom layer first; an empty list removes the design")
+        }))
+      })).optional().describe("Design changes, merged by position; positions left out are unchanged"),
+      images: z.array(z.object({
+        src: z.string().describe("Mockup URL from get-product"),
+        isDefault: z.boolean().optional().describe("Make this the main mockup"),
+        isSelectedForPublishing: z.boolean().optional().describe("Show this mockup in the sales channel")
+      })).optional().describe("Mockup selection changes"),
+      printDetails: z.object({
+        printOnSide: z.enum(['regular', 'mirror', 'off']).describe("Side printing for canvas and similar products")
+      }).optional().describe("Print options")
+    },
+    async ({ productId, ...updateData }) => {
+      try {
+        // Images can be named by file name, like in create-product
+        for (const area of updateData.printAreas || []) {
+          for (const placeholder of area.placeholders) {
+            for (const image of placeholder.images) {
+              if (!image.imageId && image.imageFileName) {
+                image.imageId = (await printifyClient.findUploadByFileName(image.imageFileName)).id;
+              }
+            }
+          }
+        }
+        
+        const product = await printifyClient.updateProduct(productId, updateData);
+        const positions = Array.from(new Set(
+          (product.print_areas || []).flatMap((area: any) => area.placeholders.map((p: any) => p.position))
+        ));
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Product Updated Successfully!\n` +
+              `═══════════════════════════════\n\n` +
+              `🆔 Product ID: ${product.id}\n` +
+              `📝 Title: ${product.title}\n` +
+              `📄 Description: ${product.description || 'No description'}\n` +
+              `🏷️ Tags: ${product.tags?.join(', ') || 'No tags'}\n` +
+              `👕 Variants: ${product.variants?.length || 0} configured\n` +
+              `📐 Print positions: ${positions.join(', ') || 'None'}\n` +
+              `👁️ Visible: ${product.visible ? 'Yes' : 'No'}\n\n` +
+              `💡 Next Steps:\n` +
+              `• Use get-product ${product.id} to view full details\n` +
+              `• Use publish-product ${product.id} to make changes live\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `updating product ${productId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Shared output for duplicate-product and copy-product-to-shop
+  const formatProductCopy = (heading: string, sourceId: string, copy: PrintifyProductCopy) => {
+    const shop = printifyClient.shops.find(s => String(s.id) === copy.shopId);
+    let output = `📋 ${heading}\n`;
+    output += `═══════════════════════════════\n\n`;
+    output += `📦 Source: ${sourceId}\n`;
+    output += `🆔 New Product ID: ${copy.product.id}\n`;
+    output += `📝 Title: ${copy.product.title}\n`;
+    output += `🏪 Shop: ${shop ? `${shop.title} (${copy.shopId})` : copy.shopId}\n`;
+    output += `👕 Variants: ${copy.product.variants?.length || 0} copied\n`;
+    output += `🏷️ Tags: ${copy.product.tags?.join(', ') || 'No tags'}\n\n`;
+
+    if (copy.droppedVariants.length > 0) {
+      output += `⚠️ Not copied - no longer offered by the print provider (${copy.droppedVariants.length}):\n`;
+      copy.droppedVariants.slice(0, 10).forEach(variant => {
+        output += `• ${variant.title} (ID: ${variant.id})\n`;
+      });
+      if (copy.droppedVariants.length > 10) {
+        output += `• ... and ${copy.droppedVariants.length - 10} more\n`;
+      }
+      output += `\n`;
+    }
+
+    output += `💡 Next Steps:\n`;
+    output += `• The copy is unpublished; mockups are generated again by Printify\n`;
+    output += copy.shopId === printifyClient.shopId
+      ? `• Use publish-product ${copy.product.id} to list it\n`
+      : `• Use switch-shop ${copy.shopId}, then publish-product ${copy.product.id} to list it\n`;
+    return output;
+  };
+
+  // Duplicate product tool
+  tool(
+    "duplicate-product",
+    {
+      productId: z.string().describe("Product ID to duplicate"),
+      title: z.string().optional().describe("Title of the copy (default: the original title)"),
+      price: z.number().optional().describe("Price in cents for every variant of the copy (default: the original prices)")
+    },
+    async ({ productId, title, price }) => {
+      try {
+        const copy = await printifyClient.duplicateProduct(productId, { title, price });
+        return {
+          content: [{
+            type: "text",
+            text: formatProductCopy('Product Duplicated', productId, copy)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'Duplicating product')
+          }]
+        };
+      }
+    }
+  );
+
+  // Copy product to shop tool
+  tool(
+    "copy-product-to-shop",
+    {
+      productId: z.string().describe("Product ID in the current shop"),
+      targetShopId: z.string().describe("Shop to copy it to (see list-shops)"),
+      title: z.string().optional().describe("Title of the copy (default: the original title)"),
+      price: z.number().optional().describe("Price in cents for every variant of the copy (default: the original prices)")
+    },
+    async ({ productId, targetShopId, title, price }) => {
+      try {
+        const copy = await printifyClient.copyProductToShop(productId, targetShopId, { title, price });
+        return {
+          content: [{
+            type: "text",
+            text: formatProductCopy('Product Copied to Shop', productId, copy)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'Copying product')
+          }]
+        };
+      }
+    }
+  );
+
+  // Delete product tool
+  tool(
+    "delete-product",
+    {
+      productId: z.string().describe("Product ID")
+    },
+    async ({ productId }) => {
+      await printifyClient.deleteProduct(productId);
+      return {
+        content: [{
+          type: "text",
+          text: `Product ${productId} deleted successfully`
+        }]
+      };
+    }
+  );
+
+  // Publish product tool
+  tool(
+    "publish-product",
+    {
+      productId: z.string().describe("Product ID"),
+      publishDetails: z.object({
+        title: z.boolean().optional(),
+        description: z.boolean().optional(),
+        images: z.boolean().optional(),
+        variants: z.boolean().optional(),
+        tags: z.boolean().optional()
+      }).optional().describe("What to publish")
+    },
+    async ({ productId, publishDetails }) => {
+      const result = await printifyClient.publishProduct(productId, publishDetails);
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Product Published Successfully!\n` +
+            `═══════════════════════════════\n\n` +
+            `🆔 Product ID: ${productId}\n` +
+            `🏪 Shop: Product is now live in your store\n` +
+            `📋 Published elements:\n` +
+            `  • Title: ${publishDetails?.title !== false ? '✓' : '✗'}\n` +
+            `  • Description: ${publishDetails?.description !== false ? '✓' : '✗'}\n` +
+            `  • Images: ${publishDetails?.images !== false ? '✓' : '✗'}\n` +
+            `  • Variants: ${publishDetails?.variants !== false ? '✓' : '✗'}\n` +
+            `  • Tags: ${publishDetails?.tags !== false ? '✓' : '✗'}\n\n` +
+            `💡 Next Steps:\n` +
+            `• Check your store to see the live product\n` +
+            `• Use update-product ${productId} to make changes\n` +
+            `• Monitor sales and adjust pricing as needed\n`
+        }]
+      };
+    }
+  );
+
+  // Publishing succeeded tool
+  tool(
+    "mark-publish-succeeded",
+    {
+      productId: z.string().describe("Product ID"),
+      externalId: z.string().describe("The product's ID in your sales channel"),
+      handle: z.string().describe("The product's URL or handle in your sales channel")
+    },
+    async ({ productId, externalId, handle }) => {
+      try {
+        await printifyClient.publishingSucceeded(productId, { id: externalId, handle });
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Publishing marked as succeeded for product ${productId}\n\n` +
+              `🔗 External ID: ${externalId}\n` +
+              `🌐 Handle: ${handle}\n\n` +
+              `💡 The product is unlocked and can be edited again\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `marking product ${productId} as published`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Publishing failed tool
+  tool(
+    "mark-publish-failed",
+    {
+      productId: z.string().describe("Product ID"),
+      reason: z.string().describe("Why the sales channel couldn't list the product")
+    },
+    async ({ productId, reason }) => {
+      try {
+        await printifyClient.publishingFailed(productId, reason);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `⚠️ Publishing marked as failed for product ${productId}\n\n` +
+              `📝 Reason: ${reason}\n\n` +
+              `💡 The product is unlocked; fix the problem and use publish-product ${productId} to retry\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `marking product ${productId} as failed to publish`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Unpublish product tool
+  tool(
+    "unpublish-product",
+    {
+      productId: z.string().describe("Product ID")
+    },
+    async ({ productId }) => {
+      try {
+        await printifyClient.unpublishProduct(productId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Product ${productId} unpublished\n\n` +
+              `💡 Remove the listing from your sales channel too if your integration doesn't do it\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `unpublishing product ${productId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Upload image tool
+  tool(
+    "upload-image",
+    {
+      fileName: z.string().describe("File name (e.g., 'my-design.png')"),
+      url: z.string().describe(`Image source - supports multiple formats:
+        - Direct URL: https://example.com/image.png
+        - Google Drive: https://drive.google.com/file/d/{id}/view (auto-converted)
+        - Local file: /path/to/image.png
+        - Base64 data: data:image/png;base64,iVBORw0...`)
+    },
+    async ({ fileName, url }) => {
+      const image = await printifyClient.uploadImage(fileName, url);
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Image Uploaded Successfully!\n` +
+            `═══════════════════════════════\n\n` +
+            `🆔 Image ID: ${image.id}\n` +
+            `📁 File name: ${image.file_name}\n` +
+            `📐 Dimensions: ${image.width} × ${image.height} px\n` +
+            `💾 Size: ${(image.size / 1024 / 1024).toFixed(2)} MB\n` +
+            `🖼️ Type: ${image.mime_type}\n` +
+            `🔗 Preview: ${image.preview_url}\n\n` +
+            `💡 Next Steps:\n` +
+            `• Use this Image ID (${image.id}) in create-product or create-product-simple\n` +
+            `• Next time, find it with list-uploads fileName='${image.file_name}' instead of uploading again\n` +
+            `• Ensure the image meets blueprint requirements (300 DPI recommended)\n` +
+            `• For best results, use PNG format for designs with transparency\n`
+        }]
+      };
+    }
+  );
+
+  // List uploads tool
+  tool(
+    "list-uploads",
+    {
+      page: z.number().optional().default(1).describe("Page number (ignored when searching)"),
+      limit: z.number().min(1).max(100).optional().default(20).describe("Uploads per page, or maximum matches when searching"),
+      fileName: z.string().optional().describe("Only uploads whose file name contains this text")
+    },
+    async ({ page, limit, fileName }) => {
+      try {
+        let text: string;
+        if (fileName) {
+          const search = await printifyClient.searchUploads(fileName, limit);
+          const hints = search.truncated ? [`⚠️ Not every upload was searched - use a more specific name`] : [];
+          text = ResponseFormatter.formatUploadsList(
+            search.uploads,
+            `${search.uploads.length} upload(s) matching "${fileName}" (${search.pagesScanned} page(s) of ${search.total} uploads searched)`,
+            hints
+          );
+        } else {
+          const uploads = await printifyClient.getUploads(page, limit);
+          const hints: string[] = [];
+          if (page > 1) hints.push(`• Previous: list-uploads page=${page - 1} limit=${limit}`);
+          if (page < uploads.last_page) hints.push(`• Next: list-uploads page=${page + 1} limit=${limit}`);
+          text = ResponseFormatter.formatUploadsList(
+            uploads.data || [],
+            `Page ${uploads.current_page} of ${uploads.last_page} (${uploads.total} uploads)`,
+            hints
+          );
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'listing uploads')
+          }]
+        };
+      }
+    }
+  );
+
+  // Get upload tool
+  tool(
+    "get-upload",
+    {
+      imageId: z.string().describe("Image ID")
+    },
+    async ({ imageId }) => {
+      try {
+        const image = await printifyClient.getUpload(imageId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `🖼️ Upload Details\n` +
+              `═══════════════════\n\n` +
+              `🆔 Image ID: ${image.id}\n` +
+              `📁 File name: ${image.file_name}\n` +
+              `📐 Dimensions: ${image.width} × ${image.height} px\n` +
+              `💾 Size: ${(image.size / 1024 / 1024).toFixed(2)} MB\n` +
+              `🖼️ Type: ${image.mime_type}\n` +
+              `📅 Uploaded: ${image.upload_time}\n` +
+              `🔗 Preview: ${image.preview_url}\n\n` +
+              `💡 Actions:\n` +
+              `• Use this Image ID (${image.id}) in create-product or create-product-simple\n` +
+              `• Remove it from the library: archive-upload ${image.id}\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `retrieving upload ${imageId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Archive upload tool
+  tool(
+    "archive-upload",
+    {
+      imageId: z.string().describe("Image ID")
+    },
+    async ({ imageId }) => {
+      try {
+        await printifyClient.archiveUpload(imageId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Upload ${imageId} archived\n\n` +
+              `💡 Products already using this image keep it\n`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `archiving upload ${imageId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Search blueprints tool
+  tool(
+    "search-blueprints",
+    {
+      query: z.string().optional().describe("Free text, e.g. 'bella canvas 3001', 'heavy cotton tee', 'ceramic mug 15oz'. Tolerates typos"),
+      category: z.string().optional().describe("Category: 'apparel', 'accessories', or 'home'"),
+      type: z.string().optional().describe("Type: 'tshirt', 'hoodie', 'sweatshirt', 'mug', 'totebag', 'poster', 'sticker', 'phonecase', etc."),
+      limit: z.number().optional().default(15).describe("Maximum number of results (default: 15)")
+    },
+    async ({ query, category, type, limit }) => {
+      try {
+        // The first search crawls the whole catalog, which takes a few seconds
+        await catalogIndex.ensureReady(() => printifyClient.getAllBlueprints());
+        const result = catalogIndex.search({ query, category, type, limit });
+        
+        let output = '🔍 Blueprint Search Results\n';
+        output += '═══════════════════════════\n\n';
+        if (query) output += `🔎 Query: ${query}\n`;
+        if (category) output += `📂 Category: ${category}\n`;
+        if (type) output += `🏷️ Type: ${type}\n`;
+        output += `📊 Found: ${result.total} of ${catalogIndex.size} blueprints\n\n`;
+        
+        if (result.blueprints.length === 0) {
+          output += `💡 Try these alternatives:\n`;
+          output += `• Use fewer or more general words, e.g. 'hoodie' instead of 'zip hoodie 50/50'\n`;
+          output += `• Try broader categories: 'apparel', 'accessories', 'home'\n`;
+          output += `• Use get-popular-blueprints for commonly used products\n`;
+          return {
+            content: [{
+              type: "text",
+              text: output
+            }]
+          };
+        }
+        
+        result.blueprints.forEach((blueprint, index) => {
+          output += `${index + 1}. ${blueprint.title} (ID: ${blueprint.id})\n`;
+          const details = [
+            [blueprint.brand, blueprint.model].filter(Boolean).join(' '),
+            [blueprint.category, blueprint.type].filter(Boolean).join(' → ')
+          ].filter(Boolean);
+          if (details.length > 0) {
+            output += `   ${details.join(' • ')}\n`;
+          }
+        });
+        
+        output += `\n💡 Next Steps:\n`;
+        output += `• Use get-blueprint {id} for details, or get-print-providers {id} to compare providers\n`;
+        if (result.total > result.blueprints.length) {
+          output += `• Showing ${result.blueprints.length} of ${result.total} matches. Add words or a type filter to narrow them down\n`;
+        }
+        output += `\n🕒 Catalog indexed ${new Date(result.builtAt).toISOString()}\n`;
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, 'searching blueprints');
+        
+        let searchHelp = `\n🔍 Search Tips:\n`;
+        searchHelp += `• The catalog index could not be built; try again in a minute\n`;
+        searchHelp += `• Use get-popular-blueprints for quick access to common products\n`;
+        searchHelp += `• Try get-blueprints limit=5 for general browsing\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + searchHelp
+          }]
+        };
+      }
+    }
+  );
+
+  // Get popular blueprints tool
+  tool(
+    "get-popular-blueprints",
+    {
+      category: z.string().optional().describe("Filter by category: 'apparel', 'accessories', or 'home' (optional)")
+    },
+    async ({ category }) => {
+      try {
+        const blueprints = await printifyClient.getPopularBlueprints();
+        let data = blueprints.data || [];
+        
+        // Filter by category if specified
+        if (category) {
+          const categoryMap: {[key: string]: string[]} = {
+            'apparel': ['t-shirt', 'tshirt', 'shirt', 'hoodie', 'tank', 'long sleeve'],
+            'accessories': ['mug', 'bag', 'tote', 'sticker', 'phone case'],
+            'home': ['poster', 'canvas', 'print', 'wall art', 'blanket', 'pillow']
+          };
+          
+          const categoryTerms = categoryMap[category.toLowerCase()] || [];
+          if (categoryTerms.length > 0) {
+            data = data.filter((bp: any) => {
+              const title = (bp.title || '').toLowerCase();
+              return categoryTerms.some(term => title.includes(term));
+            });
+          }
+        }
+        
+        // Create header
+        let header = '⭐ Popular Blueprints\n';
+        header += '═══════════════════\n\n';
+        
+        if (category) {
+          header += `📂 Category: ${category}\n`;
+          header += `📊 Found: ${data.length} popular ${category} product${data.length !== 1 ? 's' : ''}\n\n`;
+        } else {
+          header += `🚀 Most commonly used blueprints for quick product creation\n`;
+          header += `📊 Total: ${data.length} blueprints\n\n`;
+        }
+        
+        // Handle empty results
+        if (data.length === 0) {
+          let suggestions = `💡 No popular blueprints found`;
+          if (category) {
+            suggestions += ` in ${category} category`;
+          }
+          suggestions += `\n\nTry:\n`;
+          suggestions += `• Remove category filter: get-popular-blueprints\n`;
+          suggestions += `• Search by type: search-blueprints type='tshirt'\n`;
+          suggestions += `• Browse all: get-blueprints limit=10\n`;
+          
+          return {
+            content: [{
+              type: "text",
+              text: header + suggestions
+            }]
+          };
+        }
+        
+        // Format using the blueprint formatter
+        const formattedResults = ResponseFormatter.formatBlueprintsList(
+          data,
+          { includeDescription: true, maxItems: data.length }
+        );
+        
+        // Add usage guidance specific to popular blueprints
+        let usageGuidance = `\n🎯 Quick Start Guide:\n`;
+        usageGuidance += `• These are the most reliable and commonly used blueprints\n`;
+        usageGuidance += `• Use with create-product-simple for fastest product creation\n`;
+        usageGuidance += `• All have good print provider availability and variant options\n`;
+        
+        if (!category) {
+          usageGuidance += `• Filter by category: get-popular-blueprints category='apparel'\n`;
+        }
+        
+        // Add fallback information if relevant
+        let fallbackInfo = '';
+        if (blueprints._fallback) {
+          fallbackInfo = `\n⚠️ Note: Using cached data. ${blueprints._message}\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: header + formattedResults + usageGuidance + fallbackInfo
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, 'retrieving popular blueprints');
+        
+        let quickHelp = `\n🚀 Alternative Options:\n`;
+        quickHelp += `• Try get-blueprints limit=5 for general browsing\n`;
+        quickHelp += `• Use search-blueprints category='apparel' for specific categories\n`;
+        quickHelp += `• Check your internet connection and API key\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + quickHelp
+          }]
+        };
+      }
+    }
+  );
+
+  // Calculate pricing tool
+  tool(
+    "calculate-pricing",
+    {
+      baseCost: z.number().describe("Base cost in cents (e.g., 1200 for $12.00)"),
+      profitMargin: z.string().describe("Desired profit margin (e.g., '50%' or '0.5')"),
+      shippingCost: z.number().optional().describe("Shipping cost in cents to include in the price, for free-shipping listings (see calculate-shipping)")
+    },
+    async ({ baseCost, profitMargin, shippingCost }) => {
+      const pricing = printifyClient.calculatePricing(baseCost + (shippingCost || 0), profitMargin);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Pricing calculation:
+Base cost: $${(baseCost / 100).toFixed(2)}${shippingCost ? `
+Shipping included: $${(shippingCost / 100).toFixed(2)}` : ''}
+Profit margin: ${profitMargin}
+Selling price: $${(pricing.price / 100).toFixed(2)}
+Profit per sale: $${(pricing.profit / 100).toFixed(2)}
+
+Use ${pricing.price} as the price when creating variants.`
+        }]
+      };
+    }
+  );
+
+  // Calculate shipping tool
+  tool(
+    "calculate-shipping",
+    {
+      blueprintId: z.string().optional().describe("Blueprint ID, for catalog rates (with printProviderId)"),
+      printProviderId: z.string().optional().describe("Print provider ID, for catalog rates"),
+      variantId: z.number().optional().describe("Only rates for this variant (catalog rates)"),
+      lineItems: orderLineItemsSchema.optional().describe("Items of a prospective order, for an exact quote instead of catalog rates"),
+      country: z.string().length(2).optional().default('US').describe("Destination country (ISO code, e.g. US, GB, DE)"),
+      region: z.string().optional().describe("Destination state or region code (orders)"),
+      city: z.string().optional().describe("Destination city (orders)"),
+      zip: z.string().optional().describe("Destination postal code (orders)"),
+      baseCost: z.number().optional().describe("Product cost in cents; with profitMargin, prices each speed for a free-shipping listing"),
+      profitMargin: z.string().optional().describe("Desired profit margin (e.g., '40%')")
+    },
+    async ({ blueprintId, printProviderId, variantId, lineItems, country, region, city, zip, baseCost, profitMargin }) => {
+      const destination = country.toUpperCase();
+      
+      try {
+        if (lineItems) {
+          const quote = await printifyClient.calculateShipping({
+            line_items: toOrderLineItems(lineItems, false),
+            address_to: { country: destination, region, city, zip }
+          });
+          
+          return {
+            content: [{
+              type: "text",
+              text: ResponseFormatter.formatShippingQuote(quote, destination)
+            }]
+          };
+        }
+        
+        if (!blueprintId || !printProviderId) {
+          throw new Error('Provide blueprintId and printProviderId for catalog rates, or lineItems for an order quote');
+        }
+        
+        const summaries = await printifyClient.getShippingSummary(blueprintId, printProviderId, destination, variantId);
+        
+        // Fold the most expensive first-item rate into the price so no variant ships at a loss
+        const freeShippingPrices: Partial<Record<PrintifyShippingMethod, { price: number; profit: number }>> = {};
+        if (baseCost !== undefined && profitMargin) {
+          summaries.forEach(summary => {
+            freeShippingPrices[summary.method] = printifyClient.calculatePricing(baseCost + summary.firstItem.max, profitMargin);
+          });
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatShippingSummary(blueprintId, printProviderId, destination, summaries, freeShippingPrices)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'calculating shipping')
+          }]
+        };
+      }
+    }
+  );
+
+  // Get variant colors tool
+  tool(
+    "get-variant-colors",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().describe("Print provider ID")
+    },
+    async ({ blueprintId, printProviderId }) => {
+      try {
+        const variants = await printifyClient.getVariants(blueprintId, printProviderId);
+        
+        // Extract unique colors from variant titles
+        const colorSet = new Set<string>();
+        const colorPatterns: string[] = [];
+        
+        variants.variants.forEach((v: any) => {
+          // Extract color from title (usually before size or after /)
+          const title = v.title;
+          
+          // Common patterns: "White / S", "Solid White / S", "White", etc.
+          const match = title.match(/^([^\/]+?)(?:\s*\/|$)/);
+          if (match) {
+            const color = match[1].trim();
+            colorSet.add(color);
+          }
+        });
+        
+        const colors = Array.from(colorSet).sort();
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Available colors for blueprint ${blueprintId}:
+${colors.map(c => `• ${c}`).join('\n')}
+
+Total: ${colors.length} colors
+
+Use these exact color names when creating products or filtering variants.`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting variant colors: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Get variant sizes tool
+  tool(
+    "get-variant-sizes",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().describe("Print provider ID"),
+      color: z.string().optional().describe("Filter sizes for specific color")
+    },
+    async ({ blueprintId, printProviderId, color }) => {
+      try {
+        const variants = await printifyClient.getVariants(blueprintId, printProviderId);
+        
+        // Extract sizes
+        const sizeSet = new Set<string>();
+        
+        variants.variants.forEach((v: any) => {
+          const title = v.title;
+          
+          // If color filter is provided, only process matching variants
+          if (color && !title.toLowerCase().includes(color.toLowerCase())) {
+            return;
+          }
+          
+          // Extract size (usually after / or at the end)
+          const sizeMatch = title.match(/\/\s*([^\/]+?)$/);
+          if (sizeMatch) {
+            sizeSet.add(sizeMatch[1].trim());
+          } else {
+            // Sometimes size is the whole title for simple products
+            const parts = title.split(' ');
+            const lastPart = parts[parts.length - 1];
+            if (['XS', 'S', 'M', 'L', 'XL', '2XL', '3XL', '4XL', '5XL'].includes(lastPart)) {
+              sizeSet.add(lastPart);
+            }
+          }
+        });
+        
+        const sizes = Array.from(sizeSet).sort((a, b) => {
+          const sizeOrder = ['XS', 'S', 'M', 'L', 'XL', '2XL', '3XL', '4XL', '5XL'];
+          return sizeOrder.indexOf(a) - sizeOrder.indexOf(b);
+        });
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Available sizes for blueprint ${blueprintId}${color ? ` (color: ${color})` : ''}:
+${sizes.map(s => `• ${s}`).join('\n')}
+
+Total: ${sizes.length} sizes
+
+Use these exact size names when creating products or filtering variants.`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error getting variant sizes: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Validate product data tool
+  tool(
+    "validate-product-data",
+    {
+      blueprintId: z.number().describe("Blueprint ID"),
+      printProviderId: z.number().describe("Print provider ID"),
+      variantIds: z.array(z.number()).describe("Array of variant IDs to validate"),
+      imageId: z.string().describe("Image ID to validate")
+    },
+    async ({ blueprintId, printProviderId, variantIds, imageId }) => {
+      try {
+        const issues: string[] = [];
+        const suggestions: string[] = [];
+        
+        // Check if variants exist
+        const variantsData = await printifyClient.getVariants(
+          blueprintId.toString(),
+          printProviderId.toString()
+        );
+        
+        const availableVariantIds = variantsData.variants.map((v: any) => v.id);
+        const invalidVariants = variantIds.filter(id => !availableVariantIds.includes(id));
+        
+        if (invalidVariants.length > 0) {
+          issues.push(`Invalid variant IDs: ${invalidVariants.join(', ')}`);
+          suggestions.push(`Available variant IDs: ${availableVariantIds.slice(0, 5).join(', ')}...`);
+        }
+        
+        // Show sample variant for reference
+        if (variantsData.variants.length > 0) {
+          const sample = variantsData.variants[0];
+          suggestions.push(`Sample variant: ID ${sample.id} = "${sample.title}" (cost: $${(sample.cost / 100).toFixed(2)})`);
+        }
+        
+        const isValid = issues.length === 0;
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Validation result: ${isValid ? '✅ VALID' : '❌ INVALID'}
+
+${issues.length > 0 ? 'Issues found:\n' + issues.map(i => `• ${i}`).join('\n') + '\n\n' : ''}
+${suggestions.length > 0 ? 'Suggestions:\n' + suggestions.map(s => `• ${s}`).join('\n') : ''}
+
+${isValid ? 'This product data should work with create-product.' : 'Fix the issues above before creating the product.'}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error validating product data: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Generate and upload image tool (if Replicate is configured)
+  if (replicateClient) {
+    tool(
+      "generate-and-upload-image",
+      {
+        prompt: z.string().describe("Text prompt for image generation"),
+        fileName: z.string().describe("File name for the uploaded image"),
+        width: z.number().optional().default(1024).describe("Image width in pixels"),
+        height: z.number().optional().default(1024).describe("Image height in pixels"),
+        aspectRatio: z.string().optional().describe("Aspect ratio (e.g., '16:9', '4:3', '1:1')"),
+        numInferenceSteps: z.number().optional().default(25).describe("Number of inference steps"),
+        guidanceScale: z.number().optional().default(7.5).describe("Guidance scale"),
+        negativePrompt: z.string().optional().default("low quality, bad quality").describe("Negative prompt"),
+        seed: z.number().optional().describe("Random seed for reproducible generation")
+      },
+      async (params) => {
+        const imagePath = await replicateClient.generateImage(params.prompt, params);
+        const image = await printifyClient.uploadImage(params.fileName, imagePath);
+        
+        let output = `✅ AI Image Generated & Uploaded Successfully!\n`;
+        output += `═══════════════════════════════════════════\n\n`;
+        output += `🎨 Generation Details:\n`;
+        output += `• Prompt: "${params.prompt}"\n`;
+        output += `• Dimensions: ${params.width || 1024} × ${params.height || 1024} px\n`;
+        if (params.aspectRatio) output += `• Aspect Ratio: ${params.aspectRatio}\n`;
+        output += `• Inference Steps: ${params.numInferenceSteps || 25}\n`;
+        output += `• Guidance Scale: ${params.guidanceScale || 7.5}\n\n`;
+        
+        output += `📤 Upload Details:\n`;
+        output += `• Image ID: ${image.id}\n`;
+        output += `• File name: ${image.file_name}\n`;
+        output += `• Final dimensions: ${image.width} × ${image.height} px\n`;
+        output += `• Size: ${(image.size / 1024 / 1024).toFixed(2)} MB\n`;
+        output += `• Type: ${image.mime_type}\n`;
+        output += `• Preview: ${image.preview_url}\n\n`;
+        
+        output += `💡 Next Steps:\n`;
+        output += `• Use Image ID (${image.id}) in create-product or create-product-simple\n`;
+        output += `• Generate variations by using the same prompt with different seeds\n`;
+        output += `• Ensure the design works well on your chosen product blueprint\n`;
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      }
+    );
+  }
+
+  // Get blueprints tool
+  tool(
+    "get-blueprints",
+    {
+      page: z.number().optional().default(1).describe("Page number (default: 1)"),
+      limit: z.number().optional().default(10).describe("Number of blueprints per page (default: 10, recommended: 5-15)"),
+      compact: z.boolean().optional().default(false).describe("Show compact view without descriptions (default: false)")
+    },
+    async ({ page, limit, compact }) => {
+      try {
+        const blueprints = await printifyClient.getBlueprints(page, limit);
+        
+        // Handle fallback data with formatted response
+        if (blueprints._fallback) {
+          const fallbackMessage = `⚠️ Using cached blueprint data\n${blueprints._message}\n\n`;
+          const formattedList = ResponseFormatter.formatBlueprintsList(
+            blueprints.data || [], 
+            { includeDescription: !compact, maxItems: limit }
+          );
+          
+          return {
+            content: [{
+              type: "text",
+              text: fallbackMessage + formattedList
+            }]
+          };
+        }
+        
+        // Format live API data with pagination
+        const formattedResponse = ResponseFormatter.formatWithPagination(
+          blueprints.data || [],
+          page,
+          limit,
+          (items) => ResponseFormatter.formatBlueprintsList(items, { includeDescription: !compact, maxItems: limit }),
+          blueprints.total
+        );
+        
+        // Add response size warning if needed
+        const responseWithWarning = ResponseFormatter.addResponseSizeWarning(formattedResponse, blueprints);
+        
+        // Add size management guidance for large responses
+        let sizeGuidance = '';
+        if (blueprints.data && blueprints.data.length >= 20) {
+          sizeGuidance = ResponseFormatter.getResponseSizeGuidance();
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: responseWithWarning + sizeGuidance
+          }]
+        };
+      } catch (error: any) {
+        // Format error response
+        const formattedError = ResponseFormatter.formatError(error, 'retrieving blueprints');
+        
+        // Add specific guidance for common issues
+        let additionalGuidance = '';
+        if (error.code === PrintifyErrorCode.TIMEOUT) {
+          additionalGuidance = `\n🔄 Quick Solutions:\n• Try get-blueprints limit=5 for faster loading\n• Use get-popular-blueprints for commonly used items\n• Enable debug mode: PRINTIFY_DEBUG=true\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedError + additionalGuidance
+          }]
+        };
+      }
+    }
+  );
+
+  // Get blueprint details
+  tool(
+    "get-blueprint",
+    {
+      blueprintId: z.string().describe("Blueprint ID")
+    },
+    async ({ blueprintId }) => {
+      try {
+        const blueprint = await printifyClient.getBlueprint(blueprintId);
+        const formattedResponse = ResponseFormatter.formatBlueprintDetails(blueprint);
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedResponse
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `retrieving blueprint ${blueprintId}`);
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError
+          }]
+        };
+      }
+    }
+  );
+
+  // Get print providers tool
+  tool(
+    "get-print-providers",
+    {
+      blueprintId: z.string().describe("Blueprint ID")
+    },
+    async ({ blueprintId }) => {
+      try {
+        const providers = await printifyClient.getPrintProviders(blueprintId);
+        const formattedResponse = ResponseFormatter.formatPrintProviders(providers, blueprintId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedResponse
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `retrieving print providers for blueprint ${blueprintId}`);
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError
+          }]
+        };
+      }
+    }
+  );
+
+  // Print provider directory tool
+  tool(
+    "list-print-providers",
+    {
+      country: z.string().optional().describe("Only providers producing in this country (ISO code, e.g. 'US', 'GB', 'DE')"),
+      makes: z.array(z.string()).optional().describe("Only providers offering every one of these products, e.g. ['hoodie', 'mug']")
+    },
+    async ({ country, makes }) => {
+      try {
+        // Product filters read each candidate's catalog, so the first search can take a while
+        const matches = await printifyClient.findPrintProviders({ country, makes });
+        
+        return {
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatPrintProviderDirectory(matches, { country, makes })
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, 'listing print providers')
+          }]
+        };
+      }
+    }
+  );
+
+  // Print provider details tool
+  tool(
+    "get-print-provider",
+    {
+      printProviderId: z.string().describe("Print provider ID"),
+      product: z.string().optional().describe("List only blueprints of this product type, e.g. 'hoodie'"),
+      blueprintId: z.string().optional().describe("Also show the countries this provider ships the blueprint to")
+    },
+    async ({ printProviderId, product, blueprintId }) => {
+      try {
+        const provider = await printifyClient.getPrintProvider(printProviderId);
+        
+        let shipping: { blueprintId: string; countries: string[]; worldwide: boolean } | undefined;
+        if (blueprintId) {
+          const rates = await printifyClient.getShippingRates(blueprintId, printProviderId);
+          const countries = Array.from(new Set(rates.map(rate => rate.country))).sort();
+          shipping = {
+            blueprintId,
+            countries: countries.filter(country => country !== 'REST_OF_THE_WORLD'),
+            worldwide: countries.includes('REST_OF_THE_WORLD')
+          };
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatPrintProvider(provider, product, shipping)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `retrieving print provider ${printProviderId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Compare providers tool
+  tool(
+    "compare-providers",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      colors: z.array(z.string()).optional().describe("Colors you need, e.g. ['black', 'heather grey']; shades are matched like normalize-color-name"),
+      sizes: z.array(z.string()).optional().describe("Sizes you need, e.g. ['S', 'M', 'L', '2XL']"),
+      countries: z.array(z.string()).optional().describe("Countries you sell to (ISO codes, e.g. ['US', 'CA']) for shipping costs and provider location"),
+      weights: z.object({
+        cost: z.number().min(0).optional(),
+        coverage: z.number().min(0).optional(),
+        shipping: z.number().min(0).optional(),
+        location: z.number().min(0).optional()
+      }).optional().describe(`Relative importance in the ranking (default: cost ${PROVIDER_WEIGHTS.cost}, coverage ${PROVIDER_WEIGHTS.coverage}, shipping ${PROVIDER_WEIGHTS.shipping}, location ${PROVIDER_WEIGHTS.location})`),
+      limit: z.number().optional().default(10).describe("Maximum number of providers to show (default: 10)")
+    },
+    async ({ blueprintId, colors = [], sizes = [], countries = [], weights, limit }) => {
+      try {
+        const targetCountries = countries.map(country => country.trim().toUpperCase());
+        const offers = await printifyClient.compareProviders(blueprintId, targetCountries);
+        if (offers.length === 0) {
+          throw new Error(`No print providers offer blueprint ${blueprintId}`);
+        }
+        const ranked = rankProviderOffers(offers, {
+          colors,
+          sizes,
+          countries: targetCountries,
+          weights: { ...PROVIDER_WEIGHTS, ...weights }
+        });
+        const failed = offers.filter(offer => offer.error);
+        
+        let output = `⚖️ Provider Comparison for Blueprint ${blueprintId}\n`;
+        output += `══════════════════════════════════════════\n\n`;
+        if (colors.length > 0) output += `🎨 Colors: ${colors.join(', ')}\n`;
+        if (sizes.length > 0) output += `📏 Sizes: ${sizes.join(', ')}\n`;
+        if (targetCountries.length > 0) output += `🌍 Selling to: ${targetCountries.join(', ')}\n`;
+        output += `📊 Providers compared: ${ranked.length}\n\n`;
+        
+        ranked.slice(0, limit).forEach((item, index) => {
+          const { offer } = item;
+          output += `${index === 0 ? '⭐' : `${index + 1}.`} Provider ${offer.provider.id}: ${offer.provider.title} - score ${item.score}/100\n`;
+          output += `   📍 ${ResponseFormatter.formatProviderLocation(offer.provider.location)}\n`;
+          output += `   💰 Base cost: ${offer.cost ? ResponseFormatter.formatMoneyRange(offer.cost) : 'not listed'}\n`;
+          output += `   👕 ${offer.variants} variants: ${offer.colors.length} colors, ${offer.sizes.length} sizes\n`;
+          if (colors.length + sizes.length > 0) {
+            const missing = [...item.missingColors, ...item.missingSizes];
+            output += missing.length > 0 ? `   ⚠️ Missing: ${missing.join(', ')}\n` : `   ✅ Has every requested color and size\n`;
+          }
+          offer.shipping.forEach(rate => {
+            output += `   🚚 ${rate.country}: ${rate.firstItem ? `${ResponseFormatter.formatMoneyRange(rate.firstItem)} standard, first item` : 'no standard shipping'}\n`;
+          });
+          output += `\n`;
+        });
+        
+        if (failed.length > 0) {
+          output += `⚠️ Could not read ${failed.length} provider${failed.length !== 1 ? 's' : ''}: ${failed.map(offer => `${offer.provider.title} (${offer.provider.id})`).join(', ')}\n\n`;
+        }
+        
+        output += `💡 Next Steps:\n`;
+        if (ranked[0]) output += `• Use get-variants ${blueprintId} ${ranked[0].offer.provider.id} to pick variants from the top provider\n`;
+        if (targetCountries.length === 0) output += `• Add countries to include shipping costs and provider location in the ranking\n`;
+        output += `• Adjust weights to favour cost, coverage, shipping or location\n`;
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: ResponseFormatter.formatError(error, `comparing providers for blueprint ${blueprintId}`)
+          }]
+        };
+      }
+    }
+  );
+
+  // Get variants tool
+  tool(
+    "get-variants",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().describe("Print provider ID")
+    },
+    async ({ blueprintId, printProviderId }) => {
+      try {
+        const variantsData = await printifyClient.getVariants(blueprintId, printProviderId);
+        const variants = variantsData.variants || [];
+        const formattedResponse = ResponseFormatter.formatVariants(variants, blueprintId, printProviderId);
+        
+        return {
+          content: [{
+            type: "text",
+            text: formattedResponse
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `retrieving variants for blueprint ${blueprintId}, provider ${printProviderId}`);
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError
+          }]
+        };
+      }
+    }
+  );
+
+  // ===== VALIDATION TOOLS =====
+
+  // Validate blueprint tool
+  tool(
+    "validate-blueprint",
+    {
+      blueprintId: z.string().describe("Blueprint ID to validate")
+    },
+    async ({ blueprintId }) => {
+      try {
+        // Get blueprint details
+        const blueprint = await printifyClient.getBlueprint(blueprintId);
+        
+        // Get print providers for this blueprint
+        const providers = await printifyClient.getPrintProviders(blueprintId);
+        
+        let output = `✅ Blueprint Validation: ${blueprintId}\n`;
+        output += `═══════════════════════════════════\n\n`;
+        output += `📋 Name: ${blueprint.title || 'Unknown'}\n`;
+        output += `🏢 Brand: ${blueprint.brand || 'Unknown'}\n`;
+        output += `🆔 ID: ${blueprint.id}\n`;
+        output += `📄 Description: ${blueprint.description || 'No description'}\n\n`;
+        
+        output += `🖨️ Print Providers Available: ${providers?.length || 0}\n`;
+        if (providers && providers.length > 0) {
+          output += `   ⭐ Recommended: ${providers[0].title} (ID: ${providers[0].id})\n`;
+          if (providers.length > 1) {
+            output += `   📋 Alternatives: ${providers.slice(1).map((p: any) => `${p.title} (${p.id})`).join(', ')}\n`;
+          }
+        } else {
+          output += `   ❌ No print providers available\n`;
+        }
+        
+        output += `\n💡 Next Steps:\n`;
+        if (providers && providers.length > 0) {
+          output += `• Use validate-variants ${blueprintId} ${providers[0].id} to check available variants\n`;
+          output += `• Use get-variants ${blueprintId} ${providers[0].id} to see all options\n`;
+          output += `• This blueprint is ready for product creation\n`;
+        } else {
+          output += `• ❌ Cannot create products - no print providers available\n`;
+          output += `• Try a different blueprint ID from get-popular-blueprints\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `validating blueprint ${blueprintId}`);
+        
+        let validationHelp = `\n🔍 Validation Tips:\n`;
+        validationHelp += `• Ensure blueprint ID is correct (use get-popular-blueprints)\n`;
+        validationHelp += `• Try get-blueprints to browse available options\n`;
+        validationHelp += `• Check if the blueprint exists with get-blueprint ${blueprintId}\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + validationHelp
+          }]
+        };
+      }
+    }
+  );
+
+  // Validate variants tool
+  tool(
+    "validate-variants",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().describe("Print provider ID"),
+      colors: z.string().optional().describe("Comma-separated colors to check (e.g., 'white,black')"),
+      sizes: z.string().optional().describe("Comma-separated sizes to check (e.g., 'M,L,XL')")
+    },
+    async ({ blueprintId, printProviderId, colors, sizes }) => {
+      try {
+        // Get variants data
+        const variantsData = await printifyClient.getVariants(blueprintId, printProviderId);
+        const allVariants = variantsData.variants || [];
+        
+        let output = `✅ Variant Validation\n`;
+        output += `═══════════════════\n\n`;
+        output += `📋 Blueprint: ${blueprintId}\n`;
+        output += `🖨️ Provider: ${printProviderId}\n`;
+        output += `👕 Total variants available: ${allVariants.length}\n\n`;
+        
+        // If no filters specified, show summary
+        if (!colors && !sizes) {
+          // Group by color for summary
+          const colorGroups = new Map<string, any[]>();
+          allVariants.forEach((variant: any) => {
+            const colorMatch = variant.title.match(/^([^\/]+)/);
+            const color = colorMatch ? colorMatch[1].trim() : 'Unknown';
+            if (!colorGroups.has(color)) colorGroups.set(color, []);
+            colorGroups.get(color)!.push(variant);
+          });
+          
+          output += `🎨 Available Colors (${colorGroups.size}):\n`;
+          for (const [color, variants] of colorGroups) {
+            const sampleSizes = variants.slice(0, 3).map((v: any) => {
+              const sizeMatch = v.title.match(/\/\s*(.+)$/);
+              return sizeMatch ? sizeMatch[1].trim() : 'One Size';
+            });
+            output += `  • ${color}: ${sampleSizes.join(', ')}${variants.length > 3 ? ' ...' : ''}\n`;
+          }
+          
+          output += `\n💡 To validate specific options:\n`;
+          output += `• validate-variants ${blueprintId} ${printProviderId} colors='white,black'\n`;
+          output += `• validate-variants ${blueprintId} ${printProviderId} sizes='M,L,XL'\n`;
+          output += `• validate-variants ${blueprintId} ${printProviderId} colors='white' sizes='M,L,XL'\n`;
+          
+          return {
+            content: [{
+              type: "text",
+              text: output
+            }]
+          };
+        }
+        
+        // Filter variants based on specified colors and sizes
+        const requestedColors = colors ? colors.toLowerCase().split(',').map(c => c.trim()) : [];
+        const requestedSizes = sizes ? sizes.toUpperCase().split(',').map(s => s.trim()) : [];
+        
+        const matchingVariants = allVariants.filter((variant: any) => {
+          const title = variant.title;
+          
+          // Check color match
+          let colorMatch = true;
+          if (requestedColors.length > 0) {
+            colorMatch = requestedColors.some(color => 
+              title.toLowerCase().includes(color.toLowerCase())
+            );
+          }
+          
+          // Check size match
+          let sizeMatch = true;
+          if (requestedSizes.length > 0) {
+            sizeMatch = requestedSizes.some(size => {
+              const sizeRegex = new RegExp(`\\b${size}\\b`, 'i');
+              return sizeRegex.test(title);
+            });
+          }
+          
+          return colorMatch && sizeMatch;
+        });
+        
+        // Report validation results
+        if (requestedColors.length > 0) {
+          output += `🎨 Requested Colors: ${requestedColors.join(', ')}\n`;
+        }
+        if (requestedSizes.length > 0) {
+          output += `📏 Requested Sizes: ${requestedSizes.join(', ')}\n`;
+        }
+        
+        output += `\n🔍 Validation Results:\n`;
+        output += `• Found ${matchingVariants.length} matching variants\n`;
+        
+        if (matchingVariants.length === 0) {
+          output += `❌ No variants match your criteria\n\n`;
+          output += `💡 Suggestions:\n`;
+          
+          // Analyze what's available
+          const availableColors = [...new Set(allVariants.map((v: any) => {
+            const match = v.title.match(/^([^\/]+)/);
+            return match ? match[1].trim().toLowerCase() : '';
+          }))].filter(c => c);
+          
+          const availableSizes = [...new Set(allVariants.map((v: any) => {
+            const match = v.title.match(/\/\s*(.+)$/);
+            return match ? match[1].trim().toUpperCase() : '';
+          }))].filter(s => s);
+          
+          if (requestedColors.length > 0) {
+            output += `• Available colors: ${availableColors.slice(0, 5).join(', ')}\n`;
+          }
+          if (requestedSizes.length > 0) {
+            output += `• Available sizes: ${availableSizes.slice(0, 8).join(', ')}\n`;
+          }
+          
+          output += `• Use get-variants ${blueprintId} ${printProviderId} to see all options\n`;
+        } else {
+          output += `✅ Valid combination found\n\n`;
+          
+          // Show sample matching variants
+          const sampleVariants = matchingVariants.slice(0, 5);
+          output += `📋 Sample matching variants:\n`;
+          sampleVariants.forEach((variant: any) => {
+            const cost = variant.cost !== undefined && variant.cost !== null ? `$${(variant.cost / 100).toFixed(2)}` : 'N/A';
+            output += `  • ID ${variant.id}: ${variant.title} (${cost})\n`;
+          });
+          
+          if (matchingVariants.length > 5) {
+            output += `  ... and ${matchingVariants.length - 5} more\n`;
+          }
+          
+          output += `\n💡 Ready for product creation:\n`;
+          output += `• These variant IDs can be used in create-product\n`;
+          output += `• Use calculate-pricing to determine selling prices\n`;
+          output += `• All variants are compatible with this blueprint and provider\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `validating variants for blueprint ${blueprintId}, provider ${printProviderId}`);
+        
+        let validationHelp = `\n🔍 Validation Tips:\n`;
+        validationHelp += `• Verify blueprint and provider IDs with validate-blueprint ${blueprintId}\n`;
+        validationHelp += `• Check available providers with get-print-providers ${blueprintId}\n`;
+        validationHelp += `• Use get-variants ${blueprintId} ${printProviderId} to see all options\n`;
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError + validationHelp
+          }]
+        };
+      }
+    }
+  );
+
+  // Validate product configuration tool
+  tool(
+    "validate-product-config",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().describe("Print provider ID"), 
+      variantIds: z.array(z.number()).describe("Array of variant IDs to validate"),
+      imageId: z.string().optional().describe("Image ID to validate (optional)")
+    },
+    async ({ blueprintId, printProviderId, variantIds, imageId }) => {
+      try {
+        let output = `🔍 Product Configuration Validation\n`;
+        output += `═══════════════════════════════════\n\n`;
+        
+        let isValid = true;
+        const issues: string[] = [];
+        const warnings: string[] = [];
+        
+        // Validate blueprint and provider
+        try {
+          await printifyClient.getBlueprint(blueprintId);
+          output += `✅ Blueprint ${blueprintId}: Valid\n`;
+        } catch (error) {
+          output += `❌ Blueprint ${blueprintId}: Invalid\n`;
+          issues.push(`Blueprint ${blueprintId} not found`);
+          isValid = false;
+        }
+        
+        // Validate print provider
+        try {
+          const providers = await printifyClient.getPrintProviders(blueprintId);
+          const validProvider = providers.find((p: any) => p.id.toString() === printProviderId);
+          if (validProvider) {
+            output += `✅ Print Provider ${printProviderId}: Valid\n`;
+          } else {
+            output += `❌ Print Provider ${printProviderId}: Invalid for this blueprint\n`;
+            issues.push(`Print provider ${printProviderId} not available for blueprint ${blueprintId}`);
+            isValid = false;
+          }
+        } catch (error) {
+          output += `❌ Print Provider ${printProviderId}: Could not validate\n`;
+          issues.push(`Could not validate print provider ${printProviderId}`);
+          isValid = false;
+        }
+        
+        // Validate variants
+        if (isValid) {
+          try {
+            const variantsData = await printifyClient.getVariants(blueprintId, printProviderId);
+            const availableVariants = variantsData.variants || [];
+            const availableIds = availableVariants.map((v: any) => v.id);
+            
+            const invalidVariants = variantIds.filter(id => !availableIds.includes(id));
+            const validVariants = variantIds.filter(id => availableIds.includes(id));
+            
+            output += `✅ Variants: ${validVariants.length}/${variantIds.length} valid\n`;
+            
+            if (invalidVariants.length > 0) {
+              output += `❌ Invalid variant IDs: ${invalidVariants.join(', ')}\n`;
+              issues.push(`Invalid variant IDs: ${invalidVariants.join(', ')}`);
+              isValid = false;
+            }
+            
+            if (validVariants.length === 0) {
+              issues.push('No valid variants specified');
+              isValid = false;
+            } else if (validVariants.length < 3) {
+              warnings.push(`Only ${validVariants.length} variant(s) selected - consider adding more size/color options`);
+            }
+          } catch (error) {
+            output += `❌ Variants: Could not validate\n`;
+            issues.push('Could not validate variants');
+            isValid = false;
+          }
+        }
+        
+        // Validate image if provided
+        if (imageId) {
+          // For now, we'll assume valid since there's no direct image validation API
+          output += `ℹ️ Image ${imageId}: Assumed valid (cannot verify)\n`;
+          warnings.push('Image validation not available - ensure image was uploaded successfully');
+        }
+        
+        output += `\n📊 Overall Status: ${isValid ? '✅ VALID' : '❌ INVALID'}\n\n`;
+        
+        // Show issues
+        if (issues.length > 0) {
+          output += `🚨 Issues to fix:\n`;
+          issues.forEach(issue => output += `  • ${issue}\n`);
+          output += `\n`;
+        }
+        
+        // Show warnings
+        if (warnings.length > 0) {
+          output += `⚠️ Warnings:\n`;
+          warnings.forEach(warning => output += `  • ${warning}\n`);
+          output += `\n`;
+        }
+        
+        // Provide next steps
+        output += `💡 Next Steps:\n`;
+        if (isValid) {
+          output += `• Configuration is valid - ready for product creation\n`;
+          output += `• Use create-product with these exact parameters\n`;
+          output += `• Consider testing with create-product-simple first\n`;
+        } else {
+          output += `• Fix the issues listed above before creating product\n`;
+          output += `• Use validate-blueprint ${blueprintId} for blueprint details\n`;
+          output += `• Use get-print-providers ${blueprintId} for valid providers\n`;
+          output += `• Use get-variants ${blueprintId} {provider_id} for valid variants\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, 'validating product configuration');
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError
+          }]
+        };
+      }
+    }
+  );
+
+  // Get available colors tool
+  tool(
+    "get-available-colors",
+    {
+      blueprintId: z.string().describe("Blueprint ID"),
+      printProviderId: z.string().optional().describe("Print provider ID (optional, uses first provider if not specified)")
+    },
+    async ({ blueprintId, printProviderId }) => {
+      try {
+        // Get print provider if not specified
+        let providerId = printProviderId;
+        if (!providerId) {
+          const providers = await printifyClient.getPrintProviders(blueprintId);
+          if (!providers || providers.length === 0) {
+            throw new Error(`No print providers available for blueprint ${blueprintId}`);
+          }
+          providerId = providers[0].id.toString();
+        }
+        
+        // Get variants
+        const variantsData = await printifyClient.getVariants(blueprintId, providerId!);
+        const allVariants = variantsData.variants || [];
+        
+        // Extract unique colors
+        const colorMap = new Map<string, number>();
+        allVariants.forEach((variant: any) => {
+          const colorMatch = variant.title.match(/^([^\/]+)/);
+          if (colorMatch) {
+            const color = colorMatch[1].trim().toLowerCase();
+            colorMap.set(color, (colorMap.get(color) || 0) + 1);
+          }
+        });
+        
+        const colors = Array.from(colorMap.entries())
+          .sort((a, b) => b[1] - a[1]) // Sort by count descending
+          .map(([color, count]) => ({ color, count }));
+        
+        let output = `🎨 Available Colors for Blueprint ${blueprintId}\n`;
+        output += `═══════════════════════════════════════\n\n`;
+        output += `🖨️ Provider: ${providerId}\n`;
+        output += `📊 Total colors: ${colors.length}\n\n`;
+        
+        output += `🎨 Colors (with variant count):\n`;
+        colors.forEach(({ color, count }) => {
+          output += `  • ${color}: ${count} variant${count > 1 ? 's' : ''}\n`;
+        });
+        
+        output += `\n💡 Usage Tips:\n`;
+        output += `• Use these exact color names in create-product-simple\n`;
+        output += `• Common mappings: 'carolina blue' → 'blue', 'heather grey' → 'gray'\n`;
+        output += `• Use normalize-color-name to convert non-standard colors\n`;
+        output += `• Some colors may have variations (e.g., 'solid white' vs 'white')\n`;
+        
+        return {
+          content: [{
+            type: "text",
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        const formattedError = ResponseFormatter.formatError(error, `getting available colors for blueprint ${blueprintId}`);
+        
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: formattedError
+          }]
+        };
+      }
+    }
+  );
+
+  // Normalize color name tool
+  tool(
+    "normalize-color-name",
+    {
+      color: z.string().describe("Color name to normalize (e.g., 'Carolina Blue', 'Heather Grey')")
+    },
+    async ({ color }) => {
+      const normalizedColor = normalizeColorName(color);
+      const isStandardColor = normalizedColor === color.toLowerCase();
+      
+      let output = `🎨 Color Normalization\n`;
+      output += `══════════════════\n\n`;
+      output += `📥 Input: "${color}"\n`;
+      output += `📤 Normalized: "${normalizedColor}"\n`;
+      output += `✅ Status: ${isStandardColor ? 'Already standard' : 'Mapped to standard color'}\n\n`;
+      
+      if (!isStandardColor) {
+        output += `💡 Mapping Info:\n`;
+        output += `• "${color}" is mapped to the standard color "${normalizedColor}"\n`;
+        output += `• This helps match more variants when filtering\n`;
+        output += `• Use "${normalizedColor}" in create-product-simple for best results\n`;
+      } else {
+        output += `💡 This is already a standard color name\n`;
+      }
+      
+      // Show related variations
+      const colorVariations: {[key: string]: string[]} = {
+        'white': ['white', 'solid white', 'natural', 'cream', 'ivory', 'off-white', 'snow'],
+        'black': ['black', 'solid black', 'dark', 'jet black', 'midnight'],
+        'gray': ['gray', 'grey', 'heather gray', 'heather grey', 'charcoal', 'silver', 'ash', 'slate'],
+        'red': ['red', 'cardinal', 'scarlet', 'crimson', 'burgundy', 'cherry', 'ruby', 'maroon'],
+        'blue': ['blue', 'navy', 'royal blue', 'sapphire', 'carolina blue', 'sky blue', 'baby blue', 'ocean', 'cobalt', 'azure', 'teal'],
+        'green': ['green', 'forest', 'olive', 'emerald', 'mint', 'sage', 'lime', 'kelly green', 'hunter green'],
+        'pink': ['pink', 'rose', 'blush', 'fuchsia', 'magenta', 'coral', 'salmon'],
+        'purple': ['purple', 'violet', 'lavender', 'plum', 'eggplant', 'orchid'],
+        'yellow': ['yellow', 'gold', 'mustard', 'lemon', 'butter', 'sunshine'],
+        'orange': ['orange', 'rust', 'burnt orange', 'tangerine', 'peach', 'apricot'],
+        'brown': ['brown', 'tan', 'beige', 'taupe', 'chocolate', 'coffee', 'mocha']
+      };
+      
+      const variations = colorVariations[normalizedColor];
+      if (variations && variations.length > 1) {
+        output += `\n🔄 Related variations that map to "${normalizedColor}":\n`;
+        variations.forEach(v => {
+          if (v !== normalizedColor) {
+            output += `  • ${v}\n`;
+          }
+        });
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: output
+        }]
+      };
+    }
+  );
+
+  // ===== PROMPTS =====
+  
+  // Product creation wizard prompt
+  server.prompt(
+    'create-product-wizard',
+    'Interactive wizard to create a Printify product with best practices',
+    {
+      productType: z.string().describe('Type of product (t-shirt, mug, hoodie, etc)'),
+      designDescription: z.string().describe('Description of your design concept'),
+      targetAudience: z.string().optional().describe('Target customer demographic'),
+      priceRange: z.string().optional().describe('Desired price range (budget, mid-range, premium)')
+    },
+    async ({ productType, designDescription, targetAudience, priceRange }) => {
+      return {
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `I want to create a ${productType} product on Printify. 
+
+Design concept: ${designDescription}
+${targetAudience ? `Target audience: ${targetAudience}` : ''}
+${priceRange ? `Price range: ${priceRange}` : ''}
+
+Please help me:
+1. Find the best blueprint for a ${productType}
+2. Select an appropriate print provider based on quality and price
+3. Choose the right variants (sizes/colors) for my target market
+4. Set competitive pricing
+5. Generate or prepare my design for upload
+6. Create the product with optimal settings
+
+Guide me through each step and explain the best practices.`
+          }
+        }]
+      };
+    }
+  );
+
+  // Bulk product generator prompt
+  server.prompt(
+    'bulk-product-generator',
+    'Generate multiple product variants from a single design',
+    {
+      designId: z.string().describe('The uploaded design image ID'),
+      productTypes: z.string().describe('Comma-separated list of product types to create (e.g., "t-shirt, hoodie, mug")'),
+      basePrice: z.string().describe('Base price in dollars (e.g., "19.99")'),
+      namePattern: z.string().describe('Pattern for product names (e.g., "{design} - {type}")')
+    },
+    async ({ designId, productTypes, basePrice, namePattern }) => {
+      // Parse the comma-separated product types
+      const productTypesList = productTypes.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      
+      // Parse the price
+      const priceNumber = parseFloat(basePrice);
+      const formattedPrice = isNaN(priceNumber) ? basePrice : `$${priceNumber.toFixed(2)}`;
+      
+      return {
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `I need to create multiple products using design ID: ${designId}
+
+Product types to create: ${productTypesList.join(', ')}
+Base price: ${formattedPrice}
+Naming pattern: ${namePattern}
+
+Please:
+1. Create a product for each type listed
+2. Apply the design to the main print area
+3. Enable popular sizes and colors
+4. Set pricing based on the base price (adjust for product cost)
+5. Use consistent naming following the pattern
+6. Provide a summary of all created products
+
+Optimize for efficiency while maintaining quality settings.`
+          }
+        }]
+      };
+    }
+  );
+
+  // Design upload assistant prompt
+  server.prompt(
+    'design-upload-assistant',
+    'Help prepare and upload designs with optimal settings',
+    {
+      designType: z.string().describe('Type of design (logo, pattern, illustration, photo)'),
+      intendedProducts: z.string().describe('Comma-separated list of products this design will be used on (e.g., "t-shirt, mug, hoodie")'),
+      hasTransparency: z.string().describe('Whether the design needs transparency (yes/no)'),
+      currentFormat: z.string().optional().describe('Current file format if known')
+    },
+    async ({ designType, intendedProducts, hasTransparency, currentFormat }) => {
+      // Parse the comma-separated products list
+      const productsList = intendedProducts.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      
+      // Parse the transparency boolean
+      const needsTransparency = hasTransparency.toLowerCase() === 'yes' || hasTransparency.toLowerCase() === 'true';
+      
+      return {
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `I need help uploading a ${designType} design for Printify.
+
+Intended products: ${productsList.join(', ')}
+Needs transparency: ${needsTransparency ? 'Yes' : 'No'}
+${currentFormat ? `Current format: ${currentFormat}` : ''}
+
+Please help me:
+1. Verify the design meets requirements (DPI, dimensions, format)
+2. Explain any necessary preparations or conversions
+3. Upload the design with optimal settings
+4. Provide placement recommendations for each product type
+5. Suggest any design adjustments for better print quality
+
+Include specific technical requirements and best practices.`
+          }
+        }]
+      };
+    }
+  );
+
+  // Product description writer prompt
+  server.prompt(
+    'product-description-writer',
+    'Generate SEO-optimized product descriptions',
+    {
+      productName: z.string().describe('Name of the product'),
+      targetKeywords: z.string().describe('Comma-separated list of SEO keywords to include (e.g., "vintage, retro, graphic tee")'),
+      tone: z.string().describe('Writing tone (professional, casual, playful, luxury)'),
+      features: z.string().describe('Comma-separated list of key product features to highlight (e.g., "soft cotton, eco-friendly, unisex fit")'),
+      idealCustomer: z.string().optional().describe('Description of ideal customer')
+    },
+    async ({ productName, targetKeywords, tone, features, idealCustomer }) => {
+      // Parse the comma-separated keywords and features
+      const keywordsList = targetKeywords.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      const featuresList = features.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      
+      return {
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Write an SEO-optimized product description for: ${productName}
+
+Target keywords: ${keywordsList.join(', ')}
+Tone: ${tone}
+Key features: ${featuresList.join(', ')}
+${idealCustomer ? `Ideal customer: ${idealCustomer}` : ''}
+
+Create:
+1. A compelling title (50-60 characters)
+2. A short description (150-160 characters) 
+3. A detailed description (300-500 words)
+4. 5-7 relevant tags
+5. Key selling points in bullet format
+
+Naturally incorporate keywords while maintaining readability and conversion focus.`
+          }
+        }]
+      };
+    }
+  );
+
+  // ===== RESOURCES =====
+
+  // Design guidelines resource
+  server.resource(
+    'design-guidelines',
+    'printify://guidelines/design-requirements',
+    { 
+      mimeType: 'application/json',
+      description: 'Comprehensive design requirements for all Printify products'
+    },
+    async () => {
+      const guidelines = {
+        general: {
+          dpi: 300,
+          colorMode: 'RGB',
+          recommendedFormats: ['PNG', 'JPG'],
+          maxFileSize: '25MB'
+        },
+        products: {
+          tshirt: {
+            printArea: { width: 4500, height: 5400 },
+            safeZone: '0.125 inches from edges',
+            placement: 'Center chest, 3-4 inches from collar'
+          },
+          mug: {
+            printArea: { width: 2700, height: 1200 },
+            safeZone: '0.25 inches from edges',
+            wraparound: true
+          },
+          hoodie: {
+            printArea: { width: 4500, height: 5400 },
+            pocketPrint: { width: 1200, height: 1200 },
+            safeZone: '0.125 inches from edges'
+          },
+          poster: {
+            printArea: 'Full bleed supported',
+            bleed: '0.125 inches',
+            safeZone: '0.25 inches for text'
+          }
+        },
+        tips: [
+          'Use PNG for designs with transparency',
+          'Ensure text is converted to outlines',
+          'Check design at 100% size before upload',
+          'Avoid very thin lines (minimum 2pt)',
+          'Test print colors may vary from screen'
+        ]
+      };
+      
+      return {
+        contents: [{
+          uri: 'printify://guidelines/design-requirements',
+          text: JSON.stringify(guidelines, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Size charts resource
+  server.resource(
+    'size-charts',
+    'printify://reference/size-charts',
+    { 
+      mimeType: 'application/json',
+      description: 'Standard size charts for apparel products'
+    },
+    async () => {
+      const sizeCharts = {
+        unisexTShirt: {
+          units: 'inches',
+          sizes: {
+            S: { chest: '34-36', length: 28 },
+            M: { chest: '38-40', length: 29 },
+            L: { chest: '42-44', length: 30 },
+            XL: { chest: '46-48', length: 31 },
+            '2XL': { chest: '50-52', length: 32 },
+            '3XL': { chest: '54-56', length: 33 }
+          }
+        },
+        womensTShirt: {
+          units: 'inches',
+          sizes: {
+            S: { chest: '30-32', length: 25.5 },
+            M: { chest: '32-34', length: 26 },
+            L: { chest: '36-38', length: 27 },
+            XL: { chest: '40-42', length: 28 }
+          }
+        },
+        hoodie: {
+          units: 'inches', 
+          sizes: {
+            S: { chest: '38-40', length: 27 },
+            M: { chest: '42-44', length: 28 },
+            L: { chest: '46-48', length: 29 },
+            XL: { chest: '50-52', length: 30 },
+            '2XL': { chest: '54-56', length: 31 }
+          }
+        }
+      };
+      
+      return {
+        contents: [{
+          uri: 'printify://reference/size-charts',
+          text: JSON.stringify(sizeCharts, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Pricing calculator resource
+  server.resource(
+    'pricing-calculator',
+    'printify://tools/pricing-guide',
+    { 
+      mimeType: 'application/json',
+      description: 'Pricing strategies and profit margin calculator'
+    },
+    async () => {
+      const pricingGuide = {
+        strategies: {
+          keystone: {
+            description: 'Double the total cost',
+            formula: 'Retail Price = (Base Cost + Shipping) × 2',
+            profitMargin: '50%'
+          },
+          competitive: {
+            description: 'Market-based pricing',
+            formula: 'Retail Price = Average Market Price',
+            profitMargin: 'Varies (typically 30-40%)'
+          },
+          premium: {
+            description: 'High-end positioning',
+            formula: 'Retail Price = (Base Cost + Shipping) × 2.5-3',
+            profitMargin: '60-70%'
+          }
+        },
+        calculations: {
+          profitMargin: '(Retail Price - Total Cost) / Retail Price × 100',
+          breakEven: 'Fixed Costs / (Retail Price - Variable Cost)',
+          recommendedMinimum: '30% profit margin'
+        },
+        shipping: {
+          freeShipping: 'Retail Price = (Base Cost + First-Item Shipping) / (1 - Profit Margin)',
+          additionalItems: 'Each extra item in an order ships at the lower additional-item rate',
+          lookup: 'Use calculate-shipping for rates by blueprint, provider and country, or for a whole order'
+        },
+        tips: [
+          'Consider shipping costs in your pricing',
+          'Account for marketplace fees (Etsy, Shopify)',
+          'Test different price points',
+          'Bundle products for higher average order value',
+          'Offer volume discounts strategically'
+        ]
+      };
+      
+      return {
+        contents: [{
+          uri: 'printify://tools/pricing-guide',
+          text: JSON.stringify(pricingGuide, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Blueprint catalog resource
+  server.resource(
+    'blueprint-catalog',
+    'printify://catalog/popular-blueprints',
+    { 
+      mimeType: 'application/json',
+      description: 'Popular Printify product blueprints with recommendations'
+    },
+    async () => {
+      const blueprintCatalog = {
+        apparel: {
+          tshirts: [
+            {
+              id: 12,
+              name: 'Unisex Cotton T-Shirt',
+              popularity: 'Very High',
+              priceRange: '$8-12',
+              bestFor: 'General audience, comfortable everyday wear',
+              providers: ['Monster Digital', 'Print Geek', 'FYBY']
+            },
+            {
+              id: 281,
+              name: 'Unisex Cut & Sew Tee (AOP)',
+              popularity: 'High',
+              priceRange: '$15-22',
+              bestFor: 'All-over prints, patterns, artistic designs',
+              providers: ['Subliminator', 'Print Your Cause']
+            }
+          ],
+          hoodies: [
+            {
+              id: 85,
+              name: 'Unisex Heavy Blend Hoodie',
+              popularity: 'Very High',
+              priceRange: '$25-35',
+              bestFor: 'Cold weather, casual streetwear',
+              providers: ['Monster Digital', 'SwiftPOD']
+            }
+          ],
+          longsleeves: [
+            {
+              id: 428,
+              name: 'Unisex Long Sleeve Tee',
+              popularity: 'Medium',
+              priceRange: '$12-18',
+              bestFor: 'Cooler weather, professional casual',
+              providers: ['Monster Digital', 'FYBY']
+            }
+          ]
+        },
+        accessories: {
+          mugs: [
+            {
+              id: 19,
+              name: 'White Glossy Mug',
+              popularity: 'Very High',
+              priceRange: '$10-15',
+              bestFor: 'Gifts, office use, simple designs',
+              providers: ['District Photo', 'Print Geek']
+            }
+          ],
+          toteBags: [
+            {
+              id: 517,
+              name: 'Canvas Tote Bag',
+              popularity: 'High',
+              priceRange: '$12-18',
+              bestFor: 'Eco-friendly shoppers, minimalist designs',
+              providers: ['Bags of Love USA', 'Print Logistic']
+            }
+          ],
+          phoneCases: [
+            {
+              id: 302,
+              name: 'Clear Case for iPhone®',
+              popularity: 'Medium',
+              priceRange: '$15-20',
+              bestFor: 'Tech accessories, personalized gifts',
+              providers: ['Prisma', 'Case Escape']
+            }
+          ]
+        },
+        homeDecor: {
+          posters: [
+            {
+              id: 1,
+              name: 'Posters',
+              popularity: 'High',
+              priceRange: '$10-25',
+              bestFor: 'Wall art, photography, illustrations',
+              providers: ['Prodigi', 'Printify']
+            }
+          ],
+          canvases: [
+            {
+              id: 30,
+              name: 'Canvas Gallery Wraps',
+              popularity: 'Medium',
+              priceRange: '$25-50',
+              bestFor: 'Premium wall art, photography',
+              providers: ['Dream Junction', 'Prodigi']
+            }
+          ]
+        },
+        seasonal: {
+          ornaments: {
+            availability: 'September-December',
+            popularBlueprints: [447, 632, 741]
+          },
+          beachTowels: {
+            availability: 'March-August',
+            popularBlueprints: [559, 612]
+          }
+        }
+      };
+      
+      return {
+        contents: [{
+          uri: 'printify://catalog/popular-blueprints',
+          text: JSON.stringify(blueprintCatalog, null, 2)
+        }]
+      };
+    }
+  );
+
+  // API best practices resource
+  server.resource(
+    'api-best-practices',
+    'printify://guides/api-best-practices',
+    { 
+      mimeType: 'application/json',
+      description: 'Best practices for using the Printify API efficiently'
+    },
+    async () => {
+      const bestPractices = {
+        rateLimits: {
+          standard: '120 requests per minute',
+          burst: 'Up to 10 concurrent requests',
+          recommendation: 'Implement exponential backoff on 429 errors'
+        },
+        efficiency: {
+          batching: [
+            'Create multiple variants in a single product creation',
+            'Use bulk operations when available',
+            'Cache blueprint and provider data locally'
+          ],
+          pagination: [
+            'Use limit parameter (max 100)',
+            'Process results in parallel when possible',
+            'Store cursor for resumable operations'
+          ]
+        },
+        imageOptimization: {
+          upload: [
+            'Compress images before upload (85% JPEG quality)',
+            'Use appropriate dimensions for product type',
+            'Upload once, reuse image ID for multiple products'
+          ],
+          formats: {
+            transparent: 'PNG (for logos, text)',
+            photos: 'JPEG (smaller file size)',
+            vectors: 'Convert to high-res PNG first'
+          }
+        },
+        errorHandling: {
+          common: {
+            401: 'Check API key validity',
+            404: 'Verify resource IDs',
+            422: 'Validate request payload',
+            429: 'Implement rate limit backoff',
+            500: 'Retry with exponential backoff'
+          }
+        },
+        webhooks: {
+          events: [
+            'product.created',
+            'product.updated', 
+            'product.deleted',
+            'order.created',
+            'order.shipped'
+          ],
+          tip: 'Use webhooks instead of polling for real-time updates'
+        }
+      };
+      
+      return {
+        contents: [{
+          uri: 'printify://guides/api-best-practices',
+          text: JSON.stringify(bestPractices, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Recent tool calls on this Printify account, when the host keeps an audit log. Their arguments
+  // include order recipients, so like order tools they need orders:read.
+  if (context.readRecentAudit && context.scopes.includes('orders:read')) {
+    const readRecentAudit = context.readRecentAudit;
+    server.resource(
+      'audit-recent',
+      'printify://audit/recent',
+      {
+        mimeType: 'application/json',
+        description: 'The most recent tool calls made on this Printify account, with their results and the resources they touched'
+      },
+      async () => {
+        const entries = await readRecentAudit();
+        
+        return {
+          contents: [{
+            uri: 'printify://audit/recent',
+            text: JSON.stringify({ entries }, null, 2)
+          }]
+        };
+      }
+    );
+  }
+
+  // Shop events delivered to this server's webhook receivers; they carry order details,
+  // so they are only offered to sessions that may manage webhooks
+  if (context.webhookReceivers && context.scopes.includes('webhooks')) {
+    const receivers = context.webhookReceivers;
+    server.resource(
+      'events-recent',
+      'printify://events/recent',
+      {
+        mimeType: 'application/json',
+        description: 'The most recent order and product events Printify delivered to this server\'s webhooks'
+      },
+      async () => {
+        const events = await receivers.readRecentEvents();
+        
+        return {
+          contents: [{
+            uri: 'printify://events/recent',
+            text: JSON.stringify({ events }, null, 2)
+          }]
+        };
+      }
+    );
+  }
+
+  return server;
+}
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const SWEEP_INTERVAL = 60 * 1000;
+
+interface McpSessionEntry {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  ownerId: string; // userId of the Printify session that initialized it
+  scopeKey: string;
+  lastActivity: number;
+}
+
+interface SseSessionEntry {
+  transport: SSEServerTransport;
+  server: McpServer;
+  ownerId: string;
+  scopeKey: string;
+}
+
+export interface McpSessionManagerOptions {
+  idleTimeout: number; // Milliseconds without a request before a session is closed
+  createEventStore?: () => EventStore; // Enables Last-Event-ID resumption when set
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+// Stateful Streamable HTTP: one transport and MCP server per Mcp-Session-Id, so the server
+// can stream progress and notifications and clients can resume dropped streams.
+export class McpSessionManager {
+  private sessions = new Map<string, McpSessionEntry>();
+
+  constructor(private options: McpSessionManagerOptions) {
+    setInterval(() => this.closeIdle(), Math.min(SWEEP_INTERVAL, options.idleTimeout));
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Route a request to its MCP session, or start one for an initialize request. MCP sessions
+  // are bound to the Printify session that created them and to the scopes they were built with.
+  async handleRequest(
+    req: Request,
+    res: Response,
+    ownerId: string,
+    scopes: readonly string[],
+    createServer: () => McpServer
+  ): Promise<void> {
+    const scopeKey = scopes.join(' ');
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const entry = this.sessions.get(sessionId);
+      if (!entry || entry.ownerId !== ownerId) {
+        return sendJsonRpcError(res, 404, -32001, 'MCP session not found. Please reconnect.');
+      }
+
+      // The tool list is fixed per server, so a permission change needs a fresh session
+      if (entry.scopeKey !== scopeKey) {
+        await this.close(sessionId);
+        return sendJsonRpcError(res, 404, -32001, 'Permissions changed. Please reconnect.');
+      }
+
+      entry.lastActivity = Date.now();
+      await entry.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid MCP session ID provided');
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomBytes(16).toString('hex'),
+      eventStore: this.options.createEventStore?.(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { transport, server, ownerId, scopeKey, lastActivity: Date.now() });
+        console.log(`Opened MCP session ${id}`);
+      }
+    });
+
+    // connect() takes over the transport callbacks, so listen on the server instead.
+    // Fires on DELETE from the client, on idle cleanup and on revocation.
+    server.server.onclose = () => {
+      if (transport.sessionId && this.sessions.has(transport.sessionId)) {
+        this.close(transport.sessionId).catch(console.error);
+      }
+    };
+    server.server.onerror = error => console.error('MCP transport error:', error);
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  // Close every MCP session opened through a revoked or rotated Printify session
+  async closeForOwner(ownerId: string): Promise<void> {
+    const ids = Array.from(this.sessions.entries())
+      .filter(([, entry]) => entry.ownerId === ownerId)
+      .map(([id]) => id);
+    await Promise.all(ids.map(id => this.close(id)));
+  }
+
+  private async close(sessionId: string): Promise<void> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+
+    // Remove first: closing the server closes the transport, which calls onclose again
+    this.sessions.delete(sessionId);
+    await entry.server.close();
+    console.log(`Closed MCP session ${sessionId}`);
+  }
+
+  private closeIdle(): void {
+    const cutoff = Date.now() - this.options.idleTimeout;
+    for (const [id, entry] of this.sessions.entries()) {
+      if (entry.lastActivity < cutoff) {
+        this.close(id).catch(error => console.error('Failed to close idle MCP session:', error));
+      }
+    }
+  }
+}
+
+// Deprecated HTTP+SSE transport: each open GET stream is a session, and the client posts its
+// messages to the announced endpoint with ?sessionId=. A session ends when its stream closes.
+export class SseSessionRegistry {
+  private sessions = new Map<string, SseSessionEntry>();
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Open the event stream on res and announce messagesPath as the endpoint for client messages
+  async open(
+    res: Response,
+    messagesPath: string,
+    ownerId: string,
+    scopes: readonly string[],
+    createServer: () => McpServer
+  ): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport(messagesPath, res);
+    const sessionId = transport.sessionId;
+    this.sessions.set(sessionId, { transport, server, ownerId, scopeKey: scopes.join(' ') });
+
+    // Fires when the client disconnects, and on revocation
+    server.server.onclose = () => {
+      this.close(sessionId).catch(console.error);
+    };
+    server.server.onerror = error => console.error('SSE transport error:', error);
+
+    await server.connect(transport);
+    console.log(`Opened SSE session ${sessionId}`);
+  }
+
+  async handleMessage(req: Request, res: Response, ownerId: string, scopes: readonly string[]): Promise<void> {
+    const sessionId = req.query.sessionId;
+    if (typeof sessionId !== 'string') {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: sessionId query parameter is required');
+    }
+
+    const entry = this.sessions.get(sessionId);
+    if (!entry || entry.ownerId !== ownerId) {
+      return sendJsonRpcError(res, 404, -32001, 'SSE session not found. Please reconnect.');
+    }
+
+    // Same rule as stateful Streamable HTTP: the tool list was fixed when the stream opened
+    if (entry.scopeKey !== scopes.join(' ')) {
+      await this.close(sessionId);
+      return sendJsonRpcError(res, 404, -32001, 'Permissions changed. Please reconnect.');
+    }
+
+    await entry.transport.handlePostMessage(req, res, req.body);
+  }
+
+  async closeForOwner(ownerId: string): Promise<void> {
+    const ids = Array.from(this.sessions.entries())
+      .filter(([, entry]) => entry.ownerId === ownerId)
+      .map(([id]) => id);
+    await Promise.all(ids.map(id => this.close(id)));
+  }
+
+  private async close(sessionId: string): Promise<void> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+
+    // Remove first: closing the server ends the stream, which calls onclose again
+    this.sessions.delete(sessionId);
+    await entry.server.close();
+    console.log(`Closed SSE session ${sessionId}`);
+  }
+}
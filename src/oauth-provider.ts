@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Response } from 'express';
+import { AuthorizationParams, OAuthServerProvider } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidGrantError, InvalidScopeError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { OAuthClientInformationFull, OAuthTokenRevocationRequest, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { CredentialVault, EncryptedEnvelope } from './credential-vault.js';
+import { JsonFileRecords } from './session-store.js';
+
+const AUTHORIZATION_REQUEST_TTL = 10 * 60 * 1000; // Time allowed on the consent page
+const AUTHORIZATION_CODE_TTL = 60 * 1000;
+const ACCESS_TOKEN_TTL = 60 * 60; // Seconds
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // Seconds; each refresh issues a new one
+
+// Authorization request waiting for the user on the consent page
+export interface PendingAuthorization {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  sessionId: string;
+  codeChallenge: string;
+  redirectUri: string;
+  scopes: string[];
+  resource?: string;
+  expiresAt: number;
+}
+
+// Token payloads are sealed with the credential vault, so tokens are opaque to clients
+// and can be verified after a restart without keeping a token table
+interface AccessTokenPayload {
+  typ: 'access';
+  sid: string;
+  cid: string;
+  scopes: string[];
+  exp: number; // Seconds since epoch
+  resource?: string;
+}
+
+interface RefreshTokenPayload {
+  typ: 'refresh';
+  sid: string;
+  cid: string;
+  scopes: string[];
+  gen: number;
+  exp: number; // Seconds since epoch
+  resource?: string;
+}
+
+// Session-side operations the provider needs; implemented by the server on top of the session store
+export interface OAuthGrantBackend {
+  isGrantActive(sessionId: string, clientId: string): Promise<boolean>;
+  // Consume the refresh token generation; returns the next generation, or undefined if it was already used
+  advanceRefreshGeneration(sessionId: string, clientId: string, generation: number): Promise<number | undefined>;
+  revokeGrant(sessionId: string): Promise<void>;
+}
+
+// Dynamically registered clients, persisted next to the session store when one is on disk
+export class OAuthClientsStore implements OAuthRegisteredClientsStore {
+  private clients = new Map<string, OAuthClientInformationFull>();
+
+  constructor(private records?: JsonFileRecords<OAuthClientInformationFull>) {}
+
+  // Persist registrations unless sessions are memory-only (SESSION_STORE=memory or no encryption key)
+  static create(persist: boolean): OAuthClientsStore {
+    if (!persist) {
+      return new OAuthClientsStore();
+    }
+
+    const filePath = process.env.OAUTH_CLIENTS_PATH ||
+      path.join(path.dirname(process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json')), 'oauth-clients.json');
+    return new OAuthClientsStore(new JsonFileRecords<OAuthClientInformationFull>(filePath, 'clients', client => client.client_id));
+  }
+
+  async getClient(clientId: string): Promise<OAuthClientInformationFull | undefined> {
+    return this.records ? this.records.get(clientId) : this.clients.get(clientId);
+  }
+
+  async registerClient(client: OAuthClientInformationFull): Promise<OAuthClientInformationFull> {
+    if (this.records) {
+      await this.records.set(client);
+    } else {
+      this.clients.set(client.client_id, client);
+    }
+    console.log(`Registered OAuth client ${client.client_id} (${client.client_name || 'unnamed'})`);
+    return client;
+  }
+}
+
+// OAuth 2.1 authorization server for the MCP endpoint. Authorization requests are parked until
+// the user enters their Printify key on the consent page; approving one creates a regular
+// encrypted session that the issued tokens point to, so revoking the session revokes the tokens.
+export class PrintifyOAuthProvider implements OAuthServerProvider {
+  private pending = new Map<string, PendingAuthorization>();
+  private codes = new Map<string, AuthorizationCode>();
+
+  constructor(
+    readonly clientsStore: OAuthClientsStore,
+    private vault: CredentialVault,
+    private backend: OAuthGrantBackend,
+    private consentPath: string = '/oauth/consent'
+  ) {}
+
+  async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: Response): Promise<void> {
+    this.pruneExpired();
+
+    const requestId = crypto.randomBytes(16).toString('hex');
+    this.pending.set(requestId, { client, params, expiresAt: Date.now() + AUTHORIZATION_REQUEST_TTL });
+
+    res.redirect(302, `${this.consentPath}?request=${requestId}`);
+  }
+
+  getPendingAuthorization(requestId: string): PendingAuthorization | undefined {
+    const request = this.pending.get(requestId);
+    if (!request || request.expiresAt < Date.now()) {
+      this.pending.delete(requestId);
+      return undefined;
+    }
+    return request;
+  }
+
+  // Complete a consented request for the session created from the user's credentials, with
+  // the scopes the user granted. Returns the client redirect URL carrying the authorization code.
+  approveAuthorization(requestId: string, sessionId: string, scopes: string[]): string {
+    const request = this.getPendingAuthorization(requestId);
+    if (!request) {
+      throw new Error('Authorization request not found or expired. Please start the connection again from your MCP client.');
+    }
+    this.pending.delete(requestId);
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    this.codes.set(code, {
+      clientId: request.client.client_id,
+      sessionId,
+      codeChallenge: request.params.codeChallenge,
+      redirectUri: request.params.redirectUri,
+      scopes,
+      resource: request.params.resource?.href,
+      expiresAt: Date.now() + AUTHORIZATION_CODE_TTL
+    });
+
+    return this.redirectUrl(request.params, { code });
+  }
+
+  denyAuthorization(requestId: string): string {
+    const request = this.getPendingAuthorization(requestId);
+    if (!request) {
+      throw new Error('Authorization request not found or expired.');
+    }
+    this.pending.delete(requestId);
+
+    return this.redirectUrl(request.params, {
+      error: 'access_denied',
+      error_description: 'The user denied access to their Printify account'
+    });
+  }
+
+  async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<string> {
+    return this.findCode(client, authorizationCode).codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string,
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const code = this.findCode(client, authorizationCode);
+    this.codes.delete(authorizationCode);
+
+    if (redirectUri && redirectUri !== code.redirectUri) {
+      throw new InvalidGrantError('redirect_uri does not match the authorization request');
+    }
+    if (resource && code.resource && resource.href !== code.resource) {
+      throw new InvalidGrantError('resource does not match the authorization request');
+    }
+
+    return this.issueTokens(code.sessionId, client.client_id, code.scopes, 0, code.resource);
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const payload = this.openToken<RefreshTokenPayload>(refreshToken);
+    if (!payload || payload.typ !== 'refresh' || payload.cid !== client.client_id) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+    // Tokens issued before refresh tokens expired have no exp and are rejected too
+    if (!payload.exp || payload.exp * 1000 < Date.now()) {
+      throw new InvalidGrantError('Refresh token has expired');
+    }
+
+    // A grant without scopes is full access, so any scope may be asked for; /mcp still limits
+    // the token to what the session allows
+    const requestedScopes = scopes && scopes.length > 0 ? scopes : payload.scopes;
+    const unknownScope = payload.scopes.length > 0 && requestedScopes.find(scope => !payload.scopes.includes(scope));
+    if (unknownScope) {
+      throw new InvalidScopeError(`Scope ${unknownScope} was not granted`);
+    }
+
+    const generation = await this.backend.advanceRefreshGeneration(payload.sid, payload.cid, payload.gen);
+    if (generation === undefined) {
+      throw new InvalidGrantError('Refresh token has been used, revoked or expired');
+    }
+
+    return this.issueTokens(payload.sid, client.client_id, requestedScopes, generation, resource?.href ?? payload.resource);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const payload = this.openToken<AccessTokenPayload>(token);
+    if (!payload || payload.typ !== 'access') {
+      throw new InvalidTokenError('Invalid access token');
+    }
+    if (payload.exp * 1000 < Date.now()) {
+      throw new InvalidTokenError('Access token has expired');
+    }
+    if (!(await this.backend.isGrantActive(payload.sid, payload.cid))) {
+      throw new InvalidTokenError('Access token has been revoked');
+    }
+
+    return {
+      token,
+      clientId: payload.cid,
+      scopes: payload.scopes,
+      expiresAt: payload.exp,
+      resource: payload.resource ? new URL(payload.resource) : undefined,
+      extra: { sessionId: payload.sid }
+    };
+  }
+
+  // Revoking either token ends the whole grant, like disconnecting the client
+  async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
+    const payload = this.openToken<AccessTokenPayload | RefreshTokenPayload>(request.token);
+    if (!payload || payload.cid !== client.client_id) {
+      return;
+    }
+
+    await this.backend.revokeGrant(payload.sid);
+    console.log(`Revoked OAuth grant for client ${client.client_id}`);
+  }
+
+  private issueTokens(sessionId: string, clientId: string, scopes: string[], generation: number, resource?: string): OAuthTokens {
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + ACCESS_TOKEN_TTL;
+
+    return {
+      access_token: this.sealToken<AccessTokenPayload>({ typ: 'access', sid: sessionId, cid: clientId, scopes, exp, resource }),
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      refresh_token: this.sealToken<RefreshTokenPayload>({
+        typ: 'refresh',
+        sid: sessionId,
+        cid: clientId,
+        scopes,
+        gen: generation,
+        exp: now + REFRESH_TOKEN_TTL,
+        resource
+      }),
+      scope: scopes.length > 0 ? scopes.join(' ') : undefined
+    };
+  }
+
+  private findCode(client: OAuthClientInformationFull, authorizationCode: string): AuthorizationCode {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.expiresAt < Date.now()) {
+      this.codes.delete(authorizationCode);
+      throw new InvalidGrantError('Invalid or expired authorization code');
+    }
+    if (code.clientId !== client.client_id) {
+      throw new InvalidGrantError('Authorization code was not issued to this client');
+    }
+    return code;
+  }
+
+  private sealToken<T>(payload: T): string {
+    return Buffer.from(JSON.stringify(this.vault.seal(payload)), 'utf8').toString('base64url');
+  }
+
+  private openToken<T>(token: string): T | undefined {
+    try {
+      const envelope = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as EncryptedEnvelope;
+      return this.vault.open<T>(envelope);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private redirectUrl(params: AuthorizationParams, values: Record<string, string>): string {
+    const url = new URL(params.redirectUri);
+    Object.entries(values).forEach(([key, value]) => url.searchParams.set(key, value));
+    if (params.state) {
+      url.searchParams.set('state', params.state);
+    }
+    return url.href;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, request] of this.pending.entries()) {
+      if (request.expiresAt < now) this.pending.delete(id);
+    }
+    for (const [code, entry] of this.codes.entries()) {
+      if (entry.expiresAt < now) this.codes.delete(code);
+    }
+  }
+}
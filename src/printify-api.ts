@@ -1,5 +1,25 @@
-import fetch from 'node-fetch';
 import { promises as fs } from 'fs';
+import { blueprintMatchesProduct, deriveBlueprintTags } from './catalog-index.js';
+import { fingerprintSecret } from './credential-vault.js';
+import {
+  authMiddleware,
+  cacheMiddleware,
+  createHttpClient,
+  FetchLike,
+  HttpHandler,
+  HttpMetrics,
+  HttpMiddleware,
+  HttpRequest,
+  HttpResponse,
+  HttpTimeoutError,
+  isNetworkError,
+  loggingMiddleware,
+  metricsMiddleware,
+  retryMiddleware,
+  RetryPolicy,
+  timeoutMiddleware
+} from './http-client.js';
+import { printifyScheduler, rateLimitMiddleware, RequestScheduler } from './request-scheduler.js';
 
 // Error codes for better error handling
 export enum PrintifyErrorCode {
@@ -27,33 +47,112 @@ export class PrintifyError extends Error {
   }
 }
 
+// Field names from Printify validation errors, as users know them
+const FIELD_DISPLAY_NAMES: Record<string, string> = {
+  'title': 'Product Title',
+  'description': 'Description',
+  'blueprint_id': 'Blueprint ID',
+  'print_provider_id': 'Print Provider ID',
+  'variants': 'Variants',
+  'print_areas': 'Print Areas',
+  'print_areas.0.placeholders.0.images.0.id': 'Image ID'
+};
+
+// Turn a failed Printify response into a PrintifyError with a helpful recovery message
+function toPrintifyError(response: HttpResponse, endpoint: string): PrintifyError {
+  const errorText = response.body;
+  let errorMessage = `Printify API error: ${response.status}`;
+
+  // Parse error details if possible
+  let errorDetails = null;
+  try {
+    const errorJson = JSON.parse(errorText);
+
+    // Handle various error response formats
+    if (errorJson.error) {
+      errorMessage = errorJson.error;
+      errorDetails = errorJson;
+    } else if (errorJson.message) {
+      errorMessage = errorJson.message;
+      errorDetails = errorJson;
+    } else if (errorJson.errors) {
+      // Handle validation errors with field-specific details
+      errorMessage = 'Validation failed';
+      const fieldErrors = Object.entries(errorJson.errors)
+        .map(([field, errors]: [string, any]) => {
+          const errorList = Array.isArray(errors) ? errors : [errors];
+          return `  ${FIELD_DISPLAY_NAMES[field] || field}: ${errorList.join(', ')}`;
+        })
+        .join('\n');
+      errorMessage += '\n\nField errors:\n' + fieldErrors;
+      errorDetails = errorJson;
+    } else {
+      // If we have any other structure, include it
+      errorMessage += '\n\nDetails: ' + JSON.stringify(errorJson, null, 2);
+      errorDetails = errorJson;
+    }
+  } catch {
+    errorMessage += ` - ${errorText}`;
+  }
+
+  // Map status codes to error codes with helpful recovery messages
+  let errorCode = PrintifyErrorCode.UNKNOWN_ERROR;
+  if (response.status === 401) {
+    errorCode = PrintifyErrorCode.AUTH_FAILED;
+    errorMessage += '\n\nTo fix:\n1. Check your Printify API key is valid\n2. Ensure the key is active in your account\n3. Try generating a new API key at printify.com';
+  } else if (response.status === 429) {
+    errorCode = PrintifyErrorCode.RATE_LIMIT;
+    errorMessage += '\n\nTo fix:\n1. Wait 60 seconds before retrying\n2. Reduce the number of requests\n3. Use smaller page limits for list operations';
+  } else if (response.status === 404) {
+    errorCode = PrintifyErrorCode.NOT_FOUND;
+    errorMessage += '\n\nTo fix:\n1. Verify the ID exists (use list operations)\n2. Check you\'re using the correct shop\n3. Ensure the resource wasn\'t deleted';
+  } else if (response.status === 400 || response.status === 422) {
+    errorCode = PrintifyErrorCode.VALIDATION_ERROR;
+    // Don't append generic fix if we already have specific field errors
+    if (!errorMessage.includes('Field errors:')) {
+      errorMessage += '\n\nTo fix:\n1. Check all required fields are provided\n2. Verify data types (numbers vs strings)\n3. Use example values from tool descriptions';
+    }
+  } else if (response.status >= 500) {
+    errorCode = PrintifyErrorCode.SERVER_ERROR;
+    errorMessage += '\n\nTo fix:\n1. Wait a few minutes and retry\n2. Check Printify status page\n3. Try a simpler request to test connectivity';
+  }
+
+  return new PrintifyError(errorMessage, errorCode, response.status, { endpoint, errorText, errorDetails });
+}
+
+// Per-call overrides for a Printify request
+export interface PrintifyRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number; // Default 30s, 60s for catalog requests
+  retries?: number; // Default 3
+  idempotent?: boolean; // Retry a write after timeouts and server errors too, not only after 429s
+  cacheTtl?: number; // Reuse a successful GET response for this long
+}
+
+// How a PrintifyAPI talks to Printify. Everything is optional; the defaults call the live API.
+export interface PrintifyClientOptions {
+  fetch?: FetchLike;
+  baseUrl?: string;
+  catalogV2Url?: string;
+  scheduler?: RequestScheduler;
+  retryPolicy?: RetryPolicy;
+  middleware?: HttpMiddleware[]; // Extra layers, run after rate limiting and before the timeout
+}
+
+// Counts every request any PrintifyAPI sends, for /metrics
+export const printifyHttpMetrics = new HttpMetrics();
+
 export interface PrintifyShop {
   id: string;
   title: string;
   sales_channel: string;
 }
 
-// Blueprint categories for searching
-export const BLUEPRINT_CATEGORIES = {
-  apparel: {
-    tshirt: [5, 6, 12, 384, 921], // Various t-shirt blueprints (6 is Gildan 64000 T-Shirt)
-    hoodie: [77, 380], // 77 is Gildan 18500 Hoodie
-    tanktop: [17, 387],
-    longsleeve: [245, 378]
-  },
-  accessories: {
-    mug: [265, 635, 1041],
-    totebag: [634, 821],
-    phonecase: [269, 555],
-    sticker: [1037, 1201]
-  },
-  home: {
-    poster: [520, 521],
-    canvas: [446, 1158],
-    blanket: [647, 961],
-    pillow: [560, 1052]
-  }
-} as const;
+// Catalog crawl for the blueprint search index; the request scheduler paces the pages
+const CATALOG_CRAWL_PAGE_SIZE = 100;
+const CATALOG_CRAWL_MAX_PAGES = 50;
 
 export interface PrintifyProduct {
   id: string;
@@ -72,6 +171,65 @@ export interface PrintifyProduct {
   shop_id: number;
   sales_channel_properties: any;
   print_areas?: any[];
+  print_details?: { print_on_side?: string };
+  is_locked?: boolean;
+  external?: { id: string; handle?: string };
+}
+
+// One layer of a placeholder, bottom first: an uploaded image, or text that Printify renders
+export interface PrintifyLayerInput {
+  imageId?: string;
+  text?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  fontColor?: string; // Hex, e.g. #000000
+  x?: number;
+  y?: number;
+  scale?: number;
+  angle?: number;
+}
+
+// A design shared by a group of variants, with any number of positions (front, back,
+// sleeves, neck label...). Each variant can belong to only one print area.
+export interface PrintifyPrintAreaInput {
+  variantIds?: number[]; // Variants no other print area lists when omitted
+  placeholders: { position: string; images: PrintifyLayerInput[] }[];
+}
+
+// Changes for PrintifyAPI.updateProduct. Anything left out keeps its current value.
+export interface PrintifyProductUpdate {
+  title?: string;
+  description?: string;
+  tags?: string[]; // Replaces the tag list
+  variants?: { variantId: number; price?: number; isEnabled?: boolean }[]; // Merged by variant ID
+  printAreas?: PrintifyPrintAreaUpdate[];
+  images?: { src: string; isDefault?: boolean; isSelectedForPublishing?: boolean }[]; // Mockups, merged by src
+  printDetails?: { printOnSide?: 'regular' | 'mirror' | 'off' };
+}
+
+// Overrides for PrintifyAPI.duplicateProduct and copyProductToShop
+export interface PrintifyProductCopyOptions {
+  title?: string;
+  price?: number; // Cents, applied to every variant
+}
+
+export interface PrintifyProductCopy {
+  product: PrintifyProduct;
+  shopId: string;
+  droppedVariants: { id: number; title: string }[]; // No longer offered by the print provider
+}
+
+// Placeholders are merged by position into the print areas covering variantIds (all variants
+// when omitted). An empty images list removes the position's design.
+export interface PrintifyPrintAreaUpdate {
+  variantIds?: number[];
+  placeholders: {
+    position: string;
+    // Fields left out keep the value of the image at the same index, so artwork can be moved
+    // without repeating its ID
+    images: { imageId?: string; x?: number; y?: number; scale?: number; angle?: number }[];
+  }[];
 }
 
 export interface PrintifyImage {
@@ -85,6 +243,246 @@ export interface PrintifyImage {
   upload_time: string;
 }
 
+// Uploads gathered across pages by PrintifyAPI.searchUploads
+export interface PrintifyUploadSearch {
+  uploads: PrintifyImage[];
+  total: number; // Uploads in the library, matching or not
+  pagesScanned: number;
+  truncated: boolean; // The library has pages that weren't searched
+}
+
+export const ORDER_STATUSES = [
+  'pending',
+  'on-hold',
+  'payment-not-received',
+  'sending-to-production',
+  'in-production',
+  'partially-fulfilled',
+  'fulfilled',
+  'canceled',
+  'had-issues'
+] as const;
+
+export type PrintifyOrderStatus = typeof ORDER_STATUSES[number];
+
+export interface PrintifyAddress {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  country?: string;
+  region?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  zip?: string;
+  company?: string;
+}
+
+export interface PrintifyOrderLineItem {
+  product_id: string;
+  variant_id: number;
+  quantity: number;
+  print_provider_id: number;
+  cost: number; // Cents
+  shipping_cost: number; // Cents
+  status: string;
+  metadata?: {
+    title?: string;
+    price?: number;
+    variant_label?: string;
+    sku?: string;
+    country?: string;
+  };
+  sent_to_production_at?: string;
+  fulfilled_at?: string;
+}
+
+export interface PrintifyShipment {
+  carrier: string;
+  number: string;
+  url?: string;
+  delivered_at?: string | null;
+}
+
+export interface PrintifyOrder {
+  id: string;
+  status: PrintifyOrderStatus | string;
+  address_to: PrintifyAddress;
+  line_items: PrintifyOrderLineItem[];
+  metadata?: {
+    order_type?: string;
+    shop_order_id?: string | number;
+    shop_order_label?: string;
+    shop_fulfilled_at?: string;
+  };
+  total_price: number; // Cents
+  total_shipping: number; // Cents
+  total_tax: number; // Cents
+  shipping_method: number;
+  is_printify_express?: boolean;
+  is_economy_shipping?: boolean;
+  shipments?: PrintifyShipment[];
+  created_at: string;
+  sent_to_production_at?: string;
+  fulfilled_at?: string;
+}
+
+export interface PrintifyOrderFilters {
+  status?: PrintifyOrderStatus;
+  sku?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+// Shipping speeds accepted by create-order, mapped to Printify's shipping_method codes
+export const SHIPPING_METHODS = {
+  standard: 1,
+  priority: 2,
+  express: 3,
+  economy: 4
+} as const;
+
+export type PrintifyShippingMethod = keyof typeof SHIPPING_METHODS;
+
+// A line item for a new order: an existing product variant, or a blueprint variant
+// printed with the given images (print_areas maps a position such as "front" to an image URL)
+export interface PrintifyOrderLineItemRequest {
+  product_id?: string;
+  blueprint_id?: number;
+  print_provider_id?: number;
+  variant_id: number;
+  print_areas?: Record<string, string>;
+  quantity: number;
+}
+
+export interface PrintifyOrderRequest {
+  external_id: string;
+  label?: string;
+  line_items: PrintifyOrderLineItemRequest[];
+  shipping_method: number;
+  is_printify_express?: boolean;
+  is_economy_shipping?: boolean;
+  send_shipping_notification: boolean;
+  address_to: PrintifyAddress;
+}
+
+// Shipping quotes in cents, keyed by speed; speeds the items can't ship with are absent
+export interface PrintifyShippingQuote {
+  standard?: number;
+  priority?: number;
+  express?: number;
+  printify_express?: number;
+  economy?: number;
+}
+
+// One row of the v2 catalog shipping table: the cost of shipping a variant to a country
+export interface PrintifyShippingRate {
+  method: PrintifyShippingMethod;
+  country: string; // ISO code, or REST_OF_THE_WORLD
+  variantId: number;
+  firstItem: number; // Cents
+  additionalItems: number; // Cents, for each further item in the same order
+  currency: string;
+  handlingTime?: { from: number; to: number }; // Business days
+}
+
+export interface PrintifyProviderLocation {
+  address1?: string;
+  address2?: string;
+  city?: string;
+  region?: string;
+  zip?: string;
+  country?: string; // ISO code
+}
+
+export interface PrintifyPrintProvider {
+  id: number;
+  title: string;
+  location?: PrintifyProviderLocation;
+  blueprints?: { id: number; title: string; brand?: string; model?: string }[]; // Only in provider details
+}
+
+// A provider from findPrintProviders, with its blueprints for each requested product
+export interface PrintifyProviderMatch {
+  provider: PrintifyPrintProvider;
+  offers: { product: string; blueprints: { id: number; title: string }[] }[];
+}
+
+// What one provider offers for a blueprint, from PrintifyAPI.compareProviders
+export interface PrintifyProviderOffer {
+  provider: PrintifyPrintProvider;
+  variants: number;
+  cost?: { min: number; max: number }; // Cents, when the catalog reports variant costs
+  colors: string[];
+  sizes: string[];
+  shipping: { country: string; firstItem?: { min: number; max: number }; currency?: string }[]; // Standard speed
+  error?: string; // Set when the provider's variants could not be read
+}
+
+// Rates for one speed and destination, as ranges across the selected variants
+export interface PrintifyShippingSummary {
+  method: PrintifyShippingMethod;
+  country: string; // The rates' country; REST_OF_THE_WORLD when the destination has no rates of its own
+  firstItem: { min: number; max: number };
+  additionalItems: { min: number; max: number };
+  currency: string;
+  handlingTime?: { from: number; to: number };
+  variants: number;
+}
+
+// Shop events Printify can deliver to a webhook
+export const WEBHOOK_TOPICS = [
+  'order:created',
+  'order:updated',
+  'order:sent-to-production',
+  'order:shipment:created',
+  'order:shipment:delivered',
+  'product:deleted',
+  'product:publish:started',
+  'shop:disconnected'
+] as const;
+
+export type PrintifyWebhookTopic = typeof WEBHOOK_TOPICS[number];
+
+export interface PrintifyWebhook {
+  id: string;
+  topic: PrintifyWebhookTopic | string;
+  url: string;
+  shop_id: string | number;
+}
+
+// Orders gathered across pages by PrintifyAPI.searchOrders
+export interface PrintifyOrderSearch {
+  orders: PrintifyOrder[];
+  total: number; // Orders in the shop matching the status/SKU filters
+  pagesScanned: number;
+  truncated: boolean; // More matching orders exist beyond maxResults or the page limit
+}
+
+// Defaults center the layer at its natural size
+function toPrintifyLayer(layer: PrintifyLayerInput): any {
+  const placement = {
+    x: layer.x ?? 0.5,
+    y: layer.y ?? 0.5,
+    scale: layer.scale ?? 1.0,
+    angle: layer.angle ?? 0
+  };
+
+  if (layer.text) {
+    return {
+      type: 'text',
+      input_text: layer.text,
+      font_family: layer.fontFamily || 'Roboto',
+      font_size: layer.fontSize ?? 24,
+      font_weight: layer.fontWeight ?? 400,
+      font_color: layer.fontColor || '#000000',
+      ...placement
+    };
+  }
+  return { id: layer.imageId, ...placement };
+}
+
 // Simple cache for blueprint data
 interface CacheEntry<T> {
   data: T;
@@ -181,7 +579,7 @@ export class ResponseFormatter {
     providers.forEach((provider, index) => {
       const isRecommended = index === 0; // First provider is usually recommended
       output += `${isRecommended ? '⭐ ' : '• '}Provider ${provider.id}: ${provider.title || 'Unnamed'}\n`;
-      if (provider.location) output += `  📍 Location: ${provider.location}\n`;
+      if (provider.location) output += `  📍 Location: ${ResponseFormatter.formatProviderLocation(provider.location)}\n`;
       output += `\n`;
     });
 
@@ -192,6 +590,93 @@ export class ResponseFormatter {
     return output;
   }
 
+  // Catalog locations are address objects; older responses used a plain string
+  static formatProviderLocation(location: PrintifyProviderLocation | string | undefined): string {
+    if (!location) return 'Unknown';
+    if (typeof location === 'string') return location;
+    return [location.city, location.region, location.country].filter(Boolean).join(', ') || 'Unknown';
+  }
+
+  static formatPrintProviderDirectory(matches: PrintifyProviderMatch[], filters: { country?: string; makes?: string[] }): string {
+    let output = `🖨️ Print Providers\n`;
+    output += `══════════════════\n\n`;
+    if (filters.country) output += `📍 Located in: ${filters.country.toUpperCase()}\n`;
+    if (filters.makes?.length) output += `🏷️ Making: ${filters.makes.join(' and ')}\n`;
+    output += `📊 Found: ${matches.length} provider${matches.length !== 1 ? 's' : ''}\n\n`;
+
+    if (matches.length === 0) {
+      output += `💡 Try these alternatives:\n`;
+      output += `• Drop one of the products, or look for them with separate searches\n`;
+      output += `• Use a neighbouring country, e.g. CA or MX for US shipping\n`;
+      return output;
+    }
+
+    matches.forEach(({ provider, offers }) => {
+      output += `• Provider ${provider.id}: ${provider.title}\n`;
+      output += `  📍 ${ResponseFormatter.formatProviderLocation(provider.location)}\n`;
+      offers.forEach(offer => {
+        const examples = offer.blueprints.slice(0, 3).map(blueprint => `${blueprint.title} (${blueprint.id})`).join(', ');
+        const more = offer.blueprints.length > 3 ? ` +${offer.blueprints.length - 3} more` : '';
+        output += `  🏷️ ${offer.product}: ${examples}${more}\n`;
+      });
+      output += `\n`;
+    });
+
+    output += `💡 Next Steps:\n`;
+    output += `• Use get-print-provider {id} to see everything a provider makes\n`;
+    output += `• Use get-variants {blueprintId} {providerId} to check sizes and colors\n`;
+    return output;
+  }
+
+  static formatPrintProvider(
+    provider: PrintifyPrintProvider,
+    product?: string,
+    shipping?: { blueprintId: string; countries: string[]; worldwide: boolean }
+  ): string {
+    const blueprints = (provider.blueprints || [])
+      .filter(blueprint => !product || blueprintMatchesProduct(blueprint, product));
+
+    let output = `🖨️ Print Provider ${provider.id}: ${provider.title}\n`;
+    output += `══════════════════════════════════════════\n\n`;
+    output += `📍 Location: ${ResponseFormatter.formatProviderLocation(provider.location)}\n`;
+    output += `📦 Blueprints: ${blueprints.length}${product ? ` matching "${product}" of ${provider.blueprints?.length || 0}` : ''}\n\n`;
+
+    if (product) {
+      blueprints.slice(0, 50).forEach(blueprint => {
+        output += `• ${blueprint.title} (ID: ${blueprint.id})${blueprint.brand ? ` - ${blueprint.brand} ${blueprint.model || ''}`.trimEnd() : ''}\n`;
+      });
+      if (blueprints.length > 50) output += `• ... and ${blueprints.length - 50} more\n`;
+      output += `\n`;
+    } else {
+      // Whole catalogs run to hundreds of blueprints, so they are summarized by product type
+      const byType = new Map<string, { id: number; title: string }[]>();
+      blueprints.forEach(blueprint => {
+        const type = deriveBlueprintTags(blueprint.title, '').type || 'other';
+        byType.set(type, [...(byType.get(type) || []), blueprint]);
+      });
+      Array.from(byType.entries())
+        .sort((a, b) => b[1].length - a[1].length)
+        .forEach(([type, items]) => {
+          const examples = items.slice(0, 3).map(blueprint => `${blueprint.title} (${blueprint.id})`).join(', ');
+          output += `• ${type} (${items.length}): ${examples}${items.length > 3 ? ', ...' : ''}\n`;
+        });
+      output += `\n`;
+    }
+
+    if (shipping) {
+      output += `🚚 Ships blueprint ${shipping.blueprintId} to: `;
+      output += shipping.worldwide
+        ? `worldwide${shipping.countries.length > 0 ? ` (own rates for ${shipping.countries.join(', ')})` : ''}\n\n`
+        : `${shipping.countries.join(', ') || 'no countries listed'}\n\n`;
+    }
+
+    output += `💡 Next Steps:\n`;
+    if (!product) output += `• Add product='hoodie' (or any type) to list every matching blueprint\n`;
+    if (!shipping) output += `• Add blueprintId to see the countries this provider ships that blueprint to\n`;
+    output += `• Use get-variants {blueprintId} ${provider.id} to check sizes and colors\n`;
+    return output;
+  }
+
   // Format variants in a compact way
   static formatVariants(variants: any[], blueprintId: string, printProviderId: string): string {
     if (!variants || variants.length === 0) {
@@ -262,6 +747,27 @@ export class ResponseFormatter {
       output += `• Use validate-variants to check specific color/size combinations\n\n`;
     }
 
+    // Print positions differ between blueprints and sometimes between variants
+    const positions = new Map<string, { width: number; height: number; variants: number }>();
+    variants.forEach(variant => {
+      (variant.placeholders || []).forEach((placeholder: any) => {
+        const known = positions.get(placeholder.position);
+        positions.set(placeholder.position, {
+          width: placeholder.width,
+          height: placeholder.height,
+          variants: (known?.variants || 0) + 1
+        });
+      });
+    });
+    if (positions.size > 0) {
+      output += `📐 Print positions:\n`;
+      positions.forEach((info, position) => {
+        const coverage = info.variants < variants.length ? ` (${info.variants} of ${variants.length} variants)` : '';
+        output += `• ${position}: ${info.width} × ${info.height} px${coverage}\n`;
+      });
+      output += `\n`;
+    }
+
     output += `💡 Next Steps:\n`;
     output += `• Use these variant IDs in create-product variants array\n`;
     output += `• Use calculate-pricing to determine selling prices\n`;
@@ -294,6 +800,279 @@ export class ResponseFormatter {
     return output;
   }
 
+  // Format a page of the media library, or the uploads matching a file name search
+  static formatUploadsList(uploads: PrintifyImage[], summary: string, hints: string[] = []): string {
+    let output = `🖼️ Uploads\n`;
+    output += `═══════════════\n\n`;
+
+    if (uploads.length === 0) {
+      output += `❌ No uploads found\n\n`;
+      output += `💡 Add one with upload-image\n`;
+      return output;
+    }
+
+    uploads.forEach((upload, index) => {
+      output += `${index + 1}. ${upload.file_name}\n`;
+      output += `   🆔 ID: ${upload.id}\n`;
+      output += `   📐 ${upload.width} × ${upload.height} px | ${upload.mime_type}\n`;
+      output += `   📅 Uploaded: ${upload.upload_time}\n`;
+      output += `\n`;
+    });
+
+    output += `📊 ${summary}\n`;
+    hints.forEach(hint => {
+      output += `${hint}\n`;
+    });
+
+    output += `\n💡 Actions:\n`;
+    output += `• Details and preview: get-upload {image_id}\n`;
+    output += `• Use in a product: imageId, or imageFileName in create-product-simple and create-product print areas\n`;
+
+    return output;
+  }
+
+  // Printify locks a product while a publish is in flight, until the sales channel reports back
+  static formatPublishingStatus(product: any): string {
+    if (product.is_locked) {
+      return '⏳ Publishing (locked until the sales channel reports success or failure)';
+    }
+    if (product.external?.id) {
+      const handle = product.external.handle ? `, ${product.external.handle}` : '';
+      return `✅ Published (external ID ${product.external.id}${handle})`;
+    }
+    return product.visible ? '👁️ Visible, not linked to a sales channel listing' : '📝 Not published';
+  }
+
+  static formatMoney(cents: number | undefined): string {
+    return `$${((cents || 0) / 100).toFixed(2)}`;
+  }
+
+  // City/region/country only; street, email and phone stay out of the conversation
+  static formatAddressSummary(address?: PrintifyAddress): string {
+    if (!address) return 'No address';
+    const name = [address.first_name, address.last_name].filter(Boolean).join(' ');
+    const place = [address.city, address.region, address.zip, address.country].filter(Boolean).join(', ');
+    return [name, place].filter(Boolean).join(' - ') || 'No address';
+  }
+
+  // Format orders found by searchOrders
+  static formatOrdersList(search: PrintifyOrderSearch, filters: PrintifyOrderFilters = {}): string {
+    let output = `🧾 Orders\n`;
+    output += `═══════════════\n\n`;
+
+    const applied = [
+      filters.status && `status ${filters.status}`,
+      filters.sku && `SKU ${filters.sku}`,
+      filters.createdAfter && `after ${filters.createdAfter.toISOString().slice(0, 10)}`,
+      filters.createdBefore && `before ${filters.createdBefore.toISOString().slice(0, 10)}`
+    ].filter(Boolean);
+    if (applied.length > 0) {
+      output += `🔍 Filters: ${applied.join(', ')}\n\n`;
+    }
+
+    if (search.orders.length === 0) {
+      output += `❌ No orders found\n\n`;
+      output += `💡 Tips:\n`;
+      output += `• Widen the date range or remove filters\n`;
+      output += `• Check you're using the correct shop (list-shops)\n`;
+      return output;
+    }
+
+    search.orders.forEach((order, index) => {
+      const items = order.line_items?.reduce((sum, item) => sum + (item.quantity || 0), 0) || 0;
+      const tracking = order.shipments?.map(shipment => `${shipment.carrier} ${shipment.number}`).join(', ');
+      output += `${index + 1}. Order ${order.metadata?.shop_order_label || order.id}\n`;
+      output += `   🆔 ID: ${order.id}\n`;
+      output += `   📅 Created: ${order.created_at}\n`;
+      output += `   📌 Status: ${order.status}\n`;
+      output += `   📦 Items: ${items}\n`;
+      output += `   💰 Total: ${this.formatMoney(order.total_price + order.total_shipping + order.total_tax)}\n`;
+      output += `   📍 Ship to: ${this.formatAddressSummary(order.address_to)}\n`;
+      if (tracking) output += `   🚚 Tracking: ${tracking}\n`;
+      output += `\n`;
+    });
+
+    output += `📊 Showing ${search.orders.length} order(s)`;
+    output += search.total ? ` of ${search.total} matching in Printify` : '';
+    output += ` (${search.pagesScanned} page(s) scanned)\n`;
+    if (search.truncated) {
+      output += `⚠️ More orders match - raise maxResults or narrow the date range\n`;
+    }
+
+    output += `\n💡 Next Steps:\n`;
+    output += `• Use get-order {order_id} for line items, costs and tracking\n`;
+
+    return output;
+  }
+
+  // Format a single order with line items, costs, fulfillment and tracking
+  static formatOrderDetails(order: PrintifyOrder): string {
+    let output = `🧾 Order ${order.metadata?.shop_order_label || order.id}\n`;
+    output += `═══════════════════════════\n\n`;
+    output += `🆔 ID: ${order.id}\n`;
+    if (order.metadata?.shop_order_id) output += `🏪 Shop Order: ${order.metadata.shop_order_id}\n`;
+    output += `📌 Status: ${order.status}\n`;
+    output += `📅 Created: ${order.created_at}\n`;
+    if (order.sent_to_production_at) output += `🏭 Sent to production: ${order.sent_to_production_at}\n`;
+    if (order.fulfilled_at) output += `✅ Fulfilled: ${order.fulfilled_at}\n`;
+    output += `📍 Ship to: ${this.formatAddressSummary(order.address_to)}\n`;
+    output += `🚚 Shipping: ${order.is_printify_express ? 'Printify Express' : order.is_economy_shipping ? 'Economy' : `Method ${order.shipping_method}`}\n\n`;
+
+    output += `📦 Line Items:\n`;
+    (order.line_items || []).forEach((item, index) => {
+      output += `${index + 1}. ${item.metadata?.title || `Product ${item.product_id}`}`;
+      output += item.metadata?.variant_label ? ` (${item.metadata.variant_label})\n` : `\n`;
+      output += `   Qty: ${item.quantity} | SKU: ${item.metadata?.sku || 'N/A'} | Status: ${item.status}\n`;
+      output += `   Cost: ${this.formatMoney(item.cost)} | Shipping: ${this.formatMoney(item.shipping_cost)}`;
+      output += item.metadata?.price !== undefined ? ` | Retail: ${this.formatMoney(item.metadata.price)}\n` : `\n`;
+      output += `   Product: ${item.product_id} | Variant: ${item.variant_id}\n`;
+      if (item.fulfilled_at) output += `   Fulfilled: ${item.fulfilled_at}\n`;
+    });
+
+    output += `\n💰 Costs:\n`;
+    output += `• Items: ${this.formatMoney(order.total_price)}\n`;
+    output += `• Shipping: ${this.formatMoney(order.total_shipping)}\n`;
+    output += `• Tax: ${this.formatMoney(order.total_tax)}\n`;
+    output += `• Total: ${this.formatMoney(order.total_price + order.total_shipping + order.total_tax)}\n`;
+
+    output += `\n🚚 Tracking:\n`;
+    if (order.shipments && order.shipments.length > 0) {
+      order.shipments.forEach(shipment => {
+        output += `• ${shipment.carrier}: ${shipment.number}`;
+        output += shipment.delivered_at ? ` (delivered ${shipment.delivered_at})` : '';
+        output += shipment.url ? `\n  ${shipment.url}\n` : `\n`;
+      });
+    } else {
+      output += `• No shipments yet\n`;
+    }
+
+    return output;
+  }
+
+  // Format an order that hasn't been created yet, with the shipping quote for its speed
+  static formatOrderPreview(order: PrintifyOrderRequest, method: PrintifyShippingMethod, quote?: PrintifyShippingQuote): string {
+    let output = `🧾 Order Preview${order.label ? `: ${order.label}` : ''}\n`;
+    output += `═══════════════════════════\n\n`;
+    output += `📍 Ship to: ${this.formatAddressSummary(order.address_to)}\n`;
+    output += `🚚 Shipping: ${method}\n\n`;
+
+    output += `📦 Line Items:\n`;
+    order.line_items.forEach((item, index) => {
+      output += item.product_id
+        ? `${index + 1}. Product ${item.product_id} | Variant: ${item.variant_id}`
+        : `${index + 1}. Blueprint ${item.blueprint_id} via provider ${item.print_provider_id} | Variant: ${item.variant_id}`;
+      output += ` | Qty: ${item.quantity}\n`;
+      if (item.print_areas) {
+        output += `   Print areas: ${Object.keys(item.print_areas).join(', ')}\n`;
+      }
+    });
+
+    const shippingCost = quote?.[method];
+    output += `\n💰 Costs:\n`;
+    output += shippingCost !== undefined
+      ? `• Shipping (${method}): ${this.formatMoney(shippingCost)}\n`
+      : `• Shipping (${method}): not available for these items and destination\n`;
+    output += `• Items and tax: calculated by Printify when the order is created\n`;
+
+    return output;
+  }
+
+  static formatMoneyRange(range: { min: number; max: number }): string {
+    return range.min === range.max
+      ? this.formatMoney(range.min)
+      : `${this.formatMoney(range.min)}-${this.formatMoney(range.max)}`;
+  }
+
+  // Format catalog shipping rates for a blueprint and provider, with optional free-shipping prices
+  static formatShippingSummary(
+    blueprintId: string,
+    printProviderId: string,
+    country: string,
+    summaries: PrintifyShippingSummary[],
+    freeShippingPrices: Partial<Record<PrintifyShippingMethod, { price: number; profit: number }>> = {}
+  ): string {
+    let output = `🚚 Shipping to ${country}\n`;
+    output += `═══════════════════\n\n`;
+    output += `📋 Blueprint: ${blueprintId} | 🖨️ Provider: ${printProviderId}\n\n`;
+
+    if (summaries.length === 0) {
+      output += `❌ This provider doesn't ship these variants to ${country}\n\n`;
+      output += `💡 Try another provider: get-print-providers ${blueprintId}\n`;
+      return output;
+    }
+
+    if (summaries[0].country !== country) {
+      output += `ℹ️ No rates specific to ${country}; showing the provider's rest-of-world rates\n\n`;
+    }
+
+    summaries.forEach(summary => {
+      output += `• ${summary.method}\n`;
+      output += `   First item: ${this.formatMoneyRange(summary.firstItem)}\n`;
+      output += `   Each additional item: ${this.formatMoneyRange(summary.additionalItems)}\n`;
+      if (summary.handlingTime) {
+        output += `   Handling: ${summary.handlingTime.from}-${summary.handlingTime.to} business days\n`;
+      }
+      if (summary.variants > 1 && summary.firstItem.min !== summary.firstItem.max) {
+        output += `   (Range across ${summary.variants} variants; larger sizes usually cost more)\n`;
+      }
+      const pricing = freeShippingPrices[summary.method];
+      if (pricing) {
+        output += `   Free-shipping price: ${this.formatMoney(pricing.price)} (profit ${this.formatMoney(pricing.profit)})\n`;
+      }
+      output += `\n`;
+    });
+
+    output += `💡 Tips:\n`;
+    output += `• Free-shipping prices absorb the highest first-item cost; extra items in an order still cost the additional-item rate\n`;
+    output += `• Use calculate-shipping with lineItems for the exact cost of a specific order\n`;
+
+    return output;
+  }
+
+  // Format Printify's shipping quote for a prospective order
+  static formatShippingQuote(quote: PrintifyShippingQuote, country: string): string {
+    let output = `🚚 Order Shipping to ${country}\n`;
+    output += `═══════════════════\n\n`;
+
+    const options = Object.entries(quote).filter(([, cost]) => typeof cost === 'number');
+    if (options.length === 0) {
+      output += `❌ None of the shipping speeds are available for these items and destination\n`;
+      return output;
+    }
+
+    options.forEach(([method, cost]) => {
+      output += `• ${method.replace('_', ' ')}: ${this.formatMoney(cost as number)}\n`;
+    });
+    output += `\n💡 Totals for the whole order, covering every line item and quantity\n`;
+
+    return output;
+  }
+
+  // Appended to a preview when the user did not confirm a charge, or could not be asked
+  static formatChargeNotConfirmed(charge: string, outcome: 'declined' | 'unsupported'): string {
+    if (outcome === 'declined') {
+      return `\n❌ Not sent to production - the user did not confirm the charge of ${charge}. Nothing has been charged.\n`;
+    }
+    let output = `\n⚠️ Confirmation Required\n`;
+    output += `Sending this order to production charges ${charge} to the Printify account's payment method.\n`;
+    output += `This connection can't show the user a confirmation prompt, so nothing has been charged.\n`;
+    return output;
+  }
+
+  // How to confirm a charge on connections without confirmation prompts. A stale confirmTotal
+  // (the order changed since the user approved it) is rejected rather than charged.
+  static formatExplicitConfirmation(orderId: string, total: number, confirmTotal?: number): string {
+    let output = '';
+    if (confirmTotal !== undefined) {
+      output += `\n❌ confirmTotal ${this.formatMoney(confirmTotal)} doesn't match the current total of ${this.formatMoney(total)}\n`;
+    }
+    output += `\n💡 To send it:\n`;
+    output += `• Show the user this order and ask them to approve the charge of ${this.formatMoney(total)}\n`;
+    output += `• Only once they have, call send-order-to-production ${orderId} with confirmTotal: ${total}\n`;
+    output += `• Or send the order to production from the Printify dashboard\n`;
+    return output;
+  }
+
   // Format error messages with helpful context
   static formatError(error: any, context?: string): string {
     let output = `❌ Error${context ? ` ${context}` : ''}\n`;
@@ -420,378 +1199,127 @@ export class ResponseFormatter {
   }
 }
 
+// A successful write made through PrintifyAPI, reported to change listeners
+export interface PrintifyChange {
+  action: 'created' | 'updated' | 'deleted' | 'published' | 'publish-succeeded' | 'publish-failed' | 'unpublished' |
+    'uploaded' | 'archived' | 'sent-to-production' | 'canceled';
+  resourceType: 'product' | 'image' | 'order' | 'webhook';
+  resourceId: string;
+  title?: string;
+  shopId?: string;
+}
+
 export class PrintifyAPI {
-  private apiToken: string;
+  private http: HttpHandler;
   public shopId: string | undefined;
-  private baseUrl = 'https://api.printify.com/v1';
+  private baseUrl: string;
+  private catalogV2Url: string; // Shipping by speed is only in the v2 catalog
   public shops: PrintifyShop[] = [];
   private blueprintCache = new Map<string, CacheEntry<any>>();
   private cacheTimeout = 3600000; // 1 hour cache
+  private changeListeners: ((change: PrintifyChange) => void)[] = [];
 
-  constructor(apiToken: string, shopId?: string) {
-    this.apiToken = apiToken;
+  constructor(apiToken: string, shopId?: string, options: PrintifyClientOptions = {}) {
     this.shopId = shopId;
+    this.baseUrl = options.baseUrl || 'https://api.printify.com/v1';
+    this.catalogV2Url = options.catalogV2Url || 'https://api.printify.com/v2';
+
+    // Outermost first: cached responses skip everything, and each retry waits for rate limit
+    // budget again. Sessions sharing an API key share its rate limits.
+    this.http = createHttpClient([
+      cacheMiddleware(),
+      retryMiddleware(options.retryPolicy),
+      rateLimitMiddleware(options.scheduler || printifyScheduler, fingerprintSecret(apiToken)),
+      loggingMiddleware(() => process.env.PRINTIFY_DEBUG === 'true'),
+      metricsMiddleware(printifyHttpMetrics),
+      ...(options.middleware || []),
+      timeoutMiddleware(),
+      authMiddleware(apiToken)
+    ], options.fetch);
   }
 
-  private async makeCatalogRequest(endpoint: string, options: any = {}, retries: number = 3): Promise<any> {
-    // Special handling for catalog endpoints with longer timeout
-    const url = `${this.baseUrl}${endpoint}`;
-    const headers = {
-      'Authorization': `Bearer ${this.apiToken}`,
-      'User-Agent': 'printify-mcp-web/1.0.0',
-      'Content-Type': 'application/json;charset=utf-8',
-      'Connection': 'keep-alive',
-      'Keep-Alive': 'timeout=60',
-      'Accept': 'application/json',
-      'Accept-Encoding': 'gzip, deflate',
-      ...options.headers
-    };
+  addChangeListener(listener: (change: PrintifyChange) => void): void {
+    this.changeListeners.push(listener);
+  }
 
-    const debugMode = process.env.PRINTIFY_DEBUG === 'true';
-    if (debugMode) {
-      console.log(`[DEBUG] Making catalog request to: ${url}`);
-      console.log('[DEBUG] Method:', options.method || 'GET');
-      console.log('[DEBUG] Headers:', { ...headers, Authorization: 'Bearer ***' });
-      if (options.body) {
-        try {
-          const bodyData = JSON.parse(options.body);
-          console.log('[DEBUG] Request body:', JSON.stringify(bodyData, null, 2));
-        } catch {
-          console.log('[DEBUG] Request body (raw):', options.body);
-        }
+  // Listener failures must never fail the Printify call that triggered them
+  private notifyChange(change: PrintifyChange): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Change listener failed:', error);
       }
     }
+  }
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 60000); // 60 second timeout for catalog
-        const startTime = Date.now();
-        
-        const response = await fetch(url, {
-          ...options,
-          headers,
-          signal: controller.signal,
-          compress: true // Enable compression
-        });
-        
-        clearTimeout(timeout);
-        const responseTime = Date.now() - startTime;
-
-        if (debugMode) {
-          console.log(`[DEBUG] Catalog response received in ${responseTime}ms`);
-          console.log(`[DEBUG] Response status: ${response.status}`);
-          const contentLength = response.headers.get('content-length');
-          if (contentLength) {
-            console.log(`[DEBUG] Response size: ${contentLength} bytes`);
-          }
-        }
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `Printify API error: ${response.status}`;
-          
-          // Parse error details if possible
-          let errorDetails = null;
-          try {
-            const errorJson = JSON.parse(errorText);
-            
-            // Handle various error response formats
-            if (errorJson.error) {
-              errorMessage = errorJson.error;
-              errorDetails = errorJson;
-            } else if (errorJson.message) {
-              errorMessage = errorJson.message;
-              errorDetails = errorJson;
-            } else if (errorJson.errors) {
-              // Handle validation errors with field-specific details
-              errorMessage = 'Validation failed';
-              const fieldErrors = Object.entries(errorJson.errors)
-                .map(([field, errors]: [string, any]) => {
-                  const errorList = Array.isArray(errors) ? errors : [errors];
-                  // Map field names to user-friendly names
-                  const fieldDisplayName = {
-                    'title': 'Product Title',
-                    'description': 'Description',
-                    'blueprint_id': 'Blueprint ID',
-                    'print_provider_id': 'Print Provider ID',
-                    'variants': 'Variants',
-                    'print_areas': 'Print Areas',
-                    'print_areas.0.placeholders.0.images.0.id': 'Image ID'
-                  }[field] || field;
-                  return `  ${fieldDisplayName}: ${errorList.join(', ')}`;
-                })
-                .join('\n');
-              errorMessage += '\n\nField errors:\n' + fieldErrors;
-              errorDetails = errorJson;
-            } else {
-              // If we have any other structure, include it
-              errorMessage += '\n\nDetails: ' + JSON.stringify(errorJson, null, 2);
-              errorDetails = errorJson;
-            }
-          } catch {
-            errorMessage += ` - ${errorText}`;
-          }
-
-          // Map status codes to error codes with helpful recovery messages
-          let errorCode = PrintifyErrorCode.UNKNOWN_ERROR;
-          if (response.status === 401) {
-            errorCode = PrintifyErrorCode.AUTH_FAILED;
-            errorMessage += '\n\nTo fix:\n1. Check your Printify API key is valid\n2. Ensure the key is active in your account\n3. Try generating a new API key at printify.com';
-          } else if (response.status === 429) {
-            errorCode = PrintifyErrorCode.RATE_LIMIT;
-            errorMessage += '\n\nTo fix:\n1. Wait 60 seconds before retrying\n2. Reduce the number of requests\n3. Use smaller page limits for list operations';
-          } else if (response.status === 404) {
-            errorCode = PrintifyErrorCode.NOT_FOUND;
-            errorMessage += '\n\nTo fix:\n1. Verify the ID exists (use list operations)\n2. Check you\'re using the correct shop\n3. Ensure the resource wasn\'t deleted';
-          } else if (response.status === 400 || response.status === 422) {
-            errorCode = PrintifyErrorCode.VALIDATION_ERROR;
-            // Don't append generic fix if we already have specific field errors
-            if (!errorMessage.includes('Field errors:')) {
-              errorMessage += '\n\nTo fix:\n1. Check all required fields are provided\n2. Verify data types (numbers vs strings)\n3. Use example values from tool descriptions';
-            }
-          } else if (response.status >= 500) {
-            errorCode = PrintifyErrorCode.SERVER_ERROR;
-            errorMessage += '\n\nTo fix:\n1. Wait a few minutes and retry\n2. Check Printify status page\n3. Try a simpler request to test connectivity';
-          }
-
-          if (debugMode) {
-            console.error(`[DEBUG] Catalog API error response:`, errorText);
-          }
-          
-          // Retry on rate limit or server errors
-          if ((response.status === 429 || response.status >= 500) && attempt < retries) {
-            const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
-            console.log(`Retrying catalog request after ${delay}ms (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          
-          throw new PrintifyError(errorMessage, errorCode, response.status, { endpoint, errorText, errorDetails });
-        }
+  // Special handling for catalog endpoints: longer timeout, compressed JSON, absolute v2 URLs
+  private async makeCatalogRequest(endpoint: string, options: PrintifyRequestOptions = {}): Promise<any> {
+    return this.request(endpoint, {
+      label: 'catalog request',
+      timeoutMs: 60000,
+      ...options,
+      headers: { 'Accept': 'application/json', 'Accept-Encoding': 'gzip, deflate', ...options.headers }
+    });
+  }
 
-        const result = await response.json() as any;
-        if (debugMode) {
-          console.log('[DEBUG] Catalog response received successfully');
-          if (result.data && Array.isArray(result.data)) {
-            console.log(`[DEBUG] Catalog response contains ${result.data.length} items`);
-          }
-        }
-        return result;
-      } catch (error: any) {
-        // Handle timeout/abort errors
-        if (error.name === 'AbortError') {
-          console.error(`Catalog request timeout after 60s: ${url}`);
-          if (attempt < retries) {
-            const delay = Math.min(2000 * Math.pow(2, attempt), 10000);
-            console.log(`Retrying catalog request after timeout (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          throw new PrintifyError(
-            `Catalog request timeout after 60 seconds: ${endpoint}. Try using a smaller limit parameter.`,
-            PrintifyErrorCode.TIMEOUT,
-            undefined,
-            { endpoint, url }
-          );
-        }
-        
-        // Retry on network errors
-        if (error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT' || error.code === 'EPIPE') {
-          if (attempt < retries) {
-            const delay = Math.min(1000 * Math.pow(2, attempt), 5000);
-            console.log(`Network error (${error.code}), retrying catalog request after ${delay}ms (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          throw new PrintifyError(
-            `Network error during catalog request: ${error.code || error.message}`,
-            PrintifyErrorCode.NETWORK_ERROR,
-            undefined,
-            { endpoint, errorCode: error.code }
-          );
-        }
-        
-        if (debugMode) {
-          console.error('[DEBUG] Catalog request failed:', error);
-        }
-        throw error;
-      }
-    }
+  private async makeRequest(endpoint: string, options: PrintifyRequestOptions = {}): Promise<any> {
+    return this.request(endpoint, options);
   }
 
-  private async makeRequest(endpoint: string, options: any = {}, retries: number = 3): Promise<any> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const headers = {
-      'Authorization': `Bearer ${this.apiToken}`,
-      'User-Agent': 'printify-mcp-web/1.0.0',
-      'Content-Type': 'application/json;charset=utf-8',
-      'Connection': 'keep-alive',
-      'Keep-Alive': 'timeout=30',
-      ...options.headers
+  // Every Printify call goes through the HTTP middleware; options tune retries, timeout and caching per call
+  private async request(endpoint: string, options: PrintifyRequestOptions & { label?: string }): Promise<any> {
+    const url = endpoint.startsWith('https://') ? endpoint : `${this.baseUrl}${endpoint}`;
+    const request: HttpRequest = {
+      url,
+      method: options.method || 'GET',
+      headers: {
+        'User-Agent': 'printify-mcp-web/1.0.0',
+        'Content-Type': 'application/json;charset=utf-8',
+        'Connection': 'keep-alive',
+        ...options.headers
+      },
+      body: options.body,
+      label: options.label || 'request',
+      timeoutMs: options.timeoutMs ?? 30000,
+      retries: options.retries ?? 3,
+      idempotent: options.idempotent,
+      cacheTtl: options.cacheTtl
     };
 
-    const debugMode = process.env.PRINTIFY_DEBUG === 'true';
-    if (debugMode) {
-      console.log(`[DEBUG] Making request to: ${url}`);
-      console.log('[DEBUG] Method:', options.method || 'GET');
-      console.log('[DEBUG] Headers:', { ...headers, Authorization: 'Bearer ***' });
-      if (options.body) {
-        try {
-          const bodyData = JSON.parse(options.body);
-          console.log('[DEBUG] Request body:', JSON.stringify(bodyData, null, 2));
-        } catch {
-          console.log('[DEBUG] Request body (raw):', options.body);
-        }
+    let response: HttpResponse;
+    try {
+      response = await this.http(request);
+    } catch (error: any) {
+      const label = request.label.charAt(0).toUpperCase() + request.label.slice(1);
+      if (error instanceof HttpTimeoutError) {
+        throw new PrintifyError(
+          `${label} timeout after ${request.timeoutMs / 1000} seconds: ${endpoint}`,
+          PrintifyErrorCode.TIMEOUT,
+          undefined,
+          { endpoint, url }
+        );
+      }
+      if (isNetworkError(error)) {
+        throw new PrintifyError(
+          `Network error during ${request.label}: ${error.code || error.message}`,
+          PrintifyErrorCode.NETWORK_ERROR,
+          undefined,
+          { endpoint, errorCode: error.code }
+        );
       }
+      throw error;
     }
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-        
-        const response = await fetch(url, {
-          ...options,
-          headers,
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeout);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `Printify API error: ${response.status}`;
-          
-          // Parse error details if possible
-          let errorDetails = null;
-          try {
-            const errorJson = JSON.parse(errorText);
-            
-            // Handle various error response formats
-            if (errorJson.error) {
-              errorMessage = errorJson.error;
-              errorDetails = errorJson;
-            } else if (errorJson.message) {
-              errorMessage = errorJson.message;
-              errorDetails = errorJson;
-            } else if (errorJson.errors) {
-              // Handle validation errors with field-specific details
-              errorMessage = 'Validation failed';
-              const fieldErrors = Object.entries(errorJson.errors)
-                .map(([field, errors]: [string, any]) => {
-                  const errorList = Array.isArray(errors) ? errors : [errors];
-                  // Map field names to user-friendly names
-                  const fieldDisplayName = {
-                    'title': 'Product Title',
-                    'description': 'Description',
-                    'blueprint_id': 'Blueprint ID',
-                    'print_provider_id': 'Print Provider ID',
-                    'variants': 'Variants',
-                    'print_areas': 'Print Areas',
-                    'print_areas.0.placeholders.0.images.0.id': 'Image ID'
-                  }[field] || field;
-                  return `  ${fieldDisplayName}: ${errorList.join(', ')}`;
-                })
-                .join('\n');
-              errorMessage += '\n\nField errors:\n' + fieldErrors;
-              errorDetails = errorJson;
-            } else {
-              // If we have any other structure, include it
-              errorMessage += '\n\nDetails: ' + JSON.stringify(errorJson, null, 2);
-              errorDetails = errorJson;
-            }
-          } catch {
-            errorMessage += ` - ${errorText}`;
-          }
-
-          // Map status codes to error codes with helpful recovery messages
-          let errorCode = PrintifyErrorCode.UNKNOWN_ERROR;
-          if (response.status === 401) {
-            errorCode = PrintifyErrorCode.AUTH_FAILED;
-            errorMessage += '\n\nTo fix:\n1. Check your Printify API key is valid\n2. Ensure the key is active in your account\n3. Try generating a new API key at printify.com';
-          } else if (response.status === 429) {
-            errorCode = PrintifyErrorCode.RATE_LIMIT;
-            errorMessage += '\n\nTo fix:\n1. Wait 60 seconds before retrying\n2. Reduce the number of requests\n3. Use smaller page limits for list operations';
-          } else if (response.status === 404) {
-            errorCode = PrintifyErrorCode.NOT_FOUND;
-            errorMessage += '\n\nTo fix:\n1. Verify the ID exists (use list operations)\n2. Check you\'re using the correct shop\n3. Ensure the resource wasn\'t deleted';
-          } else if (response.status === 400 || response.status === 422) {
-            errorCode = PrintifyErrorCode.VALIDATION_ERROR;
-            // Don't append generic fix if we already have specific field errors
-            if (!errorMessage.includes('Field errors:')) {
-              errorMessage += '\n\nTo fix:\n1. Check all required fields are provided\n2. Verify data types (numbers vs strings)\n3. Use example values from tool descriptions';
-            }
-          } else if (response.status >= 500) {
-            errorCode = PrintifyErrorCode.SERVER_ERROR;
-            errorMessage += '\n\nTo fix:\n1. Wait a few minutes and retry\n2. Check Printify status page\n3. Try a simpler request to test connectivity';
-          }
-
-          if (debugMode) {
-            console.error(`[DEBUG] API error response:`, errorText);
-          }
-          
-          // Retry on rate limit or server errors
-          if ((response.status === 429 || response.status >= 500) && attempt < retries) {
-            const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
-            console.log(`Retrying after ${delay}ms (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          
-          throw new PrintifyError(errorMessage, errorCode, response.status, { endpoint, errorText, errorDetails });
-        }
-
-        const result = await response.json();
-        if (debugMode) {
-          console.log('[DEBUG] Response received successfully');
-        }
-        return result;
-      } catch (error: any) {
-        // Handle timeout/abort errors
-        if (error.name === 'AbortError') {
-          console.error(`Request timeout after 30s: ${url}`);
-          if (attempt < retries) {
-            const delay = Math.min(2000 * Math.pow(2, attempt), 10000);
-            console.log(`Retrying after timeout (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          throw new PrintifyError(
-            `Request timeout after 30 seconds: ${endpoint}`,
-            PrintifyErrorCode.TIMEOUT,
-            undefined,
-            { endpoint, url }
-          );
-        }
-        
-        // Retry on network errors
-        if (error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT' || error.code === 'EPIPE') {
-          if (attempt < retries) {
-            const delay = Math.min(1000 * Math.pow(2, attempt), 5000);
-            console.log(`Network error (${error.code}), retrying after ${delay}ms (attempt ${attempt + 1}/${retries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          throw new PrintifyError(
-            `Network error: ${error.code || error.message}`,
-            PrintifyErrorCode.NETWORK_ERROR,
-            undefined,
-            { endpoint, errorCode: error.code }
-          );
-        }
-        
-        if (debugMode) {
-          console.error('[DEBUG] Request failed:', error);
-        }
-        throw error;
-      }
-    }
-  }
+    if (!response.ok) {
+      throw toPrintifyError(response, endpoint);
+    }
+    // Some writes (deletes, publish acknowledgements) answer with an empty body
+    return response.body ? JSON.parse(response.body) : {};
+  }
 
   async initialize(): Promise<PrintifyShop[]> {
     console.log('Printify API initialize called');
-    console.log('API Token:', this.apiToken ? this.apiToken.substring(0, 10) + '...' : 'None');
     console.log('Making request to /shops.json');
     
     // Fetch available shops
@@ -856,6 +1384,20 @@ export class PrintifyAPI {
       );
     }
     
+    const variantIds: number[] = productData.variants.map((v: any) => v.variantId);
+    const printAreas: PrintifyPrintAreaInput[] = productData.printAreas || [];
+    
+    const problems = await this.validatePrintAreas(
+      String(productData.blueprintId),
+      String(productData.printProviderId),
+      variantIds,
+      printAreas
+    );
+    if (problems.length > 0) {
+      throw new Error(`Invalid print areas:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+    }
+    
+    const areaVariantIds = this.printAreaVariantIds(variantIds, printAreas);
     const formattedData = {
       title: productData.title,
       description: productData.description,
@@ -866,20 +1408,13 @@ export class PrintifyAPI {
         price: v.price,
         is_enabled: v.isEnabled !== false
       })),
-      print_areas: productData.printAreas ? 
-        Object.entries(productData.printAreas).map(([, area]: [string, any]) => ({
-          variant_ids: productData.variants.map((v: any) => v.variantId),
-          placeholders: [{
-            position: area.position,
-            images: [{
-              id: area.imageId,
-              x: area.x !== undefined ? area.x : 0.5,
-              y: area.y !== undefined ? area.y : 0.5,
-              scale: area.scale !== undefined ? area.scale : 1.0,
-              angle: area.angle !== undefined ? area.angle : 0
-            }]
-          }]
-        })) : []
+      print_areas: printAreas.map((area, index) => ({
+        variant_ids: areaVariantIds[index],
+        placeholders: area.placeholders.map(placeholder => ({
+          position: placeholder.position,
+          images: placeholder.images.map(toPrintifyLayer)
+        }))
+      }))
     };
 
     // Debug log the request data
@@ -888,13 +1423,15 @@ export class PrintifyAPI {
     }
     
     try {
-      return await this.makeRequest(`/shops/${this.shopId}/products.json`, {
+      const product = await this.makeRequest(`/shops/${this.shopId}/products.json`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(formattedData)
       });
+      this.notifyChange({ action: 'created', resourceType: 'product', resourceId: String(product.id), title: product.title, shopId: this.shopId });
+      return product;
     } catch (error: any) {
       // Enhanced error logging for debugging
       if (process.env.PRINTIFY_DEBUG === 'true') {
@@ -905,29 +1442,250 @@ export class PrintifyAPI {
     }
   }
 
-  async updateProduct(productId: string, productData: any): Promise<PrintifyProduct> {
+  // Partial update: list fields are merged into the current product before sending, because
+  // Printify replaces variants, print areas and images wholesale
+  async updateProduct(productId: string, productData: PrintifyProductUpdate): Promise<PrintifyProduct> {
     if (!this.shopId) throw new Error('No shop selected');
     
+    const existing = await this.getProduct(productId);
+    if (existing.is_locked) {
+      throw new Error(
+        `Product ${productId} is locked while it is being published. ` +
+        'Wait for the sales channel, or report the result with mark-publish-succeeded or mark-publish-failed.'
+      );
+    }
+    
     const formattedData: any = {};
     
     if (productData.title) formattedData.title = productData.title;
-    if (productData.description) formattedData.description = productData.description;
+    if (productData.description !== undefined) formattedData.description = productData.description;
+    if (productData.tags) formattedData.tags = productData.tags;
     
     if (productData.variants) {
-      formattedData.variants = productData.variants.map((v: any) => ({
-        id: v.variantId,
-        price: v.price,
-        is_enabled: v.isEnabled !== false
-      }));
+      const updates = new Map(productData.variants.map(v => [v.variantId, v]));
+      const unknown = productData.variants.filter(v => !existing.variants.some((current: any) => current.id === v.variantId));
+      if (unknown.length > 0) {
+        throw new Error(`Variants ${unknown.map(v => v.variantId).join(', ')} are not part of product ${productId}`);
+      }
+      
+      formattedData.variants = existing.variants.map((current: any) => {
+        const update = updates.get(current.id);
+        return {
+          id: current.id,
+          price: update?.price ?? current.price,
+          is_enabled: update?.isEnabled ?? current.is_enabled
+        };
+      });
+    }
+    
+    if (productData.printAreas) {
+      formattedData.print_areas = this.mergePrintAreas(existing, productData.printAreas);
+    }
+    
+    if (productData.images) {
+      formattedData.images = this.mergeImages(existing, productData.images);
+    }
+    
+    if (productData.printDetails?.printOnSide) {
+      formattedData.print_details = { ...existing.print_details, print_on_side: productData.printDetails.printOnSide };
+    }
+
+    if (process.env.PRINTIFY_DEBUG === 'true') {
+      console.log('[DEBUG] Updating product with data:', JSON.stringify(formattedData, null, 2));
     }
 
-    return this.makeRequest(`/shops/${this.shopId}/products/${productId}.json`, {
+    const product = await this.makeRequest(`/shops/${this.shopId}/products/${productId}.json`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(formattedData)
     });
+    this.notifyChange({ action: 'updated', resourceType: 'product', resourceId: productId, title: product?.title, shopId: this.shopId });
+    return product;
+  }
+
+  // Variant IDs of each print area; areas without variantIds share the variants no other area lists
+  private printAreaVariantIds(variantIds: number[], printAreas: PrintifyPrintAreaInput[]): number[][] {
+    const listed = new Set(printAreas.flatMap(area => area.variantIds || []));
+    const remaining = variantIds.filter(id => !listed.has(id));
+    return printAreas.map(area => area.variantIds || remaining);
+  }
+
+  // Check print areas against the product's variants and the positions the provider prints
+  // for them. Positions can't be checked if the catalog is unreachable; Printify still rejects
+  // bad ones at creation, just with a less helpful message.
+  async validatePrintAreas(
+    blueprintId: string,
+    printProviderId: string,
+    variantIds: number[],
+    printAreas: PrintifyPrintAreaInput[]
+  ): Promise<string[]> {
+    const problems: string[] = [];
+    const assigned = new Map<number, number>();
+    const areaVariantIds = this.printAreaVariantIds(variantIds, printAreas);
+
+    printAreas.forEach((area, areaIndex) => {
+      const label = `Print area ${areaIndex + 1}`;
+
+      if (areaVariantIds[areaIndex].length === 0) {
+        problems.push(`${label}: covers no variants`);
+      }
+      areaVariantIds[areaIndex].forEach(id => {
+        if (!variantIds.includes(id)) {
+          problems.push(`${label}: variant ${id} is not in the product's variants`);
+        } else if (assigned.has(id)) {
+          problems.push(`${label}: variant ${id} is already in print area ${assigned.get(id)! + 1}`);
+        } else {
+          assigned.set(id, areaIndex);
+        }
+      });
+
+      if (area.placeholders.length === 0) {
+        problems.push(`${label}: needs at least one placeholder`);
+      }
+      const positions = area.placeholders.map(placeholder => placeholder.position);
+      positions
+        .filter((position, index) => positions.indexOf(position) !== index)
+        .forEach(position => problems.push(`${label}: position ${position} is listed twice`));
+
+      area.placeholders.forEach(placeholder => {
+        if (placeholder.images.length === 0) {
+          problems.push(`${label}, ${placeholder.position}: needs at least one image or text layer`);
+        }
+        placeholder.images.forEach((layer, index) => {
+          if (!!layer.imageId === !!layer.text) {
+            problems.push(`${label}, ${placeholder.position}: layer ${index + 1} needs either imageId or text`);
+          }
+        });
+      });
+    });
+
+    if (printAreas.length === 0 || problems.length > 0) {
+      return problems;
+    }
+
+    let catalogVariants: any[];
+    try {
+      catalogVariants = (await this.getVariants(blueprintId, printProviderId)).variants || [];
+    } catch (error: any) {
+      if (process.env.PRINTIFY_DEBUG === 'true') {
+        console.log(`[DEBUG] Skipping print position check: ${error.message}`);
+      }
+      return problems;
+    }
+
+    const positionsByVariant = new Map<number, string[]>(
+      catalogVariants.map(variant => [variant.id, (variant.placeholders || []).map((p: any) => p.position)])
+    );
+    printAreas.forEach((area, areaIndex) => {
+      const ids = areaVariantIds[areaIndex];
+      area.placeholders.forEach(placeholder => {
+        const missing = ids.filter(id => !positionsByVariant.get(id)?.includes(placeholder.position));
+        if (missing.length > 0) {
+          const available = Array.from(new Set(ids.flatMap(id => positionsByVariant.get(id) || [])));
+          problems.push(
+            `Print area ${areaIndex + 1}: position ${placeholder.position} isn't available for variant(s) ` +
+            `${missing.slice(0, 5).join(', ')}${missing.length > 5 ? '...' : ''}. ` +
+            `Available: ${available.join(', ') || 'none'}`
+          );
+        }
+      });
+    });
+
+    return problems;
+  }
+
+  private mergePrintAreas(existing: PrintifyProduct, updates: PrintifyPrintAreaUpdate[]): any[] {
+    const productVariantIds: number[] = existing.variants.map((variant: any) => variant.id);
+    const toImage = (image: any) => ({ id: image.id, x: image.x, y: image.y, scale: image.scale, angle: image.angle });
+    let areas = (existing.print_areas || []).map((area: any) => ({
+      variant_ids: [...area.variant_ids],
+      placeholders: area.placeholders.map((placeholder: any) => ({
+        position: placeholder.position,
+        images: placeholder.images.map(toImage)
+      }))
+    }));
+
+    for (const update of updates) {
+      const targetIds = update.variantIds || productVariantIds;
+      const unknown = targetIds.filter(id => !productVariantIds.includes(id));
+      if (unknown.length > 0) {
+        throw new Error(`Variants ${unknown.join(', ')} are not part of product ${existing.id}`);
+      }
+
+      // Each variant belongs to exactly one print area, so variants named here are moved out of
+      // their current areas, one new area per source area, each starting from its source's design
+      const covered = areas.filter(area => area.variant_ids.every(id => targetIds.includes(id)));
+      const coveredIds = covered.flatMap(area => area.variant_ids);
+      const splitIds = targetIds.filter(id => !coveredIds.includes(id));
+      if (splitIds.length > 0) {
+        const splitIdsBySource = new Map<typeof areas[number] | undefined, number[]>();
+        for (const id of splitIds) {
+          const source = areas.find(area => area.variant_ids.includes(id));
+          splitIdsBySource.set(source, [...(splitIdsBySource.get(source) || []), id]);
+        }
+        areas.forEach(area => {
+          area.variant_ids = area.variant_ids.filter(id => !splitIds.includes(id));
+        });
+        areas = areas.filter(area => area.variant_ids.length > 0);
+        splitIdsBySource.forEach((ids, source) => {
+          const split = {
+            variant_ids: ids,
+            placeholders: JSON.parse(JSON.stringify(source?.placeholders || []))
+          };
+          areas.push(split);
+          covered.push(split);
+        });
+      }
+
+      for (const area of covered) {
+        for (const placeholder of update.placeholders) {
+          const current = area.placeholders.find((p: any) => p.position === placeholder.position);
+          const images = placeholder.images.map((image, index) => {
+            const previous = current?.images[index];
+            const id = image.imageId ?? previous?.id;
+            if (!id) {
+              throw new Error(`Image ${index + 1} of the ${placeholder.position} placeholder needs an imageId`);
+            }
+            return {
+              id,
+              x: image.x ?? previous?.x ?? 0.5,
+              y: image.y ?? previous?.y ?? 0.5,
+              scale: image.scale ?? previous?.scale ?? 1.0,
+              angle: image.angle ?? previous?.angle ?? 0
+            };
+          });
+
+          area.placeholders = area.placeholders.filter((p: any) => p.position !== placeholder.position);
+          if (images.length > 0) {
+            area.placeholders.push({ position: placeholder.position, images });
+          }
+        }
+      }
+    }
+
+    return areas;
+  }
+
+  private mergeImages(existing: PrintifyProduct, updates: NonNullable<PrintifyProductUpdate['images']>): any[] {
+    const unknown = updates.filter(update => !existing.images.some((image: any) => image.src === update.src));
+    if (unknown.length > 0) {
+      throw new Error(`Mockups not found on product ${existing.id}: ${unknown.map(update => update.src).join(', ')}`);
+    }
+
+    // Only one mockup can be the default
+    const newDefault = updates.find(update => update.isDefault)?.src;
+    return existing.images.map((image: any) => {
+      const update = updates.find(u => u.src === image.src);
+      return {
+        src: image.src,
+        variant_ids: image.variant_ids,
+        position: image.position,
+        is_default: newDefault ? image.src === newDefault : update?.isDefault ?? image.is_default,
+        is_selected_for_publishing: update?.isSelectedForPublishing ?? image.is_selected_for_publishing
+      };
+    });
   }
 
   async deleteProduct(productId: string): Promise<void> {
@@ -936,6 +1694,91 @@ export class PrintifyAPI {
     await this.makeRequest(`/shops/${this.shopId}/products/${productId}.json`, {
       method: 'DELETE'
     });
+    this.notifyChange({ action: 'deleted', resourceType: 'product', resourceId: productId, shopId: this.shopId });
+  }
+
+  async duplicateProduct(productId: string, options: PrintifyProductCopyOptions = {}): Promise<PrintifyProductCopy> {
+    if (!this.shopId) throw new Error('No shop selected');
+
+    return this.copyProduct(productId, this.shopId, options);
+  }
+
+  // Recreate a product of the current shop in another shop of the account. Uploads belong to
+  // the account, so the copy reuses the same artwork.
+  async copyProductToShop(
+    productId: string,
+    targetShopId: string,
+    options: PrintifyProductCopyOptions = {}
+  ): Promise<PrintifyProductCopy> {
+    if (!this.shopId) throw new Error('No shop selected');
+
+    const shop = this.shops.find(s => String(s.id) === String(targetShopId));
+    if (!shop) {
+      const availableShops = this.shops.map(s => `${s.title} (ID: ${s.id})`).join(', ');
+      throw new Error(`Shop with ID "${targetShopId}" not found. Available shops: ${availableShops || 'none'}`);
+    }
+    if (String(shop.id) === this.shopId) {
+      throw new Error('The product is already in this shop. Use duplicate-product to copy it here.');
+    }
+    return this.copyProduct(productId, String(shop.id), options);
+  }
+
+  // Variants the provider no longer offers are left out of the copy rather than failing it
+  private async copyProduct(
+    productId: string,
+    targetShopId: string,
+    options: PrintifyProductCopyOptions
+  ): Promise<PrintifyProductCopy> {
+    const source = await this.getProduct(productId);
+    const catalog = await this.getVariants(String(source.blueprint_id), String(source.print_provider_id));
+    const offered = new Set<number>((catalog.variants || []).map((variant: any) => variant.id));
+
+    const variants = source.variants.filter((variant: any) => offered.has(variant.id));
+    const droppedVariants = source.variants
+      .filter((variant: any) => !offered.has(variant.id))
+      .map((variant: any) => ({ id: variant.id, title: variant.title }));
+    if (variants.length === 0) {
+      throw new Error(`None of the variants of product ${productId} are offered by its print provider anymore`);
+    }
+
+    const kept = new Set<number>(variants.map((variant: any) => variant.id));
+    const printAreas = (source.print_areas || [])
+      .map((area: any) => ({
+        variant_ids: area.variant_ids.filter((id: number) => kept.has(id)),
+        placeholders: area.placeholders.map((placeholder: any) => ({
+          position: placeholder.position,
+          // Uploaded images are referenced by ID; text layers are copied as they are
+          images: placeholder.images.map((image: any) => image.id
+            ? { id: image.id, x: image.x, y: image.y, scale: image.scale, angle: image.angle }
+            : image)
+        }))
+      }))
+      .filter((area: any) => area.variant_ids.length > 0);
+
+    const productData = {
+      title: options.title || source.title,
+      description: source.description,
+      tags: source.tags || [],
+      blueprint_id: source.blueprint_id,
+      print_provider_id: source.print_provider_id,
+      variants: variants.map((variant: any) => ({
+        id: variant.id,
+        price: options.price ?? variant.price,
+        is_enabled: variant.is_enabled
+      })),
+      print_areas: printAreas,
+      ...(source.print_details ? { print_details: source.print_details } : {})
+    };
+
+    const product = await this.makeRequest(`/shops/${targetShopId}/products.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(productData)
+    });
+    this.notifyChange({ action: 'created', resourceType: 'product', resourceId: String(product.id), title: product.title, shopId: targetShopId });
+    return { product, shopId: targetShopId, droppedVariants };
   }
 
   async publishProduct(productId: string, publishDetails?: any): Promise<any> {
@@ -949,13 +1792,261 @@ export class PrintifyAPI {
       tags: publishDetails?.tags !== false
     };
 
-    return this.makeRequest(`/shops/${this.shopId}/products/${productId}/publish.json`, {
+    const result = await this.makeRequest(`/shops/${this.shopId}/products/${productId}/publish.json`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(data)
     });
+    this.notifyChange({ action: 'published', resourceType: 'product', resourceId: productId, shopId: this.shopId });
+    return result;
+  }
+
+  // Report to Printify that the sales channel listed the product, unlocking it for edits
+  async publishingSucceeded(productId: string, external: { id: string; handle: string }): Promise<any> {
+    if (!this.shopId) throw new Error('No shop selected');
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/products/${productId}/publishing_succeeded.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ external })
+    });
+    this.notifyChange({ action: 'publish-succeeded', resourceType: 'product', resourceId: productId, shopId: this.shopId });
+    return result;
+  }
+
+  // Report that the sales channel couldn't list the product; Printify unlocks it again
+  async publishingFailed(productId: string, reason: string): Promise<any> {
+    if (!this.shopId) throw new Error('No shop selected');
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/products/${productId}/publishing_failed.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ reason })
+    });
+    this.notifyChange({ action: 'publish-failed', resourceType: 'product', resourceId: productId, shopId: this.shopId });
+    return result;
+  }
+
+  // Tell Printify the product was taken off the sales channel
+  async unpublishProduct(productId: string): Promise<any> {
+    if (!this.shopId) throw new Error('No shop selected');
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/products/${productId}/unpublish.json`, {
+      method: 'POST'
+    });
+    this.notifyChange({ action: 'unpublished', resourceType: 'product', resourceId: productId, shopId: this.shopId });
+    return result;
+  }
+
+  async getOrders(page: number = 1, limit: number = 10, filters: Pick<PrintifyOrderFilters, 'status' | 'sku'> = {}): Promise<any> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (filters.status) params.set('status', filters.status);
+    if (filters.sku) params.set('sku', filters.sku);
+    return this.makeRequest(`/shops/${this.shopId}/orders.json?${params}`);
+  }
+
+  async getOrder(orderId: string): Promise<PrintifyOrder> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    return this.makeRequest(`/shops/${this.shopId}/orders/${orderId}.json`);
+  }
+
+  // Walk the order pages (newest first) until maxResults orders match. Status and SKU are
+  // filtered by Printify; the date range is applied here, and paging stops once orders
+  // are older than createdAfter.
+  async searchOrders(filters: PrintifyOrderFilters = {}, maxResults: number = 20): Promise<PrintifyOrderSearch> {
+    const pageSize = 10; // Printify's maximum for orders
+    const maxPages = 20;
+    const orders: PrintifyOrder[] = [];
+    let total = 0;
+    let page = 1;
+    let lastPage = 1;
+    let reachedOlder = false;
+
+    do {
+      const response = await this.getOrders(page, pageSize, { status: filters.status, sku: filters.sku });
+      total = response.total ?? total;
+      lastPage = response.last_page ?? page;
+
+      for (const order of (response.data || []) as PrintifyOrder[]) {
+        const createdAt = new Date(order.created_at);
+        if (filters.createdAfter && createdAt < filters.createdAfter) {
+          reachedOlder = true;
+          break;
+        }
+        if (filters.createdBefore && createdAt > filters.createdBefore) continue;
+        orders.push(order);
+      }
+      page++;
+    } while (!reachedOlder && orders.length < maxResults && page <= lastPage && page <= maxPages);
+
+    return {
+      orders: orders.slice(0, maxResults),
+      total,
+      pagesScanned: page - 1,
+      truncated: orders.length > maxResults || (!reachedOlder && page <= lastPage)
+    };
+  }
+
+  // Create an order without sending it to production; nothing is charged until it's sent
+  async createOrder(order: PrintifyOrderRequest): Promise<{ id: string }> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    // Never resent: a retry after Printify accepted the first attempt would create a second order
+    const result = await this.makeRequest(`/shops/${this.shopId}/orders.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(order),
+      retries: 0
+    });
+    this.notifyChange({ action: 'created', resourceType: 'order', resourceId: result.id, title: order.label, shopId: this.shopId });
+    return result;
+  }
+
+  // Quote shipping for line items and a destination before an order exists
+  async calculateShipping(order: Pick<PrintifyOrderRequest, 'line_items' | 'address_to'>): Promise<PrintifyShippingQuote> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    return this.makeRequest(`/shops/${this.shopId}/orders/shipping.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ line_items: order.line_items, address_to: order.address_to }),
+      idempotent: true // Only quotes, nothing is created
+    });
+  }
+
+  // Printify charges the account's payment method once an order is sent to production
+  async sendOrderToProduction(orderId: string): Promise<PrintifyOrder> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    // Never resent, so a lost response can't charge the account twice
+    const result = await this.makeRequest(`/shops/${this.shopId}/orders/${orderId}/send_to_production.json`, {
+      method: 'POST',
+      retries: 0
+    });
+    this.notifyChange({ action: 'sent-to-production', resourceType: 'order', resourceId: orderId, shopId: this.shopId });
+    return result;
+  }
+
+  // Only orders that are on hold or awaiting payment can be canceled
+  async cancelOrder(orderId: string): Promise<PrintifyOrder> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/orders/${orderId}/cancel.json`, {
+      method: 'POST',
+      retries: 0
+    });
+    this.notifyChange({ action: 'canceled', resourceType: 'order', resourceId: orderId, shopId: this.shopId });
+    return result;
+  }
+
+  async getWebhooks(): Promise<PrintifyWebhook[]> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    return this.makeRequest(`/shops/${this.shopId}/webhooks.json`);
+  }
+
+  // Printify signs each delivery with the secret, if one is given
+  async createWebhook(webhook: { topic: string; url: string; secret?: string }): Promise<PrintifyWebhook> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/webhooks.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(webhook)
+    });
+    this.notifyChange({ action: 'created', resourceType: 'webhook', resourceId: String(result.id), title: webhook.topic, shopId: this.shopId });
+    return result;
+  }
+
+  // Only the URL of a webhook can be changed; the topic is fixed
+  async updateWebhook(webhookId: string, url: string): Promise<PrintifyWebhook> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    const result = await this.makeRequest(`/shops/${this.shopId}/webhooks/${webhookId}.json`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ url })
+    });
+    this.notifyChange({ action: 'updated', resourceType: 'webhook', resourceId: webhookId, shopId: this.shopId });
+    return result;
+  }
+
+  // Printify requires the host of the webhook's URL to confirm the deletion
+  async deleteWebhook(webhookId: string, host: string): Promise<void> {
+    if (!this.shopId) {
+      throw new Error(
+        'No shop selected. The shop should be automatically selected on initialization. ' +
+        'Try re-registering if this error persists.'
+      );
+    }
+    
+    const params = new URLSearchParams({ host });
+    await this.makeRequest(`/shops/${this.shopId}/webhooks/${webhookId}.json?${params}`, {
+      method: 'DELETE'
+    });
+    this.notifyChange({ action: 'deleted', resourceType: 'webhook', resourceId: webhookId, shopId: this.shopId });
   }
 
   private convertGoogleDriveUrl(url: string): string {
@@ -1013,26 +2104,86 @@ export class PrintifyAPI {
 
     console.log(`Uploading image: ${fileName} (${requestBody.url ? 'from URL' : 'from base64 data'})`);
 
-    // Upload to Printify using JSON format
-    const response = await fetch(`${this.baseUrl}/uploads/images.json`, {
+    // Printify fetches URL uploads before answering, so allow more than the usual 30 seconds
+    const result: PrintifyImage = await this.makeRequest('/uploads/images.json', {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
-        'User-Agent': 'printify-mcp-web/1.0.0',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(requestBody),
+      timeoutMs: 120000
     });
+    console.log('Image uploaded successfully:', result);
+    this.notifyChange({ action: 'uploaded', resourceType: 'image', resourceId: String(result.id), title: result.file_name });
+    return result;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error(`Upload failed with status ${response.status}:`, error);
-      throw new Error(`Failed to upload image: ${response.status} - ${error}`);
-    }
+  async getUploads(page: number = 1, limit: number = 20): Promise<any> {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    return this.makeRequest(`/uploads.json?${params}`);
+  }
 
-    const result = await response.json();
-    console.log('Image uploaded successfully:', result);
-    return result as PrintifyImage;
+  async getUpload(imageId: string): Promise<PrintifyImage> {
+    return this.makeRequest(`/uploads/${imageId}.json`);
+  }
+
+  // Archived uploads disappear from the library; products already using them are unaffected
+  async archiveUpload(imageId: string): Promise<void> {
+    await this.makeRequest(`/uploads/${imageId}/archive.json`, {
+      method: 'POST'
+    });
+    this.notifyChange({ action: 'archived', resourceType: 'image', resourceId: imageId });
+  }
+
+  // Printify can't filter uploads by name, so walk the library (newest first) and match
+  // file names here, case-insensitively
+  async searchUploads(fileName: string, maxResults: number = 20): Promise<PrintifyUploadSearch> {
+    const pageSize = 100; // Printify's maximum for uploads
+    const maxPages = 10;
+    const needle = fileName.toLowerCase();
+    const uploads: PrintifyImage[] = [];
+    let total = 0;
+    let page = 1;
+    let lastPage = 1;
+
+    do {
+      const response = await this.getUploads(page, pageSize);
+      total = response.total ?? total;
+      lastPage = response.last_page ?? page;
+
+      for (const upload of (response.data || []) as PrintifyImage[]) {
+        if (upload.file_name?.toLowerCase().includes(needle)) {
+          uploads.push(upload);
+        }
+      }
+      page++;
+    } while (uploads.length < maxResults && page <= lastPage && page <= maxPages);
+
+    return {
+      uploads: uploads.slice(0, maxResults),
+      total,
+      pagesScanned: page - 1,
+      truncated: uploads.length > maxResults || page <= lastPage
+    };
+  }
+
+  // Resolve a file name to one upload: an exact (case-insensitive) match wins, otherwise the
+  // name must match a single upload. The newest upload wins if the same name was uploaded twice.
+  async findUploadByFileName(fileName: string): Promise<PrintifyImage> {
+    const { uploads } = await this.searchUploads(fileName, 50);
+    const exact = uploads.filter(upload => upload.file_name.toLowerCase() === fileName.toLowerCase());
+
+    if (exact.length > 0) {
+      return exact[0];
+    }
+    if (uploads.length === 1) {
+      return uploads[0];
+    }
+    if (uploads.length === 0) {
+      throw new Error(`No upload named "${fileName}" in the media library. Use list-uploads to browse it or upload-image to add it.`);
+    }
+    throw new Error(
+      `"${fileName}" matches ${uploads.length} uploads: ` +
+      uploads.slice(0, 5).map(upload => `${upload.file_name} (${upload.id})`).join(', ') +
+      `. Use the full file name or an image ID.`
+    );
   }
 
   private getCacheKey(endpoint: string): string {
@@ -1176,116 +2327,179 @@ export class PrintifyAPI {
   }
 
   async getBlueprint(blueprintId: string): Promise<any> {
-    const cacheKey = this.getCacheKey(`blueprint:${blueprintId}`);
-    
-    // Check cache first
-    const cached = this.getFromCache(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const result = await this.makeRequest(`/catalog/blueprints/${blueprintId}.json`);
-    this.setCache(cacheKey, result);
-    return result;
+    return this.makeRequest(`/catalog/blueprints/${blueprintId}.json`, { cacheTtl: this.cacheTimeout });
   }
 
   async getPrintProviders(blueprintId: string): Promise<any> {
     return this.makeRequest(`/catalog/blueprints/${blueprintId}/print_providers.json`);
   }
 
+  // Every print provider in the catalog, with where it produces
+  async getAllPrintProviders(): Promise<PrintifyPrintProvider[]> {
+    return this.makeCatalogRequest('/catalog/print_providers.json', { cacheTtl: this.cacheTimeout });
+  }
+
+  // One provider with every blueprint it offers
+  async getPrintProvider(printProviderId: string): Promise<PrintifyPrintProvider> {
+    return this.makeCatalogRequest(`/catalog/print_providers/${printProviderId}.json`, { cacheTtl: this.cacheTimeout });
+  }
+
+  // Variants, costs and standard shipping of every provider of a blueprint, fetched in parallel.
+  // A provider that fails to load is reported with an error instead of failing the comparison.
+  async compareProviders(blueprintId: string, countries: string[] = []): Promise<PrintifyProviderOffer[]> {
+    const providers: PrintifyPrintProvider[] = await this.getPrintProviders(blueprintId);
+    const directory = await this.getAllPrintProviders().catch(() => [] as PrintifyPrintProvider[]);
+
+    // Countries are summarized one after another: the first fills the provider's rate cache
+    const shippingTo = async (printProviderId: string) => {
+      const shipping: PrintifyProviderOffer['shipping'] = [];
+      for (const country of countries) {
+        const standard = (await this.getShippingSummary(blueprintId, printProviderId, country))
+          .find(summary => summary.method === 'standard');
+        shipping.push({ country, firstItem: standard?.firstItem, currency: standard?.currency });
+      }
+      return shipping;
+    };
+
+    return Promise.all(providers.map(async listed => {
+      const provider = { ...listed, location: listed.location || directory.find(p => p.id === listed.id)?.location };
+      try {
+        const [variantsData, shipping] = await Promise.all([
+          this.getVariants(blueprintId, String(provider.id)),
+          shippingTo(String(provider.id))
+        ]);
+
+        const variants: any[] = variantsData.variants || [];
+        const costs = variants.map(variant => variant.cost).filter((cost): cost is number => typeof cost === 'number');
+        const option = (variant: any, name: string, index: number) =>
+          variant.options?.[name] || String(variant.title || '').split(' / ')[index]?.trim();
+        return {
+          provider,
+          variants: variants.length,
+          cost: costs.length > 0 ? { min: Math.min(...costs), max: Math.max(...costs) } : undefined,
+          colors: Array.from(new Set(variants.map(variant => option(variant, 'color', 0)).filter(Boolean))),
+          sizes: Array.from(new Set(variants.map(variant => option(variant, 'size', 1)).filter(Boolean))),
+          shipping
+        };
+      } catch (error: any) {
+        return { provider, variants: 0, colors: [], sizes: [], shipping: [], error: error.message };
+      }
+    }));
+  }
+
+  // Providers in a country (ISO code) that make every requested product. Blueprint lists come
+  // from one request per provider; they are cached, and the scheduler paces the rest.
+  async findPrintProviders(filters: { country?: string; makes?: string[] }): Promise<PrintifyProviderMatch[]> {
+    const country = filters.country?.trim().toUpperCase();
+    const makes = (filters.makes || []).map(product => product.trim()).filter(product => product.length > 0);
+
+    const candidates = (await this.getAllPrintProviders())
+      .filter(provider => !country || provider.location?.country?.toUpperCase() === country);
+    if (makes.length === 0) {
+      return candidates.map(provider => ({ provider, offers: [] }));
+    }
+
+    const matches: PrintifyProviderMatch[] = [];
+    for (const candidate of candidates) {
+      const provider = await this.getPrintProvider(String(candidate.id));
+      const offers = makes.map(product => ({
+        product,
+        blueprints: (provider.blueprints || [])
+          .filter(blueprint => blueprintMatchesProduct(blueprint, product))
+          .map(blueprint => ({ id: blueprint.id, title: blueprint.title }))
+      }));
+      if (offers.every(offer => offer.blueprints.length > 0)) {
+        matches.push({ provider: { ...candidate, ...provider }, offers });
+      }
+    }
+    return matches;
+  }
+
   async getVariants(blueprintId: string, printProviderId: string): Promise<any> {
     return this.makeRequest(`/catalog/blueprints/${blueprintId}/print_providers/${printProviderId}/variants.json`);
   }
 
-  // Search blueprints by category and type
-  async searchBlueprints(category?: string, type?: string): Promise<any> {
-    let allBlueprints;
-    
-    try {
-      allBlueprints = await this.getBlueprints(1, 50);
-    } catch (error: any) {
-      // If API fails, use fallback data for searching
-      console.log('Failed to fetch blueprints, using fallback data for search:', error.message);
-      allBlueprints = null;
-    }
-    
-    // Ensure we always have valid blueprint data
-    if (!allBlueprints || !allBlueprints.data || !Array.isArray(allBlueprints.data)) {
-      // Create fallback response with searchable data
-      allBlueprints = {
-        data: [
-          { id: 5, title: 'Bella + Canvas 3001 Unisex T-Shirt', description: 'Premium unisex t-shirt' },
-          { id: 77, title: 'Gildan 18500 Unisex Hoodie', description: 'Classic pullover hoodie' },
-          { id: 6, title: 'Gildan 64000 Unisex T-Shirt', description: 'Basic t-shirt' },
-          { id: 380, title: 'Independent Trading Co. Hoodie', description: 'Heavy blend hoodie' },
-          { id: 265, title: 'Ceramic Mug 11oz', description: 'Standard coffee mug' },
-          { id: 634, title: 'Tote Bag', description: 'Canvas tote bag' },
-          { id: 520, title: 'Poster', description: 'Wall poster' },
-          { id: 1037, title: 'Sticker', description: 'Die-cut vinyl stickers' },
-          { id: 12, title: 'Next Level 3600 T-Shirt', description: 'Premium fitted t-shirt' },
-          { id: 384, title: 'Bella + Canvas 3413 Triblend T-shirt', description: 'Tri-blend t-shirt' }
-        ],
-        _fallback: true,
-        _message: 'Using cached blueprint data'
-      };
+  // Every shipping rate Printify publishes for a blueprint and provider, across all speeds
+  async getShippingRates(blueprintId: string, printProviderId: string): Promise<PrintifyShippingRate[]> {
+    const cacheKey = this.getCacheKey(`shipping:${blueprintId}:${printProviderId}`);
+    const cached = this.getFromCache<PrintifyShippingRate[]>(cacheKey);
+    if (cached) {
+      return cached;
     }
-    
-    // Return all blueprints if no search criteria
-    if (!category && !type) {
-      return allBlueprints;
+
+    const base = `${this.catalogV2Url}/catalog/blueprints/${blueprintId}/print_providers/${printProviderId}/shipping`;
+    const available = await this.makeCatalogRequest(`${base}.json`);
+    const methods = (available.data || [])
+      .map((method: any) => method.attributes?.name)
+      .filter((name: string) => name in SHIPPING_METHODS) as PrintifyShippingMethod[];
+
+    const rates: PrintifyShippingRate[] = [];
+    for (const method of methods) {
+      const response = await this.makeCatalogRequest(`${base}/${method}.json`);
+      for (const row of response.data || []) {
+        const attributes = row.attributes || {};
+        rates.push({
+          method,
+          country: attributes.country?.code,
+          variantId: attributes.variantId,
+          firstItem: attributes.shippingCost?.firstItem?.amount ?? 0,
+          additionalItems: attributes.shippingCost?.additionalItems?.amount ?? 0,
+          currency: attributes.shippingCost?.firstItem?.currency || 'USD',
+          handlingTime: attributes.handlingTime
+        });
+      }
     }
 
-    // If using fallback data, filter by known categories
-    if (allBlueprints._fallback) {
-      const categoryData = category ? (BLUEPRINT_CATEGORIES as any)[category] : null;
-      let filteredData = allBlueprints.data;
-      
-      // Filter by category and type using known IDs
-      if (category && type && categoryData?.[type]) {
-        const blueprintIds = categoryData[type];
-        filteredData = allBlueprints.data.filter((bp: any) => blueprintIds.includes(bp.id));
-      } else {
-        // Filter by text search on title/description
-        const searchTerms: string[] = [];
-        if (type) searchTerms.push(type.toLowerCase());
-        if (category) searchTerms.push(category.toLowerCase());
-        
-        if (searchTerms.length > 0) {
-          filteredData = allBlueprints.data.filter((bp: any) => {
-            const searchText = `${bp.title} ${bp.description || ''}`.toLowerCase();
-            return searchTerms.some(term => searchText.includes(term));
-          });
-        }
+    this.setCache(cacheKey, rates);
+    return rates;
+  }
+
+  // Summarize rates per speed for one destination, optionally for a single variant
+  async getShippingSummary(blueprintId: string, printProviderId: string, country: string, variantId?: number): Promise<PrintifyShippingSummary[]> {
+    const rates = (await this.getShippingRates(blueprintId, printProviderId))
+      .filter(rate => variantId === undefined || rate.variantId === variantId);
+
+    const summaries: PrintifyShippingSummary[] = [];
+    for (const method of Object.keys(SHIPPING_METHODS) as PrintifyShippingMethod[]) {
+      const forMethod = rates.filter(rate => rate.method === method);
+      let matching = forMethod.filter(rate => rate.country === country);
+      if (matching.length === 0) {
+        matching = forMethod.filter(rate => rate.country === 'REST_OF_THE_WORLD');
       }
-      
-      return {
-        ...allBlueprints,
-        data: filteredData,
-        total: filteredData.length,
-        _filtered: true
-      };
+      if (matching.length === 0) continue;
+
+      const firstItems = matching.map(rate => rate.firstItem);
+      const additionalItems = matching.map(rate => rate.additionalItems);
+      summaries.push({
+        method,
+        country: matching[0].country,
+        firstItem: { min: Math.min(...firstItems), max: Math.max(...firstItems) },
+        additionalItems: { min: Math.min(...additionalItems), max: Math.max(...additionalItems) },
+        currency: matching[0].currency,
+        handlingTime: matching[0].handlingTime,
+        variants: new Set(matching.map(rate => rate.variantId)).size
+      });
     }
+    return summaries;
+  }
 
-    // For real API data, filter by title/description
-    const searchTerms: string[] = [];
-    if (type) searchTerms.push(type.toLowerCase());
-    if (category) searchTerms.push(category.toLowerCase());
-    
-    // Ensure data exists before filtering
-    const dataToFilter = allBlueprints.data || [];
-    const filteredData = searchTerms.length > 0 
-      ? dataToFilter.filter((bp: any) => {
-          const searchText = `${bp.title || ''} ${bp.description || ''}`.toLowerCase();
-          return searchTerms.some(term => searchText.includes(term));
-        })
-      : dataToFilter;
-    
-    return {
-      ...allBlueprints,
-      data: filteredData,
-      total: filteredData.length,
-      _filtered: searchTerms.length > 0
-    };
+  // Every blueprint in the catalog, for the search index. The catalog answers either with
+  // pages or with the whole list at once.
+  async getAllBlueprints(): Promise<any[]> {
+    const blueprints: any[] = [];
+    for (let page = 1; page <= CATALOG_CRAWL_MAX_PAGES; page++) {
+      const result = await this.makeCatalogRequest(`/catalog/blueprints.json?page=${page}&limit=${CATALOG_CRAWL_PAGE_SIZE}`);
+      if (Array.isArray(result)) {
+        return result;
+      }
+
+      const data = result.data || [];
+      blueprints.push(...data);
+      if (data.length === 0 || !result.last_page || page >= result.last_page) {
+        break;
+      }
+    }
+    return blueprints;
   }
 
   // Get popular blueprints for quick access
@@ -0,0 +1,204 @@
+import type { HttpMiddleware } from './http-client.js';
+
+// Printify's documented limits, per API key. Every request counts against the global budget;
+// catalog and publishing requests also count against their own.
+export const PRINTIFY_RATE_LIMITS = {
+  global: { requests: 600, interval: 60 * 1000 },
+  catalog: { requests: 100, interval: 60 * 1000 },
+  publishing: { requests: 200, interval: 30 * 60 * 1000 }
+};
+
+export type RateLimitBudget = 'default' | 'catalog' | 'publishing';
+
+const BUDGETS: RateLimitBudget[] = ['default', 'catalog', 'publishing'];
+
+// Which budget a Printify URL draws from
+export function rateLimitBudget(url: string): RateLimitBudget {
+  if (url.includes('/catalog/')) return 'catalog';
+  if (/\/products\/[^/]+\/publish\.json/.test(url)) return 'publishing';
+  return 'default';
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Refills continuously, so a full minute's budget is never spent twice in a burst
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private interval: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / this.interval);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until a token is available
+  waitTime(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.interval / this.capacity);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  // Milliseconds until the bucket is full again
+  refillTime(now: number): number {
+    this.refill(now);
+    return Math.ceil((this.capacity - this.tokens) * this.interval / this.capacity);
+  }
+}
+
+interface KeyState {
+  key: string;
+  global: TokenBucket;
+  buckets: Partial<Record<RateLimitBudget, TokenBucket>>;
+  queues: Record<RateLimitBudget, (() => void)[]>; // FIFO per budget, so catalog crawls don't hold up orders
+  blockedUntil: number; // Set from Retry-After
+  timer?: NodeJS.Timeout;
+}
+
+export interface SchedulerStats {
+  queued: number;
+  queuedByBudget: Record<RateLimitBudget, number>;
+  pausedKeys: number;
+  keys: number;
+}
+
+// Queues requests per API key until the key's budgets allow them. Sessions sharing a key share
+// its queue, so parallel tool calls can't push the key over Printify's limits.
+export class RequestScheduler {
+  private keys = new Map<string, KeyState>();
+
+  constructor(private limits: typeof PRINTIFY_RATE_LIMITS = PRINTIFY_RATE_LIMITS) {}
+
+  // Run task once the key has budget left. key should identify the API key without being it.
+  schedule<T>(key: string, budget: RateLimitBudget, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const state = this.stateFor(key);
+      state.queues[budget].push(() => {
+        Promise.resolve().then(task).then(resolve, reject);
+      });
+      this.drain(state);
+    });
+  }
+
+  // Hold every request of a key, e.g. after a 429 with Retry-After
+  pause(key: string, milliseconds: number): void {
+    const state = this.stateFor(key);
+    state.blockedUntil = Math.max(state.blockedUntil, Date.now() + milliseconds);
+    this.drain(state);
+  }
+
+  stats(): SchedulerStats {
+    const now = Date.now();
+    const states = Array.from(this.keys.values());
+    const queuedByBudget = Object.fromEntries(
+      BUDGETS.map(budget => [budget, states.reduce((sum, state) => sum + state.queues[budget].length, 0)])
+    ) as Record<RateLimitBudget, number>;
+    return {
+      queued: Object.values(queuedByBudget).reduce((sum, count) => sum + count, 0),
+      queuedByBudget,
+      pausedKeys: states.filter(state => state.blockedUntil > now).length,
+      keys: states.length
+    };
+  }
+
+  private stateFor(key: string): KeyState {
+    let state = this.keys.get(key);
+    if (!state) {
+      state = {
+        key,
+        global: new TokenBucket(this.limits.global.requests, this.limits.global.interval),
+        buckets: {
+          catalog: new TokenBucket(this.limits.catalog.requests, this.limits.catalog.interval),
+          publishing: new TokenBucket(this.limits.publishing.requests, this.limits.publishing.interval)
+        },
+        queues: { default: [], catalog: [], publishing: [] },
+        blockedUntil: 0
+      };
+      this.keys.set(key, state);
+    }
+    return state;
+  }
+
+  // Start every queued request the budgets allow, then wake up when the next one can go. A key
+  // with nothing queued is forgotten once its buckets are full again, which is the same state a
+  // new key starts in, so idle keys don't pile up on a long-running server.
+  private drain(state: KeyState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+
+    const now = Date.now();
+    let nextWait = Infinity;
+    for (const budget of BUDGETS) {
+      const queue = state.queues[budget];
+      while (queue.length > 0) {
+        const wait = Math.max(
+          state.blockedUntil - now,
+          state.global.waitTime(now),
+          state.buckets[budget]?.waitTime(now) ?? 0
+        );
+        if (wait > 0) {
+          nextWait = Math.min(nextWait, wait);
+          break;
+        }
+        state.global.take(now);
+        state.buckets[budget]?.take(now);
+        queue.shift()!();
+      }
+    }
+
+    if (nextWait !== Infinity) {
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        this.drain(state);
+      }, nextWait);
+      return;
+    }
+
+    const idleAfter = Math.max(
+      state.blockedUntil - now,
+      state.global.refillTime(now),
+      ...Object.values(state.buckets).map(bucket => bucket.refillTime(now))
+    );
+    if (idleAfter <= 0) {
+      if (this.keys.get(state.key) === state) this.keys.delete(state.key);
+      return;
+    }
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      this.drain(state);
+    }, idleAfter);
+    state.timer.unref();
+  }
+}
+
+// Queue each call behind the key's budgets. A 429 with Retry-After holds back every other
+// request for the key too, not just the one being retried.
+export function rateLimitMiddleware(scheduler: RequestScheduler, key: string): HttpMiddleware {
+  return async (request, next) => {
+    const response = await scheduler.schedule(key, rateLimitBudget(request.url), () => next(request));
+    const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : undefined;
+    if (retryAfter !== undefined) {
+      scheduler.pause(key, retryAfter);
+    }
+    return response;
+  };
+}
+
+// One scheduler for the whole process, shared by every PrintifyAPI instance
+export const printifyScheduler = new RequestScheduler();
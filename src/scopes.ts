@@ -0,0 +1,168 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Permission scopes attached to each MCP URL / OAuth connection. A session only sees the
+// tools its scopes allow; tools outside them are never registered on its MCP server.
+export const ALL_SCOPES = [
+  'catalog:read',
+  'products:read',
+  'products:write',
+  'products:delete',
+  'publish',
+  'images:generate',
+  'orders:read',
+  'orders:write',
+  'webhooks'
+] as const;
+
+export type Scope = typeof ALL_SCOPES[number];
+
+// Full access is stored as this marker rather than as a scope list, so it keeps covering
+// scopes added in later releases. It is expanded only when tools are registered.
+export const FULL_ACCESS = 'full';
+export type ScopeGrant = Scope[] | typeof FULL_ACCESS;
+
+export const SCOPE_DESCRIPTIONS: Record<Scope, string> = {
+  'catalog:read': 'Browse blueprints, print providers, variants and pricing',
+  'products:read': 'List shops and read products',
+  'products:write': 'Create and update products and upload images',
+  'products:delete': 'Delete products and archive uploaded images',
+  'publish': 'Publish and unpublish products and report sales channel publishing results',
+  'images:generate': 'Generate designs with AI (requires a Replicate token)',
+  'orders:read': 'List and inspect orders, including shipping destinations and tracking',
+  'orders:write': 'Create, send to production and cancel orders (sending charges the account)',
+  'webhooks': 'Manage shop webhooks and read the order and product events they deliver'
+};
+
+export const SCOPE_PRESETS: Record<string, ScopeGrant> = {
+  [FULL_ACCESS]: FULL_ACCESS,
+  'no-destructive': ['catalog:read', 'products:read', 'products:write', 'images:generate', 'orders:read'],
+  'read-only': ['catalog:read', 'products:read', 'orders:read']
+};
+
+// Scope required by each tool. Tools missing from this map are never registered,
+// so new tools have to be classified here before anyone can use them.
+export const TOOL_SCOPES: Record<string, Scope> = {
+  'list-shops': 'products:read',
+  'switch-shop': 'products:read',
+  'list-products': 'products:read',
+  'get-product': 'products:read',
+  'create-product': 'products:write',
+  'create-product-simple': 'products:write',
+  'update-product': 'products:write',
+  'duplicate-product': 'products:write',
+  'copy-product-to-shop': 'products:write',
+  'upload-image': 'products:write',
+  'list-uploads': 'products:read',
+  'get-upload': 'products:read',
+  'archive-upload': 'products:delete',
+  'delete-product': 'products:delete',
+  'publish-product': 'publish',
+  'mark-publish-succeeded': 'publish',
+  'mark-publish-failed': 'publish',
+  'unpublish-product': 'publish',
+  'generate-and-upload-image': 'images:generate',
+  'list-orders': 'orders:read',
+  'get-order': 'orders:read',
+  'create-order': 'orders:write',
+  'send-order-to-production': 'orders:write',
+  'cancel-order': 'orders:write',
+  'list-webhooks': 'webhooks',
+  'create-webhook': 'webhooks',
+  'update-webhook': 'webhooks',
+  'delete-webhook': 'webhooks',
+  'search-blueprints': 'catalog:read',
+  'get-popular-blueprints': 'catalog:read',
+  'calculate-pricing': 'catalog:read',
+  'calculate-shipping': 'catalog:read',
+  'get-variant-colors': 'catalog:read',
+  'get-variant-sizes': 'catalog:read',
+  'validate-product-data': 'catalog:read',
+  'get-blueprints': 'catalog:read',
+  'get-blueprint': 'catalog:read',
+  'get-print-providers': 'catalog:read',
+  'list-print-providers': 'catalog:read',
+  'get-print-provider': 'catalog:read',
+  'compare-providers': 'catalog:read',
+  'get-variants': 'catalog:read',
+  'validate-blueprint': 'catalog:read',
+  'validate-variants': 'catalog:read',
+  'validate-product-config': 'catalog:read',
+  'get-available-colors': 'catalog:read',
+  'normalize-color-name': 'catalog:read'
+};
+
+export function isScope(value: string): value is Scope {
+  return (ALL_SCOPES as readonly string[]).includes(value);
+}
+
+// Parse scopes from a request: a preset name, a scope array or a space-separated string.
+// Missing input means full access, matching sessions created before scopes existed.
+export function parseScopes(value: unknown): ScopeGrant {
+  if (value === undefined || value === null || value === '') {
+    return FULL_ACCESS;
+  }
+
+  if (typeof value === 'string' && SCOPE_PRESETS[value]) {
+    return copyScopes(SCOPE_PRESETS[value]);
+  }
+
+  const requested = typeof value === 'string' ? value.split(/[\s,]+/).filter(s => s.length > 0) : value;
+  if (!Array.isArray(requested) || requested.length === 0) {
+    throw new Error(`scopes must be a preset (${Object.keys(SCOPE_PRESETS).join(', ')}) or a list of scopes`);
+  }
+
+  const invalid = requested.filter(scope => typeof scope !== 'string' || !isScope(scope));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown scopes: ${invalid.join(', ')}. Valid scopes: ${ALL_SCOPES.join(', ')}`);
+  }
+
+  // Keep the canonical order so stored scopes compare cleanly
+  return ALL_SCOPES.filter(scope => requested.includes(scope));
+}
+
+export function copyScopes(grant: ScopeGrant): ScopeGrant {
+  return grant === FULL_ACCESS ? FULL_ACCESS : [...grant];
+}
+
+// The scopes a grant allows today. Records without scopes predate them and have full access.
+export function expandScopes(grant: ScopeGrant | undefined): Scope[] {
+  return grant === undefined || grant === FULL_ACCESS ? [...ALL_SCOPES] : [...grant];
+}
+
+// Scopes allowed by both grants
+export function intersectScopes(a: ScopeGrant, b: ScopeGrant): ScopeGrant {
+  if (a === FULL_ACCESS) return copyScopes(b);
+  if (b === FULL_ACCESS) return [...a];
+  return a.filter(scope => b.includes(scope));
+}
+
+// Read a stored grant. Records without scopes predate them and have full access; any
+// other list is kept as granted, even when it happens to name every current scope.
+export function normalizeStoredScopes(grant: ScopeGrant | undefined): ScopeGrant {
+  return grant === undefined ? FULL_ACCESS : grant;
+}
+
+export function isToolAllowed(toolName: string, scopes: readonly Scope[]): boolean {
+  const required = TOOL_SCOPES[toolName];
+  return !!required && scopes.includes(required);
+}
+
+export type ToolHandlerWrapper = (toolName: string, handler: (...args: any[]) => any) => (...args: any[]) => any;
+
+// Drop-in replacement for server.tool() that skips tools outside the session's scopes.
+// The handler (always the last argument) can be wrapped, e.g. to audit every call.
+export function createScopedToolRegistrar(
+  server: McpServer,
+  scopes: readonly Scope[],
+  wrapHandler?: ToolHandlerWrapper
+): McpServer['tool'] {
+  return ((name: string, ...rest: any[]) => {
+    if (!isToolAllowed(name, scopes)) {
+      return undefined;
+    }
+    if (wrapHandler) {
+      rest[rest.length - 1] = wrapHandler(name, rest[rest.length - 1]);
+    }
+    return (server.tool as (...args: any[]) => unknown)(name, ...rest);
+  }) as McpServer['tool'];
+}
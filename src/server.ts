@@ -1,16 +1,49 @@
 import express from 'express';
 import path from 'path';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { PrintifyAPI, PrintifyErrorCode, ResponseFormatter } from './printify-api.js';
+import { mcpAuthRouter, getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { PrintifyAPI, printifyHttpMetrics } from './printify-api.js';
 import { ReplicateClient } from './replicate-client.js';
-import { z } from 'zod';
+import { createSessionStore, MemorySessionStore, OAuthGrant, SessionCredentials, StoredSession, WorkspaceMembership } from './session-store.js';
+import { createWorkspaceStore, MAX_WORKSPACE_ACTIVITY, MemoryWorkspaceStore, ROLE_SCOPES, Workspace, WorkspaceInvite, WorkspaceRole } from './workspace-store.js';
+import { CredentialVault, EncryptedEnvelope, fingerprintSecret } from './credential-vault.js';
+import { OAuthClientsStore, PrintifyOAuthProvider } from './oauth-provider.js';
+import { McpSessionManager, SseSessionRegistry } from './mcp-session-manager.js';
+import { createEventStoreFactory } from './event-store.js';
+import { AuditEntry, auditToolHandler, createAuditLog, MemoryAuditLog, recordResourceChange, sanitizeArguments } from './audit-log.js';
+import { createWebhookStore, MAX_WEBHOOK_EVENTS, MemoryWebhookStore, verifyWebhookSignature, WebhookEvent, WebhookReceiver } from './webhook-store.js';
+import { createCatalogIndex } from './catalog-index.js';
+import { printifyScheduler } from './request-scheduler.js';
+import { createPrintifyMcpServer, WebhookReceiverHost } from './mcp-server.js';
+import {
+  ALL_SCOPES,
+  copyScopes,
+  expandScopes,
+  FULL_ACCESS,
+  intersectScopes,
+  normalizeStoredScopes,
+  parseScopes,
+  Scope,
+  SCOPE_DESCRIPTIONS,
+  SCOPE_PRESETS,
+  ScopeGrant
+} from './scopes.js';
 import crypto from 'crypto';
 
 const __dirname = path.resolve();
 
 const app = express();
-app.use(express.json());
+app.set('trust proxy', 1); // Railway and similar platforms terminate TLS at a proxy
+// Keep the exact bytes received; webhook signatures are computed over them
+app.use(express.json({
+  verify: (req, res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
+
+const PORT = parseInt(process.env.PORT || '3000', 10);
+const HOST = '0.0.0.0'; // Bind to all interfaces for container compatibility
 
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, 'public')));
@@ -38,6 +71,7 @@ app.use((req, res, next) => {
   res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, X-Replicate-Token, mcp-session-id, Last-Event-ID');
   res.header('Access-Control-Allow-Credentials', 'true');
+  res.header('Access-Control-Expose-Headers', 'WWW-Authenticate, mcp-session-id');
   res.header('Access-Control-Max-Age', '86400'); // 24 hours
   
   if (req.method === 'OPTIONS') {
@@ -46,272 +80,296 @@ app.use((req, res, next) => {
   next();
 });
 
-// Color normalization helper functions
-const COLOR_MAPPINGS: {[key: string]: string} = {
-  // Primary mappings - map variants to standard colors
-  'carolina blue': 'blue',
-  'sky blue': 'blue',
-  'baby blue': 'blue',
-  'royal blue': 'blue',
-  'navy blue': 'blue',
-  'ocean blue': 'blue',
-  'cobalt': 'blue',
-  'azure': 'blue',
-  'teal': 'blue',
-  'turquoise': 'blue',
-  'cerulean': 'blue',
-  'sapphire': 'blue',
-  'indigo': 'blue',
-  'denim': 'blue',
-  'steel blue': 'blue',
-  'powder blue': 'blue',
-  
-  'jet black': 'black',
-  'midnight': 'black',
-  'ebony': 'black',
-  'onyx': 'black',
-  'carbon': 'black',
-  'pitch black': 'black',
-  
-  'charcoal': 'gray',
-  'heather gray': 'gray',
-  'heather grey': 'gray',
-  'silver': 'gray',
-  'ash': 'gray',
-  'slate': 'gray',
-  'graphite': 'gray',
-  'smoke': 'gray',
-  'stone': 'gray',
-  'pewter': 'gray',
-  'concrete': 'gray',
-  'dove gray': 'gray',
-  'storm': 'gray',
-  
-  'off white': 'white',
-  'off-white': 'white',
-  'ivory': 'white',
-  'cream': 'white',
-  'natural': 'white',
-  'snow': 'white',
-  'pearl': 'white',
-  'bone': 'white',
-  'vanilla': 'white',
-  'eggshell': 'white',
-  'linen': 'white',
-  'antique white': 'white',
-  
-  'cardinal': 'red',
-  'scarlet': 'red',
-  'crimson': 'red',
-  'burgundy': 'red',
-  'cherry': 'red',
-  'ruby': 'red',
-  'maroon': 'red',
-  'wine': 'red',
-  'brick': 'red',
-  'fire': 'red',
-  'flame': 'red',
-  'raspberry': 'red',
-  'blood red': 'red',
-  
-  'forest green': 'green',
-  'forest': 'green',
-  'olive': 'green',
-  'emerald': 'green',
-  'mint': 'green',
-  'sage': 'green',
-  'lime': 'green',
-  'kelly green': 'green',
-  'kelly': 'green',
-  'hunter green': 'green',
-  'hunter': 'green',
-  'jade': 'green',
-  'sea green': 'green',
-  'pine': 'green',
-  'moss': 'green',
-  'shamrock': 'green',
-  'grass': 'green',
-  
-  'rose': 'pink',
-  'blush': 'pink',
-  'fuchsia': 'pink',
-  'magenta': 'pink',
-  'coral': 'pink',
-  'salmon': 'pink',
-  'hot pink': 'pink',
-  'bubblegum': 'pink',
-  'carnation': 'pink',
-  'flamingo': 'pink',
-  'dusty rose': 'pink',
-  
-  'violet': 'purple',
-  'lavender': 'purple',
-  'plum': 'purple',
-  'eggplant': 'purple',
-  'orchid': 'purple',
-  'amethyst': 'purple',
-  'grape': 'purple',
-  'mauve': 'purple',
-  'lilac': 'purple',
-  'periwinkle': 'purple',
-  
-  'gold': 'yellow',
-  'mustard': 'yellow',
-  'lemon': 'yellow',
-  'butter': 'yellow',
-  'sunshine': 'yellow',
-  'canary': 'yellow',
-  'daffodil': 'yellow',
-  'honey': 'yellow',
-  'amber': 'yellow',
-  'corn': 'yellow',
-  
-  'rust': 'orange',
-  'burnt orange': 'orange',
-  'tangerine': 'orange',
-  'peach': 'orange',
-  'apricot': 'orange',
-  'pumpkin': 'orange',
-  'terracotta': 'orange',
-  'sunset': 'orange',
-  'copper': 'orange',
-  
-  'tan': 'brown',
-  'beige': 'brown',
-  'taupe': 'brown',
-  'chocolate': 'brown',
-  'coffee': 'brown',
-  'mocha': 'brown',
-  'espresso': 'brown',
-  'caramel': 'brown',
-  'khaki': 'brown',
-  'sand': 'brown',
-  'chestnut': 'brown',
-  'walnut': 'brown',
-  'cocoa': 'brown'
-};
+// Store user sessions and their API keys
+interface UserSession {
+  userId: string;
+  printifyApiKey: string;
+  shopId?: string;
+  printifyClient: PrintifyAPI;
+  initialized: boolean; // Shops loaded since the client was built; an account may have none
+  replicateApiToken?: string;
+  replicateClient?: ReplicateClient;
+  credentials: EncryptedEnvelope;
+  keyFingerprint: string;
+  createdAt: number;
+  lastAccessed: number;
+  lastPersisted: number;
+  expiresAt?: number;
+  scopes: ScopeGrant; // Expanded into tools only when an MCP server is built
+  oauth?: OAuthGrant;
+  workspace?: WorkspaceMembership;
+}
 
-// Normalize a color name to a standard color
-function normalizeColorName(color: string): string {
-  const lowerColor = color.toLowerCase().trim();
-  
-  // Check if it's already a standard color
-  const standardColors = ['white', 'black', 'gray', 'grey', 'red', 'blue', 'green', 'pink', 'purple', 'yellow', 'orange', 'brown', 'navy'];
-  if (standardColors.includes(lowerColor)) {
-    return lowerColor === 'grey' ? 'gray' : lowerColor; // Normalize grey to gray
+// Credentials are envelope-encrypted before they reach any session store. Without a
+// configured master key the vault is ephemeral, so sessions are only kept in memory.
+const credentialVault = CredentialVault.fromEnvironment();
+
+// Durable session records survive restarts; userSessions only caches hydrated clients
+const sessionStore = credentialVault.isEphemeral ? new MemorySessionStore() : createSessionStore();
+const workspaceStore = credentialVault.isEphemeral ? new MemoryWorkspaceStore() : createWorkspaceStore();
+const auditLog = credentialVault.isEphemeral ? new MemoryAuditLog() : createAuditLog();
+const webhookStore = credentialVault.isEphemeral ? new MemoryWebhookStore() : createWebhookStore();
+const catalogIndex = createCatalogIndex(); // Public catalog data, so it is kept even with an ephemeral vault
+const userSessions = new Map<string, UserSession>();
+const pendingSessionLoads = new Map<string, Promise<UserSession | undefined>>();
+
+const SESSION_CACHE_TIMEOUT = 60 * 60 * 1000; // 1 hour
+const SESSION_TTL = parseInt(process.env.SESSION_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000;
+const SESSION_TOUCH_INTERVAL = 60 * 1000; // Persist lastAccessed at most once a minute
+
+// Secret-in-URL endpoints predate OAuth and are off unless LEGACY_MCP_URLS=true, since the URL
+// alone is a credential
+const LEGACY_MCP_URLS = process.env.LEGACY_MCP_URLS === 'true';
+
+// Stateless (default): a new MCP server and transport for every request.
+// Stateful: one per MCP session, with resumable event streams (MCP_SESSION_MODE=stateful).
+const MCP_SESSION_MODE = (process.env.MCP_SESSION_MODE || 'stateless').toLowerCase() === 'stateful' ? 'stateful' : 'stateless';
+const MCP_SESSION_IDLE_TIMEOUT = parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '30', 10) * 60 * 1000;
+const mcpSessions = MCP_SESSION_MODE === 'stateful'
+  ? new McpSessionManager({ idleTimeout: MCP_SESSION_IDLE_TIMEOUT, createEventStore: createEventStoreFactory() })
+  : undefined;
+
+// Connections on the deprecated HTTP+SSE transport, always stateful by design
+const sseSessions = new SseSessionRegistry();
+
+function sealCredentials(printifyApiKey: string, replicateApiToken?: string): EncryptedEnvelope {
+  return credentialVault.seal<SessionCredentials>({ printifyApiKey, replicateApiToken });
+}
+
+function toStoredSession(session: UserSession): StoredSession {
+  return {
+    userId: session.userId,
+    credentials: session.credentials,
+    keyFingerprint: session.keyFingerprint,
+    shopId: session.shopId,
+    createdAt: session.createdAt,
+    lastAccessed: session.lastAccessed,
+    expiresAt: session.expiresAt,
+    scopes: session.scopes,
+    oauth: session.oauth,
+    workspace: session.workspace
+  };
+}
+
+// A session is unusable once its explicit expiry passes or it has been idle longer than the TTL
+function isSessionExpired(session: { lastAccessed: number; expiresAt?: number }, now: number = Date.now()): boolean {
+  if (session.expiresAt && now >= session.expiresAt) return true;
+  return now - session.lastAccessed > SESSION_TTL;
+}
+
+async function saveUserSession(session: UserSession): Promise<void> {
+  await sessionStore.set(toStoredSession(session));
+  session.lastPersisted = Date.now();
+}
+
+// Rebuild the runtime session (API clients) from its stored record
+function hydrateUserSession(stored: StoredSession): UserSession {
+  const credentials = credentialVault.open<SessionCredentials>(stored.credentials);
+  const session: UserSession = {
+    userId: stored.userId,
+    printifyApiKey: credentials.printifyApiKey,
+    shopId: stored.shopId,
+    printifyClient: new PrintifyAPI(credentials.printifyApiKey, stored.shopId),
+    initialized: false,
+    replicateApiToken: credentials.replicateApiToken,
+    credentials: stored.credentials,
+    keyFingerprint: stored.keyFingerprint,
+    createdAt: stored.createdAt,
+    lastAccessed: stored.lastAccessed,
+    lastPersisted: stored.lastAccessed,
+    expiresAt: stored.expiresAt,
+    scopes: normalizeStoredScopes(stored.scopes),
+    oauth: stored.oauth,
+    workspace: stored.workspace
+  };
+
+  if (credentials.replicateApiToken) {
+    session.replicateClient = new ReplicateClient(credentials.replicateApiToken);
   }
-  
-  // Check color mappings
-  if (COLOR_MAPPINGS[lowerColor]) {
-    return COLOR_MAPPINGS[lowerColor];
+
+  attachChangeListeners(session);
+  return session;
+}
+
+// Get a session from the cache, falling back to the persistent store
+async function loadUserSession(userId: string): Promise<UserSession | undefined> {
+  const cached = userSessions.get(userId);
+  if (cached) {
+    if (!isSessionExpired(cached)) return cached;
+    await revokeUserSession(userId);
+    console.log(`Expired session for user ${userId}`);
+    return undefined;
   }
-  
-  // Remove common prefixes/suffixes and try again
-  const cleanedColor = lowerColor
-    .replace(/^(solid|heather|dark|light|bright|pale|deep|medium|vintage|classic)\s+/, '')
-    .replace(/\s+(heather|solid|blend)$/, '')
-    .trim();
-  
-  if (cleanedColor !== lowerColor && COLOR_MAPPINGS[cleanedColor]) {
-    return COLOR_MAPPINGS[cleanedColor];
+
+  // Deduplicate concurrent loads for the same user after a restart
+  let pending = pendingSessionLoads.get(userId);
+  if (!pending) {
+    pending = (async () => {
+      const stored = await sessionStore.get(userId);
+      if (!stored) return undefined;
+
+      if (isSessionExpired(stored)) {
+        await sessionStore.delete(userId);
+        console.log(`Expired persisted session for user ${userId}`);
+        return undefined;
+      }
+
+      const session = hydrateUserSession(stored);
+      userSessions.set(userId, session);
+      console.log(`Restored persisted session for user ${userId}`);
+      return session;
+    })().finally(() => pendingSessionLoads.delete(userId));
+    pendingSessionLoads.set(userId, pending);
   }
+
+  return pending;
+}
+
+// Validate the Printify key and persist a new session for it. Used by URL registration
+// and by the OAuth consent page.
+async function createUserSession(options: {
+  printifyApiKey: string;
+  replicateApiToken?: string;
+  expiresAt?: number;
+  scopes: ScopeGrant;
+  shopId?: string;
+  oauth?: OAuthGrant;
+  workspace?: WorkspaceMembership;
+}): Promise<UserSession> {
+  const { printifyApiKey, replicateApiToken } = options;
   
-  // Try fuzzy matching - find the best match
-  const colorWords = lowerColor.split(/[\s\-_]+/);
-  for (const word of colorWords) {
-    if (COLOR_MAPPINGS[word]) {
-      return COLOR_MAPPINGS[word];
-    }
-    // Check if the word is a standard color
-    if (standardColors.includes(word)) {
-      return word === 'grey' ? 'gray' : word;
-    }
-  }
+  console.log('Initializing Printify API...');
+  const printifyClient = new PrintifyAPI(printifyApiKey, options.shopId);
+  await printifyClient.initialize();
   
-  // Check if the color contains a standard color as substring
-  for (const [mappedColor, standardColor] of Object.entries(COLOR_MAPPINGS)) {
-    if (lowerColor.includes(mappedColor)) {
-      return standardColor;
-    }
-  }
+  const now = Date.now();
+  const session: UserSession = {
+    userId: generateUserEndpoint(),
+    printifyApiKey,
+    shopId: printifyClient.shopId,
+    printifyClient,
+    initialized: true,
+    credentials: sealCredentials(printifyApiKey, replicateApiToken),
+    keyFingerprint: fingerprintSecret(printifyApiKey),
+    createdAt: now,
+    lastAccessed: now,
+    lastPersisted: now,
+    expiresAt: options.expiresAt,
+    scopes: options.scopes,
+    oauth: options.oauth,
+    workspace: options.workspace,
+  };
   
-  // Check standard colors as substrings
-  for (const standardColor of standardColors) {
-    if (lowerColor.includes(standardColor)) {
-      return standardColor === 'grey' ? 'gray' : standardColor;
-    }
+  if (replicateApiToken) {
+    session.replicateApiToken = replicateApiToken;
+    session.replicateClient = new ReplicateClient(replicateApiToken);
   }
   
-  // Return original if no mapping found
-  return lowerColor;
+  attachChangeListeners(session);
+  await saveUserSession(session);
+  userSessions.set(session.userId, session);
+  return session;
 }
 
-// Helper function to extract validation errors from API responses
-function extractValidationErrors(error: any): { field: string; messages: string[] }[] {
-  const validationErrors: { field: string; messages: string[] }[] = [];
-  
-  // Try different error formats that Printify API might return
-  const errorSources = [
-    error.context?.errorDetails?.errors,
-    error.context?.errors,
-    error.errors,
-    error.response?.data?.errors,
-    error.response?.errors
-  ];
+// Attribute every write made through a session to the audited tool call that made it
+// and, for workspace members, to the member
+function attachChangeListeners(session: UserSession): void {
+  session.printifyClient.addChangeListener(recordResourceChange);
   
-  for (const source of errorSources) {
-    if (source && typeof source === 'object') {
-      Object.entries(source).forEach(([field, errors]) => {
-        const messages = Array.isArray(errors) ? errors : [errors];
-        validationErrors.push({
-          field,
-          messages: messages.map(e => String(e))
-        });
-      });
-      break; // Found errors, stop looking
-    }
-  }
+  const membership = session.workspace;
+  if (!membership) return;
   
-  // If no structured errors found, try to parse from message
-  if (validationErrors.length === 0 && error.message) {
-    const messageMatch = error.message.match(/Field errors: (.+)/s);
-    if (messageMatch) {
-      // Parse field errors from message
-      const fieldErrorsText = messageMatch[1];
-      const fieldMatches = fieldErrorsText.matchAll(/([\w.]+): (.+?)(?=\n|$)/g);
-      for (const match of fieldMatches) {
-        validationErrors.push({
-          field: match[1],
-          messages: [match[2]]
+  session.printifyClient.addChangeListener(change => {
+    workspaceStore.update(membership.workspaceId, workspace => {
+      const member = workspace.members.find(m => m.memberId === membership.memberId);
+      workspace.activity.push({
+        at: Date.now(),
+        memberId: membership.memberId,
+        memberName: member?.name ?? 'Removed member',
+        ...change
+      });
+      if (workspace.activity.length > MAX_WORKSPACE_ACTIVITY) {
+        workspace.activity.splice(0, workspace.activity.length - MAX_WORKSPACE_ACTIVITY);
+      }
+    }).catch(error => console.error('Failed to record workspace activity:', error));
+  });
+}
+
+// Audit entries refer to sessions by a hash, since a legacy session ID is a bearer credential
+function auditSessionRef(userId: string): string {
+  return fingerprintSecret(userId).slice(0, 16);
+}
+
+// Invalidate an MCP URL immediately, both in the store and in the runtime cache
+async function revokeUserSession(userId: string): Promise<void> {
+  userSessions.delete(userId);
+  await sessionStore.delete(userId);
+  await mcpSessions?.closeForOwner(userId);
+  await sseSessions.closeForOwner(userId);
+}
+
+// Re-wrap every stored session under the current master key. Run at startup so that after
+// rotating SESSION_ENCRYPTION_KEY the old key can be removed from SESSION_ENCRYPTION_PREVIOUS_KEYS.
+// Records written before encryption was introduced still carry plaintext keys and are sealed here;
+// records without a key fingerprint get one so they show up in /api/endpoints.
+async function rotateSessionKeys(): Promise<number> {
+  let rotated = 0;
+
+  for (const stored of await sessionStore.list()) {
+    const legacy = stored as StoredSession & Partial<SessionCredentials>;
+
+    try {
+      if (!stored.credentials && legacy.printifyApiKey) {
+        const { printifyApiKey, replicateApiToken, ...rest } = legacy;
+        await sessionStore.set({
+          ...rest,
+          credentials: sealCredentials(printifyApiKey, replicateApiToken),
+          keyFingerprint: fingerprintSecret(printifyApiKey)
         });
+        rotated++;
+        continue;
+      }
+
+      if (!stored.keyFingerprint) {
+        const credentials = credentialVault.open<SessionCredentials>(stored.credentials);
+        stored.keyFingerprint = fingerprintSecret(credentials.printifyApiKey);
+      } else if (!credentialVault.needsRewrap(stored.credentials)) {
+        continue;
       }
+
+      await sessionStore.set({ ...stored, credentials: credentialVault.rewrap(stored.credentials) });
+      rotated++;
+    } catch (error: any) {
+      console.error(`Failed to re-encrypt session ${stored.userId}: ${error.message}`);
     }
   }
-  
-  return validationErrors;
-}
 
-// Store user sessions and their API keys
-interface UserSession {
-  printifyApiKey: string;
-  shopId?: string;
-  printifyClient: PrintifyAPI;
-  replicateClient?: ReplicateClient;
-  lastAccessed: number;
+  return rotated;
 }
 
-const userSessions = new Map<string, UserSession>();
-
 // Clean up inactive sessions every 30 minutes
-setInterval(() => {
+setInterval(async () => {
   const now = Date.now();
-  const sessionTimeout = 60 * 60 * 1000; // 1 hour
   
+  // Drop idle runtime clients; they are rebuilt from the store on next use
   for (const [userId, session] of userSessions.entries()) {
-    if (now - session.lastAccessed > sessionTimeout) {
+    if (now - session.lastAccessed > SESSION_CACHE_TIMEOUT) {
       userSessions.delete(userId);
-      console.log(`Cleaned up inactive session for user ${userId}`);
+      console.log(`Unloaded inactive session for user ${userId}`);
+    }
+  }
+  
+  // Remove persisted sessions that have not been used within the TTL
+  try {
+    for (const stored of await sessionStore.list()) {
+      const active = userSessions.get(stored.userId);
+      if (isSessionExpired(active || stored, now)) {
+        await revokeUserSession(stored.userId);
+        console.log(`Cleaned up expired session for user ${stored.userId}`);
+      }
     }
+  } catch (error) {
+    console.error('Failed to clean up persisted sessions:', error);
   }
 }, 30 * 60 * 1000); // Run every 30 minutes
 
@@ -330,2711 +388,1154 @@ const validateApiKey = async (req: express.Request, res: express.Response, next:
   next();
 };
 
-// Create MCP server instance for a specific user session
-function createUserMcpServer(session: UserSession) {
+// Create MCP server instance for a specific user session, exposing only the tools its scopes allow
+function createUserMcpServer(session: UserSession, scopes: Scope[] = expandScopes(session.scopes)) {
   try {
-    // Ensure the Printify client has a valid shop ID
-    if (!session.printifyClient.shopId) {
-      const shops = session.printifyClient.shops || [];
-      if (shops.length > 0) {
-        // Re-initialize with the first available shop
-        session.printifyClient.shopId = String(shops[0].id);
-        console.log(`Recovered shop ID: ${shops[0].title} (${shops[0].id})`);
-      } else {
-        console.warn('No shops available for session, API calls may fail');
-      }
-    }
+    const auditContext = {
+      sessionRef: auditSessionRef(session.userId),
+      keyFingerprint: session.keyFingerprint,
+      clientId: session.oauth?.clientId,
+      workspaceId: session.workspace?.workspaceId,
+      memberId: session.workspace?.memberId
+    };
     
-    const server = new McpServer({
-      name: "printify-mcp",
-      version: "1.0.0",
-      vendor: "printify"
-    });
-
-  // List shops tool
-  server.tool(
-    "list-shops",
-    {},
-    async () => {
-      const shops = await session.printifyClient.getShops();
-      
-      let output = `🏪 Available Shops\n`;
-      output += `═══════════════\n\n`;
-      
-      if (!shops || shops.length === 0) {
-        output += `❌ No shops found\n\n`;
-        output += `💡 Tips:\n`;
-        output += `• Ensure your Printify API key has access to shops\n`;
-        output += `• Check your Printify account has connected stores\n`;
-      } else {
-        const currentShopId = session.printifyClient.shopId;
-        
-        shops.forEach((shop: any, index: number) => {
-          const isCurrent = String(shop.id) === String(currentShopId);
-          output += `${isCurrent ? '→ ' : '  '}${index + 1}. ${shop.title}\n`;
-          output += `     ID: ${shop.id}\n`;
-          output += `     Channel: ${shop.sales_channel || 'Unknown'}\n`;
-          if (isCurrent) output += `     (Current Shop)\n`;
-          output += `\n`;
+    return createPrintifyMcpServer({
+      printifyClient: session.printifyClient,
+      replicateClient: session.replicateClient,
+      scopes,
+      wrapToolHandler: (name, handler) => auditToolHandler(auditLog, auditContext, name, handler),
+      // Remember the selection so it survives restarts
+      onShopChanged: async shopId => {
+        session.shopId = shopId;
+        await saveUserSession(session);
+      },
+      // Workspace members only see their workspace
+      readRecentAudit: async () => {
+        const entries = await auditLog.query({
+          keyFingerprint: session.keyFingerprint,
+          workspaceId: session.workspace?.workspaceId,
+          limit: 50
         });
-        
-        output += `💡 Actions:\n`;
-        output += `• Switch shop: switch-shop {shop_id}\n`;
-        output += `• View products: list-products\n`;
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: output
-        }]
-      };
-    }
-  );
-
-  // Switch shop tool
-  server.tool(
-    "switch-shop",
-    {
-      shopId: z.string().describe("The ID of the shop to switch to")
-    },
-    async ({ shopId }) => {
-      await session.printifyClient.setShop(shopId);
-      return {
-        content: [{
-          type: "text",
-          text: `Switched to shop ${shopId}`
-        }]
-      };
-    }
-  );
+        return entries.map(describeAuditEntry);
+      },
+      webhookReceivers: createWebhookReceiverHost(session),
+      catalogIndex
+    });
+  } catch (error) {
+    console.error('Error creating MCP server:', error);
+    throw new Error(`Failed to create MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-  // List products tool
-  server.tool(
-    "list-products",
-    {
-      page: z.number().optional().default(1).describe("Page number"),
-      limit: z.number().optional().default(10).describe("Number of products per page")
-    },
-    async ({ page, limit }) => {
-      const products = await session.printifyClient.getProducts(page, limit);
-      
-      let output = `📦 Product List\n`;
-      output += `═══════════════\n\n`;
-      
-      if (!products.data || products.data.length === 0) {
-        output += `❌ No products found\n\n`;
-        output += `💡 Get started:\n`;
-        output += `• Create your first product: create-product-simple\n`;
-        output += `• Browse blueprints: get-popular-blueprints\n`;
-        output += `• Upload a design: upload-image\n`;
-      } else {
-        output += `📊 Page ${products.current_page} of ${products.last_page} (${products.total} total products)\n\n`;
-        
-        products.data.forEach((product: any, index: number) => {
-          const num = (page - 1) * limit + index + 1;
-          output += `${num}. ${product.title}\n`;
-          output += `   🆔 ID: ${product.id}\n`;
-          output += `   📋 Blueprint: ${product.blueprint_id}\n`;
-          output += `   👕 Variants: ${product.variants?.filter((v: any) => v.is_enabled).length || 0} enabled\n`;
-          output += `   👁️ Status: ${product.visible ? 'Published' : 'Draft'}\n`;
-          output += `   📅 Created: ${new Date(product.created_at).toLocaleDateString()}\n`;
-          output += `\n`;
-        });
-        
-        output += `📄 Pagination:\n`;
-        if (page > 1) output += `• Previous: list-products page=${page - 1} limit=${limit}\n`;
-        if (page < products.last_page) output += `• Next: list-products page=${page + 1} limit=${limit}\n`;
-        output += `\n`;
-        
-        output += `💡 Actions:\n`;
-        output += `• View details: get-product {product_id}\n`;
-        output += `• Create new: create-product-simple\n`;
-        output += `• Update: update-product {product_id}\n`;
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: output
-        }]
-      };
-    }
-  );
+// Generate unique API endpoint for each user
+function generateUserEndpoint(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
 
-  // Get product details
-  server.tool(
-    "get-product",
-    {
-      productId: z.string().describe("Product ID")
-    },
-    async ({ productId }) => {
-      const product = await session.printifyClient.getProduct(productId);
-      
-      let output = `📋 Product Details\n`;
-      output += `═══════════════════\n\n`;
-      output += `🆔 ID: ${product.id}\n`;
-      output += `📝 Title: ${product.title}\n`;
-      output += `📄 Description: ${product.description || 'No description'}\n`;
-      output += `🏷️ Tags: ${product.tags?.join(', ') || 'No tags'}\n`;
-      output += `📋 Blueprint: ${product.blueprint_id}\n`;
-      output += `🖨️ Print Provider: ${product.print_provider_id}\n`;
-      output += `👁️ Visible: ${product.visible ? 'Yes' : 'No'}\n`;
-      output += `📅 Created: ${new Date(product.created_at).toLocaleDateString()}\n`;
-      output += `🔄 Updated: ${new Date(product.updated_at).toLocaleDateString()}\n\n`;
-      
-      output += `👕 Variants: ${product.variants?.length || 0}\n`;
-      if (product.variants && product.variants.length > 0) {
-        const enabledVariants = product.variants.filter((v: any) => v.is_enabled);
-        output += `  • Enabled: ${enabledVariants.length}\n`;
-        output += `  • Disabled: ${product.variants.length - enabledVariants.length}\n`;
-      }
-      
-      output += `🖼️ Images: ${product.images?.length || 0}\n`;
-      output += `📐 Print Areas: ${product.print_areas?.length || 0} configured\n\n`;
-      
-      output += `💡 Actions:\n`;
-      output += `• Update: update-product ${product.id}\n`;
-      output += `• Publish: publish-product ${product.id}\n`;
-      output += `• Delete: delete-product ${product.id}\n`;
-      
-      return {
-        content: [{
-          type: "text",
-          text: output
-        }]
-      };
+// Mark a session as used and make sure its Printify client is ready. Answers the request
+// with an error and returns false when the client cannot be recovered.
+async function prepareSession(session: UserSession, res: express.Response): Promise<boolean> {
+  // Update last accessed time
+  session.lastAccessed = Date.now();
+  if (session.lastAccessed - session.lastPersisted > SESSION_TOUCH_INTERVAL) {
+    saveUserSession(session).catch(error => console.error('Failed to persist session access time:', error));
+  }
+  
+  // Session recovery: the client was just rebuilt from the store and has not loaded its shops yet.
+  // Accounts without shops count as initialized too, so they aren't reloaded on every request.
+  if (!session.initialized) {
+    console.log('Session not initialized, attempting recovery...');
+    try {
+      await session.printifyClient.initialize();
+      session.shopId = session.printifyClient.shopId;
+      session.initialized = true;
+      console.log('Session recovered successfully');
+    } catch (initError) {
+      console.error('Failed to recover session:', initError);
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: 'Session recovery failed. Please re-register.',
+        },
+        id: null,
+      });
+      return false;
     }
-  );
+  }
+  
+  return true;
+}
 
-  // Create product tool
-  server.tool(
-    "create-product",
-    {
-      title: z.string().describe("Product title (e.g., 'Cool T-Shirt Design')"),
-      description: z.string().describe("Product description for customers"),
-      blueprintId: z.number().describe("Blueprint ID (e.g., 5 for Bella+Canvas 3001 T-Shirt)"),
-      printProviderId: z.number().describe("Print provider ID (get from get-print-providers)"),
-      variants: z.array(z.object({
-        variantId: z.number().describe("Variant ID from get-variants"),
-        price: z.number().describe("Price in cents (e.g., 1999 for $19.99)"),
-        isEnabled: z.boolean().optional().default(true).describe("Whether to sell this variant")
-      })).describe("Product variants with pricing"),
-      printAreas: z.record(z.string(), z.object({
-        position: z.string().describe("Print position (e.g., 'front', 'back')"),
-        imageId: z.string().describe("Image ID from upload-image"),
-        x: z.number().optional().default(0.5).describe("Horizontal position (0-1, default: 0.5 for center)"),
-        y: z.number().optional().default(0.5).describe("Vertical position (0-1, default: 0.5 for center)"),
-        scale: z.number().optional().default(1).describe("Scale factor (0.5-2, default: 1)"),
-        angle: z.number().optional().default(0).describe("Rotation angle in degrees (default: 0)")
-      })).optional().describe("Design placement on product with positioning")
-    },
-    async (params) => {
-      try {
-        // Get blueprint for additional context in response
-        let blueprint;
-        try {
-          blueprint = await session.printifyClient.getBlueprint(params.blueprintId.toString());
-        } catch (error) {
-          // Don't fail if we can't get blueprint details
-        }
-        
-        const product = await session.printifyClient.createProduct(params);
-        
-        // Calculate pricing summary if variants are available
-        let pricingSummary = '';
-        if (product.variants && product.variants.length > 0) {
-          const enabledVariants = product.variants.filter((v: any) => v.is_enabled);
-          if (enabledVariants.length > 0) {
-            const prices = enabledVariants.map((v: any) => v.price);
-            const minPrice = Math.min(...prices);
-            const maxPrice = Math.max(...prices);
-            const avgPrice = prices.reduce((sum: number, p: number) => sum + p, 0) / prices.length;
-            
-            // Try to get cost information from variants data
-            let costInfo = '';
-            try {
-              const variantsData = await session.printifyClient.getVariants(
-                params.blueprintId.toString(),
-                params.printProviderId.toString()
-              );
-              if (variantsData.variants) {
-                const variantCosts = new Map();
-                variantsData.variants.forEach((v: any) => {
-                  variantCosts.set(v.id, v.cost);
-                });
-                
-                const costs = enabledVariants
-                  .map((v: any) => variantCosts.get(v.id))
-                  .filter((cost: any) => cost !== undefined);
-                
-                if (costs.length > 0) {
-                  const minCost = Math.min(...costs);
-                  const maxCost = Math.max(...costs);
-                  const avgCost = costs.reduce((sum: number, c: number) => sum + c, 0) / costs.length;
-                  const avgProfit = avgPrice - avgCost;
-                  const profitMargin = Math.round((avgProfit / avgPrice) * 100);
-                  
-                  costInfo = `\n💰 Pricing Analysis:\n`;
-                  costInfo += `• Cost range: ${minCost === maxCost ? `$${(minCost / 100).toFixed(2)}` : `$${(minCost / 100).toFixed(2)} - $${(maxCost / 100).toFixed(2)}`}\n`;
-                  costInfo += `• Selling price: ${minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`}\n`;
-                  costInfo += `• Average profit: $${(avgProfit / 100).toFixed(2)} per item\n`;
-                  costInfo += `• Profit margin: ${profitMargin}%\n`;
-                }
-              }
-            } catch (error) {
-              // Ignore cost calculation errors
-            }
-            
-            pricingSummary = costInfo || `\n💰 Pricing:\n• Price range: ${minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`}\n`;
-          }
-        }
-        
-        const formattedResponse = ResponseFormatter.formatProductCreated(product, blueprint);
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedResponse + pricingSummary
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, 'creating product');
-        
-        let troubleshootingGuidance = `\n🔧 Pre-creation Validation:\n`;
-        troubleshootingGuidance += `• Use validate-product-config to check all parameters before creation\n`;
-        troubleshootingGuidance += `• Use validate-blueprint ${params.blueprintId} to verify blueprint\n`;
-        troubleshootingGuidance += `• Use validate-variants ${params.blueprintId} ${params.printProviderId} to check variants\n`;
-        troubleshootingGuidance += `• Ensure images are uploaded successfully with upload-image\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + troubleshootingGuidance
-          }]
-        };
-      }
+// Serve one MCP request for a resolved session
+async function handleMcpRequest(session: UserSession, req: express.Request, res: express.Response, scopes?: Scope[]) {
+  try {
+    if (!(await prepareSession(session, res))) return;
+    
+    if (mcpSessions) {
+      await mcpSessions.handleRequest(req, res, session.userId, scopes ?? expandScopes(session.scopes), () => createUserMcpServer(session, scopes));
+      return;
     }
-  );
-
-  // Simplified product creation tool with improved validation and error recovery
-  server.tool(
-    "create-product-simple",
-    {
-      title: z.string().describe("Product title"),
-      description: z.string().optional().default("").describe("Product description"),
-      blueprintId: z.number().describe("Blueprint ID (use get-popular-blueprints for common IDs)"),
-      imageId: z.string().describe("Image ID from upload-image"),
-      profitMargin: z.string().optional().default("50%").describe("Profit margin (e.g., '50%' or '100%')"),
-      includeColors: z.string().optional().default("white,black").describe("Comma-separated colors to include"),
-      includeSizes: z.string().optional().default("M,L,XL,2XL").describe("Comma-separated sizes to include")
-    },
-    async ({ title, description, blueprintId, imageId, profitMargin, includeColors, includeSizes }) => {
-      try {
-        // STEP 1: Enhanced pre-validation
-        const validationErrors: string[] = [];
-        const warnings: string[] = [];
-        
-        // Title validation
-        if (!title || title.trim().length < 3) {
-          validationErrors.push("Title must be at least 3 characters long");
-        } else if (title.trim().length > 100) {
-          warnings.push("Title is very long (>100 chars) - consider shortening for better display");
-        }
-        
-        // Description validation - ensure default is applied
-        const finalDescription = description || "";
-        
-        // Image ID validation - more flexible regex
-        if (!imageId || imageId.trim().length === 0) {
-          validationErrors.push("Image ID is required - use upload-image first");
-        } else if (!imageId.match(/^[a-zA-Z0-9]{24}$/)) {
-          // Printify image IDs are typically 24 alphanumeric characters
-          // Don't error out, just warn if format looks different
-          if (!imageId.match(/^[a-zA-Z0-9_-]{16,32}$/)) {
-            warnings.push(`Image ID format looks unusual: ${imageId} - ensure it's from upload-image`);
-          }
-        }
-        
-        // Blueprint ID validation
-        if (!blueprintId || blueprintId <= 0) {
-          validationErrors.push("Invalid blueprint ID - must be a positive number");
-        }
-        
-        // Color/size validation
-        const colorList = includeColors.toLowerCase().split(',').map(c => c.trim()).filter(c => c.length > 0);
-        const sizeList = includeSizes.toUpperCase().split(',').map(s => s.trim()).filter(s => s.length > 0);
-        
-        if (colorList.length === 0) {
-          warnings.push("No colors specified - will try to match any color");
-        } else if (colorList.length > 10) {
-          warnings.push("Many colors requested - this may limit available variants");
-        }
-        
-        if (sizeList.length === 0) {
-          warnings.push("No sizes specified - will try to match any size");
-        }
-        
-        // Profit margin validation
-        const marginMatch = profitMargin.match(/^(\d+(?:\.\d+)?)\s*%?$/);
-        if (!marginMatch) {
-          validationErrors.push("Invalid profit margin format - use '50%' or '0.5'");
-        } else {
-          let marginValue = parseFloat(marginMatch[1]);
-          // If value is greater than 1 and has %, treat as percentage
-          if (profitMargin.includes('%') && marginValue > 1) {
-            // This is fine, it's a percentage like 50%
-          } else if (!profitMargin.includes('%') && marginValue > 1) {
-            // Assume it's meant to be a percentage (e.g., 50 means 50%)
-            marginValue = marginValue;
-          }
-          
-          if (marginValue < 10) {
-            warnings.push("Low profit margin (<10%) - consider increasing for sustainability");
-          } else if (marginValue > 200) {
-            warnings.push("Very high profit margin (>200%) - may affect competitiveness");
-          }
-        }
-        
-        if (validationErrors.length > 0) {
-          throw new Error(
-            `❌ Validation failed\n\n` +
-            `🚫 Errors:\n${validationErrors.map(e => `• ${e}`).join('\n')}\n\n` +
-            `💡 Quick fixes:\n` +
-            `• Use get-popular-blueprints for valid blueprint IDs\n` +
-            `• Upload an image first with upload-image\n` +
-            `• Example: title='My Product' blueprintId=77 imageId='...' colors='white,black'`
-          );
-        }
-        
-        // Log warnings but don't fail
-        if (warnings.length > 0 && process.env.PRINTIFY_DEBUG === 'true') {
-          console.log(`[DEBUG] Warnings: ${warnings.join('; ')}`);
-        }
-        
-        // Debug logging function
-        const debugLog = (message: string) => {
-          if (process.env.PRINTIFY_DEBUG === 'true') {
-            console.log(`[DEBUG] create-product-simple: ${message}`);
-          }
-        };
-        
-        debugLog(`Starting product creation - Title: "${title}", Blueprint: ${blueprintId}, Image: ${imageId}`);
-        
-        // STEP 2: Validate blueprint with error recovery
-        let blueprint;
-        try {
-          debugLog(`Validating blueprint ${blueprintId}...`);
-          blueprint = await session.printifyClient.getBlueprint(blueprintId.toString());
-          if (!blueprint) {
-            throw new Error(`Blueprint ${blueprintId} not found`);
-          }
-          debugLog(`Blueprint validated: ${blueprint.title || 'Unknown'}`);
-        } catch (error: any) {
-          debugLog(`Blueprint validation failed: ${error.message}`);
-          throw new Error(`Blueprint validation failed: ${error.message}\n• Use get-popular-blueprints to find valid blueprint IDs`);
-        }
-        
-        // STEP 3: Get print providers with fallback
-        let providers;
-        try {
-          debugLog(`Getting print providers for blueprint ${blueprintId}...`);
-          providers = await session.printifyClient.getPrintProviders(blueprintId.toString());
-          if (!providers || providers.length === 0) {
-            throw new Error(`No print providers available for blueprint ${blueprintId} (${blueprint.title})`);
-          }
-          debugLog(`Found ${providers.length} print providers`);
-        } catch (error: any) {
-          debugLog(`Print provider lookup failed: ${error.message}`);
-          throw new Error(`Print provider lookup failed: ${error.message}\n• This blueprint may not be available in your region`);
-        }
-        
-        const printProviderId = providers[0].id;
-        debugLog(`Selected print provider: ${providers[0].title || 'Unknown'} (ID: ${printProviderId})`)
-        
-        // STEP 4: Get and validate variants
-        let variantsData;
-        try {
-          variantsData = await session.printifyClient.getVariants(
-            blueprintId.toString(), 
-            printProviderId.toString()
-          );
-          if (!variantsData || !variantsData.variants || variantsData.variants.length === 0) {
-            throw new Error(`No variants available for blueprint ${blueprintId} with provider ${printProviderId}`);
-          }
-        } catch (error: any) {
-          throw new Error(`Variant lookup failed: ${error.message}\n• Try a different blueprint or check provider availability`);
-        }
-        
-        // STEP 5: Enhanced variant filtering with improved matching
-        // Normalize color names first
-        const requestedColors = includeColors.toLowerCase().split(',').map(c => c.trim()).filter(c => c.length > 0)
-          .map(color => normalizeColorName(color));
-        const requestedSizes = includeSizes.toUpperCase().split(',').map(s => s.trim()).filter(s => s.length > 0);
-        
-        const allVariants = variantsData.variants || [];
-        
-        debugLog(`Total variants available: ${allVariants.length}`);
-        debugLog(`Requested colors: ${requestedColors.join(', ')}`);
-        debugLog(`Requested sizes: ${requestedSizes.join(', ')}`);
-        
-        // Enhanced color matching with fuzzy logic
-        const enhancedColorMatch = (variantTitle: string, requestedColor: string) => {
-          const titleLower = variantTitle.toLowerCase();
-          const colorLower = requestedColor.toLowerCase();
-          
-          // Direct match
-          if (titleLower.includes(colorLower)) return true;
-          
-          // Handle common variations - expanded color mapping
-          const colorVariations: {[key: string]: string[]} = {
-            'white': ['white', 'solid white', 'natural', 'cream', 'ivory', 'off-white', 'snow'],
-            'black': ['black', 'solid black', 'dark', 'jet black', 'midnight'],
-            'gray': ['gray', 'grey', 'heather gray', 'heather grey', 'charcoal', 'silver', 'ash', 'slate'],
-            'red': ['red', 'cardinal', 'scarlet', 'crimson', 'burgundy', 'cherry', 'ruby', 'maroon'],
-            'blue': ['blue', 'navy', 'royal blue', 'sapphire', 'carolina blue', 'sky blue', 'baby blue', 'ocean', 'cobalt', 'azure', 'teal'],
-            'green': ['green', 'forest', 'olive', 'emerald', 'mint', 'sage', 'lime', 'kelly green', 'hunter green'],
-            'pink': ['pink', 'rose', 'blush', 'fuchsia', 'magenta', 'coral', 'salmon'],
-            'purple': ['purple', 'violet', 'lavender', 'plum', 'eggplant', 'orchid'],
-            'yellow': ['yellow', 'gold', 'mustard', 'lemon', 'butter', 'sunshine'],
-            'orange': ['orange', 'rust', 'burnt orange', 'tangerine', 'peach', 'apricot'],
-            'brown': ['brown', 'tan', 'beige', 'taupe', 'chocolate', 'coffee', 'mocha']
-          };
-          
-          // Check if requested color has variations
-          const variations = colorVariations[colorLower] || [];
-          return variations.some(variant => titleLower.includes(variant));
-        };
-        
-        // Enhanced size matching with better boundaries
-        const enhancedSizeMatch = (variantTitle: string, requestedSize: string) => {
-          // Extract size from variant title more reliably
-          // Common patterns: "Color / Size", "Color - Size", "Color Size"
-          const sizePatterns = [
-            new RegExp(`[/\\-\\s]\\s*${requestedSize}\\s*$`, 'i'), // End of string
-            new RegExp(`[/\\-\\s]\\s*${requestedSize}\\s*[/\\-\\s]`, 'i'), // Middle
-            new RegExp(`^${requestedSize}\\s*[/\\-\\s]`, 'i'), // Start
-            new RegExp(`\\b${requestedSize}\\b`, 'i') // Word boundary
-          ];
-          
-          return sizePatterns.some(pattern => pattern.test(variantTitle));
-        };
-        
-        // Filter variants with enhanced matching
-        let filteredVariants = allVariants.filter((v: any) => {
-          const title = v.title;
-          
-          const hasRequestedColor = requestedColors.length === 0 || 
-            requestedColors.some(color => enhancedColorMatch(title, color));
-          
-          const hasRequestedSize = requestedSizes.length === 0 ||
-            requestedSizes.some(size => enhancedSizeMatch(title, size));
-          
-          if (hasRequestedColor && hasRequestedSize) {
-            debugLog(`Matched variant: ${title}`);
-          }
-          
-          return hasRequestedColor && hasRequestedSize;
-        });
-        
-        debugLog(`Initial filter matched ${filteredVariants.length} variants`);
-        
-        // Progressive fallback strategy
-        if (filteredVariants.length === 0) {
-          debugLog('No exact matches found, trying fallback strategies...');
-          
-          // Fallback 1: Try colors only (ignore sizes)
-          if (requestedColors.length > 0) {
-            filteredVariants = allVariants.filter((v: any) => 
-              requestedColors.some(color => enhancedColorMatch(v.title, color))
-            );
-            debugLog(`Color-only fallback matched ${filteredVariants.length} variants`);
-          }
-          
-          // Fallback 2: Try common color/size combinations
-          if (filteredVariants.length === 0) {
-            const commonColors = ['white', 'black', 'gray', 'navy'];
-            const commonSizes = ['M', 'L', 'XL'];
-            
-            filteredVariants = allVariants.filter((v: any) => {
-              const title = v.title.toLowerCase();
-              const hasCommonColor = commonColors.some(color => title.includes(color));
-              const hasCommonSize = commonSizes.some(size => enhancedSizeMatch(v.title, size));
-              return hasCommonColor && hasCommonSize;
-            });
-            debugLog(`Common combo fallback matched ${filteredVariants.length} variants`);
-          }
-          
-          // Fallback 3: Use most popular variants (first few)
-          if (filteredVariants.length === 0) {
-            const fallbackCount = Math.min(5, allVariants.length);
-            filteredVariants = allVariants.slice(0, fallbackCount);
-            debugLog(`Using first ${fallbackCount} variants as final fallback`);
-          }
-        }
-        
-        const variants = filteredVariants.map((v: any) => {
-          const pricing = session.printifyClient.calculatePricing(v.cost, profitMargin);
-          return {
-            variantId: v.id,
-            price: pricing.price,
-            isEnabled: true
-          };
-        });
-
-        if (variants.length === 0) {
-          // Provide detailed error with available options
-          const sampleVariants = allVariants.slice(0, 5).map((v: any) => v.title);
-          const availableColors = new Set<string>();
-          const availableSizes = new Set<string>();
-          
-          // Extract available colors and sizes for better guidance
-          allVariants.forEach((v: any) => {
-            const title = v.title;
-            // Extract color (usually before / or -)
-            const colorMatch = title.match(/^([^\/\-]+?)(?:\s*[\/\-]|$)/);
-            if (colorMatch) availableColors.add(colorMatch[1].trim());
-            
-            // Extract size (usually after / or -)
-            const sizeMatch = title.match(/[\/\-]\s*([XSMLXL0-9]+)$/i);
-            if (sizeMatch) availableSizes.add(sizeMatch[1].trim().toUpperCase());
-          });
-          
-          throw new Error(
-            `❌ No variants could be created for blueprint ${blueprintId}\n\n` +
-            `📋 What went wrong:\n` +
-            `• Requested colors: ${requestedColors.join(', ') || 'none'}\n` +
-            `• Requested sizes: ${requestedSizes.join(', ') || 'none'}\n` +
-            `• No matching variants found\n\n` +
-            `✅ Available options:\n` +
-            `• Colors: ${Array.from(availableColors).slice(0, 5).join(', ')}${availableColors.size > 5 ? '...' : ''}\n` +
-            `• Sizes: ${Array.from(availableSizes).slice(0, 8).join(', ')}${availableSizes.size > 8 ? '...' : ''}\n` +
-            `• Sample variants: ${sampleVariants.join(', ')}${allVariants.length > 5 ? '...' : ''}\n\n` +
-            `💡 Solutions:\n` +
-            `1. Use common options: colors='white,black' sizes='M,L,XL'\n` +
-            `2. Check exact options: get-variants ${blueprintId} ${printProviderId}\n` +
-            `3. Validate first: validate-variants ${blueprintId} ${printProviderId}\n` +
-            `4. Use create-product for full control over variant selection`
-          );
-        }
-
-        // STEP 6: Create product with error recovery
-        const productData = {
-          title: title.trim(),
-          description: finalDescription.trim(),
-          blueprintId,
-          printProviderId,
-          variants,
-          printAreas: {
-            front: {
-              position: 'front',
-              imageId,
-              x: 0.5,
-              y: 0.5,
-              scale: 1,
-              angle: 0
-            }
-          }
-        };
-
-        let product;
-        try {
-          debugLog(`Creating product with ${variants.length} variants`);
-          product = await session.printifyClient.createProduct(productData);
-        } catch (error: any) {
-          // Enhanced error message with more context
-          const errorMessage = error.message || 'Unknown error';
-          
-          // Log full error details in debug mode
-          if (process.env.PRINTIFY_DEBUG === 'true') {
-            console.log('[DEBUG] create-product-simple full error:', error);
-            if (error.context) {
-              console.log('[DEBUG] Error context:', JSON.stringify(error.context, null, 2));
-            }
-          }
-          
-          // Add minimal debug info even without debug mode
-          let debugHint = '';
-          if (process.env.PRINTIFY_DEBUG !== 'true' && error.context) {
-            debugHint = '\n\n💡 Debug Tip: Enable PRINTIFY_DEBUG=true for detailed error logs';
-          }
-          
-          // Check for common error patterns
-          if (errorMessage.toLowerCase().includes('validation')) {
-            // Extract validation errors using helper function
-            const validationErrors = extractValidationErrors(error);
-            let specificErrors = '';
-            
-            if (validationErrors.length > 0) {
-              specificErrors = '\n\n📌 Specific validation errors:\n';
-              validationErrors.forEach(({ field, messages }) => {
-                // Map field names to user-friendly names
-                const fieldDisplayName = {
-                  'title': 'Product Title',
-                  'description': 'Description', 
-                  'blueprint_id': 'Blueprint ID',
-                  'print_provider_id': 'Print Provider ID',
-                  'variants': 'Variants',
-                  'print_areas': 'Print Areas',
-                  'print_areas.0.placeholders.0.images.0.id': 'Image ID',
-                  'print_areas.0.placeholders.0.images.0': 'Image configuration',
-                  'print_areas.front.placeholders.0.images.0.id': 'Front Image ID',
-                  'print_areas.back.placeholders.0.images.0.id': 'Back Image ID'
-                }[field] || field.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-                specificErrors += `• ${fieldDisplayName}: ${messages.join(', ')}\n`;
-              });
-            } else if (errorMessage.includes('Field errors:')) {
-              // Error message already contains field errors from API
-              specificErrors = ''; // Don't duplicate
-            }
-            
-            throw new Error(
-              `❌ Product creation validation failed\n\n` +
-              `📋 Error details: ${errorMessage}${specificErrors}\n\n` +
-              `🔍 Common causes:\n` +
-              `• Invalid image ID: ${imageId}\n` +
-              `• Blueprint/provider mismatch\n` +
-              `• Variant configuration issues\n\n` +
-              `✅ Debug steps:\n` +
-              `1. Verify image upload: Check that upload-image returned ${imageId}\n` +
-              `2. Validate configuration: validate-product-config ${blueprintId} ${printProviderId} [${variants.map((v: any) => v.variantId).slice(0,3).join(',')}...]\n` +
-              `3. Try with minimal options: colors='white' sizes='L'\n` +
-              `4. Enable debug mode: Set PRINTIFY_DEBUG=true for detailed logs` +
-              debugHint
-            );
-          } else if (errorMessage.toLowerCase().includes('image')) {
-            throw new Error(
-              `❌ Image-related error during product creation\n\n` +
-              `📋 Error: ${errorMessage}\n\n` +
-              `🖼️ Image ID: ${imageId}\n\n` +
-              `✅ Solutions:\n` +
-              `• Ensure image was uploaded successfully\n` +
-              `• Check image format (PNG/JPG recommended)\n` +
-              `• Verify image dimensions meet blueprint requirements\n` +
-              `• Re-upload image if needed` +
-              debugHint
-            );
-          } else {
-            throw new Error(
-              `❌ Product creation failed\n\n` +
-              `📋 Error: ${errorMessage}\n\n` +
-              `📊 Attempted configuration:\n` +
-              `• Blueprint: ${blueprintId}\n` +
-              `• Provider: ${printProviderId}\n` +
-              `• Variants: ${variants.length} selected\n` +
-              `• Image: ${imageId}\n\n` +
-              `✅ Troubleshooting:\n` +
-              `• Try validate-blueprint ${blueprintId} first\n` +
-              `• Check API status and connection\n` +
-              `• Use create-product for more control\n` +
-              `• Contact support if issue persists` +
-              debugHint
-            );
+    
+    // Create new MCP server instance for this request (following SDK pattern)
+    const server = createUserMcpServer(session, scopes);
+    
+    // Create transport in stateless mode
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined, // Stateless mode
+    });
+    
+    // Connect server to transport
+    await server.connect(transport);
+    
+    // Handle the request
+    await transport.handleRequest(req, res, req.body);
+    
+    // Clean up when response is done
+    res.on('close', () => {
+      transport.close().catch(console.error);
+      server.close().catch(console.error);
+    });
+    
+  } catch (error: any) {
+    console.error('Error handling MCP request:', error);
+    
+    // Return proper JSON-RPC error response
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: error.message || 'Internal server error',
+          data: {
+            type: error.name,
+            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
           }
-        }
-        
-        // Calculate pricing summary
-        const pricingSummary = variants.length > 0 ? (() => {
-          const costs = filteredVariants.map((v: any) => v.cost);
-          const minCost = Math.min(...costs);
-          const maxCost = Math.max(...costs);
-          const avgCost = costs.reduce((a: number, b: number) => a + b, 0) / costs.length;
-          
-          const minPrice = Math.min(...variants.map((v: any) => v.price));
-          const maxPrice = Math.max(...variants.map((v: any) => v.price));
-          const avgPrice = variants.reduce((sum: number, v: any) => sum + v.price, 0) / variants.length;
-          
-          return {
-            costRange: minCost === maxCost ? `$${(minCost / 100).toFixed(2)}` : `$${(minCost / 100).toFixed(2)} - $${(maxCost / 100).toFixed(2)}`,
-            priceRange: minPrice === maxPrice ? `$${(minPrice / 100).toFixed(2)}` : `$${(minPrice / 100).toFixed(2)} - $${(maxPrice / 100).toFixed(2)}`,
-            avgProfit: `$${((avgPrice - avgCost) / 100).toFixed(2)}`,
-            avgMargin: `${Math.round(((avgPrice - avgCost) / avgPrice) * 100)}%`
-          };
-        })() : null;
-        
-        // Format success response using ResponseFormatter
-        const formattedResponse = ResponseFormatter.formatProductCreated(product, blueprint);
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedResponse + `\n\n📊 Creation Summary:\n` +
-              `• Blueprint: ${blueprint.title} (ID: ${blueprintId})\n` +
-              `• Variants: ${variants.length} enabled\n` +
-              `• Colors selected: ${requestedColors.length > 0 ? requestedColors.join(', ') : 'all available'}\n` +
-              `• Sizes selected: ${requestedSizes.length > 0 ? requestedSizes.join(', ') : 'all available'}\n\n` +
-              (pricingSummary ? 
-                `💰 Pricing Details:\n` +
-                `• Cost range: ${pricingSummary.costRange}\n` +
-                `• Selling price: ${pricingSummary.priceRange}\n` +
-                `• Average profit: ${pricingSummary.avgProfit} per item\n` +
-                `• Profit margin: ${profitMargin} (actual: ${pricingSummary.avgMargin})\n` +
-                `• Total potential profit: ${variants.length} variants × ${pricingSummary.avgProfit} = $${((parseFloat(pricingSummary.avgProfit.replace('$', '')) * variants.length).toFixed(2))}\n\n`
-                : '') +
-              `✅ Next Steps:\n` +
-              `• Use publish-product ${product.id} to make it available in your store\n` +
-              `• Use get-product ${product.id} to view current status\n` +
-              `• Use update-product ${product.id} to modify details if needed\n` +
-              `• Use calculate-pricing to experiment with different profit margins`
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, 'creating product (simple mode)');
-        
-        let troubleshootingSteps = `\n🔧 Troubleshooting Steps:\n`;
-        troubleshootingSteps += `1. Validate blueprint: validate-blueprint ${blueprintId}\n`;
-        troubleshootingSteps += `2. Check image: ensure upload-image returned valid ID\n`;
-        troubleshootingSteps += `3. Test variants: validate-variants ${blueprintId}\n`;
-        troubleshootingSteps += `4. Try simpler filters: colors='white,black' sizes='M,L,XL'\n`;
-        troubleshootingSteps += `5. Use get-popular-blueprints for tested blueprint IDs\n`;
-        
-        let quickFixes = `\n🚀 Quick Fixes:\n`;
-        quickFixes += `• Common working blueprint IDs: 5 (t-shirt), 19 (mug), 77 (hoodie)\n`;
-        quickFixes += `• Reliable color options: white, black, gray, red, blue\n`;
-        quickFixes += `• Standard sizes: S, M, L, XL, 2XL\n`;
-        quickFixes += `• For complex needs, use create-product instead\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + troubleshootingSteps + quickFixes
-          }]
-        };
-      }
+        },
+        id: null,
+      });
     }
-  );
+  }
+}
 
-  // Update product tool
-  server.tool(
-    "update-product",
-    {
-      productId: z.string().describe("Product ID"),
-      title: z.string().optional().describe("Product title"),
-      description: z.string().optional().describe("Product description"),
-      variants: z.array(z.object({
-        variantId: z.number().describe("Variant ID"),
-        price: z.number().describe("Price in cents (e.g., 1999 for $19.99)"),
-        isEnabled: z.boolean().optional().describe("Whether the variant is enabled")
-      })).optional().describe("Product variants")
-    },
-    async ({ productId, ...updateData }) => {
-      const product = await session.printifyClient.updateProduct(productId, updateData);
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Product Updated Successfully!\n` +
-            `═══════════════════════════════\n\n` +
-            `🆔 Product ID: ${product.id}\n` +
-            `📝 Title: ${product.title}\n` +
-            `📄 Description: ${product.description || 'No description'}\n` +
-            `👕 Variants: ${product.variants?.length || 0} configured\n` +
-            `👁️ Visible: ${product.visible ? 'Yes' : 'No'}\n\n` +
-            `💡 Next Steps:\n` +
-            `• Use get-product ${product.id} to view full details\n` +
-            `• Use publish-product ${product.id} to make changes live\n`
-        }]
-      };
-    }
-  );
+// Find the session behind a secret MCP URL - the userId in the URL is the only credential.
+// Answers the request itself and returns undefined when there is no usable session.
+async function resolveLegacySession(req: express.Request, res: express.Response): Promise<UserSession | undefined> {
+  if (!LEGACY_MCP_URLS) {
+    res.status(410).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32001,
+        message: `Secret MCP URLs are disabled on this server. Connect to ${getOAuthMcpUrl()} and sign in instead.`,
+      },
+      id: null,
+    });
+    return undefined;
+  }
+  
+  // Get user session (restored from the persistent store after a restart)
+  let session: UserSession | undefined;
+  try {
+    session = await loadUserSession(req.params.userId);
+  } catch (error: any) {
+    console.error('Failed to load session:', error);
+    res.status(500).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32603,
+        message: error.message || 'Internal server error',
+      },
+      id: null,
+    });
+    return undefined;
+  }
+  
+  // OAuth sessions are only reachable with a bearer token
+  if (!session || session.oauth) {
+    res.status(404).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32001,
+        message: 'Session not found. Please register first.',
+      },
+      id: null,
+    });
+    return undefined;
+  }
+  
+  return session;
+}
 
-  // Delete product tool
-  server.tool(
-    "delete-product",
-    {
-      productId: z.string().describe("Product ID")
-    },
-    async ({ productId }) => {
-      await session.printifyClient.deleteProduct(productId);
-      return {
-        content: [{
-          type: "text",
-          text: `Product ${productId} deleted successfully`
-        }]
-      };
-    }
-  );
+// Legacy MCP endpoint (Streamable HTTP)
+app.all('/api/mcp/a/:userId/mcp', async (req, res) => {
+  const session = await resolveLegacySession(req, res);
+  if (session) {
+    await handleMcpRequest(session, req, res);
+  }
+});
 
-  // Publish product tool
-  server.tool(
-    "publish-product",
-    {
-      productId: z.string().describe("Product ID"),
-      publishDetails: z.object({
-        title: z.boolean().optional(),
-        description: z.boolean().optional(),
-        images: z.boolean().optional(),
-        variants: z.boolean().optional(),
-        tags: z.boolean().optional()
-      }).optional().describe("What to publish")
-    },
-    async ({ productId, publishDetails }) => {
-      const result = await session.printifyClient.publishProduct(productId, publishDetails);
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Product Published Successfully!\n` +
-            `═══════════════════════════════\n\n` +
-            `🆔 Product ID: ${productId}\n` +
-            `🏪 Shop: Product is now live in your store\n` +
-            `📋 Published elements:\n` +
-            `  • Title: ${publishDetails?.title !== false ? '✓' : '✗'}\n` +
-            `  • Description: ${publishDetails?.description !== false ? '✓' : '✗'}\n` +
-            `  • Images: ${publishDetails?.images !== false ? '✓' : '✗'}\n` +
-            `  • Variants: ${publishDetails?.variants !== false ? '✓' : '✗'}\n` +
-            `  • Tags: ${publishDetails?.tags !== false ? '✓' : '✗'}\n\n` +
-            `💡 Next Steps:\n` +
-            `• Check your store to see the live product\n` +
-            `• Use update-product ${productId} to make changes\n` +
-            `• Monitor sales and adjust pricing as needed\n`
-        }]
-      };
+// HTTP+SSE transport from protocol version 2024-11-05, for clients that predate Streamable HTTP.
+// The client keeps the GET stream open and posts messages to the endpoint announced on it.
+app.get('/api/mcp/a/:userId/sse', async (req, res) => {
+  const session = await resolveLegacySession(req, res);
+  if (!session) return;
+  
+  try {
+    if (!(await prepareSession(session, res))) return;
+    await sseSessions.open(res, `/api/mcp/a/${session.userId}/messages`, session.userId, expandScopes(session.scopes), () => createUserMcpServer(session));
+  } catch (error: any) {
+    console.error('Error opening SSE stream:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open SSE stream', details: error.message });
     }
-  );
+  }
+});
 
-  // Upload image tool
-  server.tool(
-    "upload-image",
-    {
-      fileName: z.string().describe("File name (e.g., 'my-design.png')"),
-      url: z.string().describe(`Image source - supports multiple formats:
-        - Direct URL: https://example.com/image.png
-        - Google Drive: https://drive.google.com/file/d/{id}/view (auto-converted)
-        - Local file: /path/to/image.png
-        - Base64 data: data:image/png;base64,iVBORw0...`)
-    },
-    async ({ fileName, url }) => {
-      const image = await session.printifyClient.uploadImage(fileName, url);
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Image Uploaded Successfully!\n` +
-            `═══════════════════════════════\n\n` +
-            `🆔 Image ID: ${image.id}\n` +
-            `📁 File name: ${image.file_name}\n` +
-            `📐 Dimensions: ${image.width} × ${image.height} px\n` +
-            `💾 Size: ${(image.size / 1024 / 1024).toFixed(2)} MB\n` +
-            `🖼️ Type: ${image.mime_type}\n` +
-            `🔗 Preview: ${image.preview_url}\n\n` +
-            `💡 Next Steps:\n` +
-            `• Use this Image ID (${image.id}) in create-product or create-product-simple\n` +
-            `• Ensure the image meets blueprint requirements (300 DPI recommended)\n` +
-            `• For best results, use PNG format for designs with transparency\n`
-        }]
-      };
+app.post('/api/mcp/a/:userId/messages', async (req, res) => {
+  const session = await resolveLegacySession(req, res);
+  if (!session) return;
+  
+  try {
+    if (!(await prepareSession(session, res))) return;
+    await sseSessions.handleMessage(req, res, session.userId, expandScopes(session.scopes));
+  } catch (error: any) {
+    console.error('Error handling SSE message:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to handle message', details: error.message });
     }
-  );
+  }
+});
 
-  // Search blueprints tool
-  server.tool(
-    "search-blueprints",
-    {
-      category: z.string().optional().describe("Category: 'apparel', 'accessories', or 'home'"),
-      type: z.string().optional().describe("Type: 'tshirt', 'hoodie', 'mug', 'totebag', 'poster', etc."),
-      limit: z.number().optional().default(15).describe("Maximum number of results (default: 15)")
+// ===== OAUTH 2.1 AUTHORIZATION =====
+// MCP clients discover the authorization server from the well-known metadata, register
+// dynamically, send the user through the consent page (which collects the Printify key)
+// and then call /mcp with bearer tokens. Each approved connection is its own session.
+
+const oauthProvider = new PrintifyOAuthProvider(
+  OAuthClientsStore.create(sessionStore.kind === 'file'),
+  credentialVault,
+  {
+    async isGrantActive(sessionId, clientId) {
+      const session = await loadUserSession(sessionId);
+      return !!session && session.oauth?.clientId === clientId;
     },
-    async ({ category, type, limit }) => {
-      try {
-        const blueprints = await session.printifyClient.searchBlueprints(category, type);
-        const data = blueprints.data || [];
-        
-        // Create search header with context
-        let searchHeader = '🔍 Blueprint Search Results\n';
-        searchHeader += '═══════════════════════════\n\n';
-        
-        if (category && type) {
-          searchHeader += `📂 Category: ${category} → ${type}\n`;
-        } else if (category) {
-          searchHeader += `📂 Category: ${category}\n`;
-        } else if (type) {
-          searchHeader += `🔎 Type: ${type}\n`;
-        } else {
-          searchHeader += `🌟 All Blueprints\n`;
-        }
-        
-        searchHeader += `📊 Found: ${data.length} result${data.length !== 1 ? 's' : ''}\n\n`;
-        
-        // Handle empty results
-        if (data.length === 0) {
-          let suggestions = `💡 Try these alternatives:\n`;
-          suggestions += `• Use get-popular-blueprints for commonly used products\n`;
-          suggestions += `• Try broader categories: 'apparel', 'accessories', 'home'\n`;
-          suggestions += `• Search for types: 'tshirt', 'hoodie', 'mug', 'poster', 'sticker'\n`;
-          suggestions += `• Use get-blueprints to browse all available options\n`;
-          
-          return {
-            content: [{
-              type: "text",
-              text: searchHeader + suggestions
-            }]
-          };
-        }
-        
-        // Format results with pagination support
-        const formattedResults = ResponseFormatter.formatBlueprintsList(
-          data.slice(0, limit), 
-          { includeDescription: true, maxItems: limit }
-        );
-        
-        // Add response size warning if needed
-        const responseWithWarning = ResponseFormatter.addResponseSizeWarning(formattedResults, data);
-        
-        // Add search-specific guidance
-        let searchGuidance = `\n🎯 Refine Your Search:\n`;
-        if (!category) searchGuidance += `• Add category filter: search-blueprints category='apparel'\n`;
-        if (!type) searchGuidance += `• Add type filter: search-blueprints type='tshirt'\n`;
-        if (data.length > limit) searchGuidance += `• Showing ${limit} of ${data.length} results. Reduce limit for faster loading.\n`;
-        
-        // Add size management guidance for large result sets
-        let sizeGuidance = '';
-        if (data.length > 30) {
-          sizeGuidance = `\n📊 Large Result Set Detected:\n`;
-          sizeGuidance += `• Consider using more specific filters to reduce results\n`;
-          sizeGuidance += `• Use get-popular-blueprints for commonly used items\n`;
-          sizeGuidance += `• Try smaller limit values for faster responses\n`;
-        }
-        
-        // Add fallback information if relevant
-        let fallbackInfo = '';
-        if (blueprints._fallback) {
-          fallbackInfo = `\n⚠️ Note: Using cached data. ${blueprints._message}\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: searchHeader + responseWithWarning + searchGuidance + sizeGuidance + fallbackInfo
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, 'searching blueprints');
-        
-        let searchHelp = `\n🔍 Search Tips:\n`;
-        searchHelp += `• Valid categories: 'apparel', 'accessories', 'home'\n`;
-        searchHelp += `• Popular types: 'tshirt', 'hoodie', 'mug', 'totebag', 'poster', 'sticker'\n`;
-        searchHelp += `• Use get-popular-blueprints for quick access to common products\n`;
-        searchHelp += `• Try get-blueprints limit=5 for general browsing\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + searchHelp
-          }]
-        };
+    async advanceRefreshGeneration(sessionId, clientId, generation) {
+      const session = await loadUserSession(sessionId);
+      if (!session?.oauth || session.oauth.clientId !== clientId || session.oauth.refreshGeneration !== generation) {
+        return undefined;
       }
-    }
-  );
-
-  // Get popular blueprints tool
-  server.tool(
-    "get-popular-blueprints",
-    {
-      category: z.string().optional().describe("Filter by category: 'apparel', 'accessories', or 'home' (optional)")
+      
+      session.oauth.refreshGeneration++;
+      session.lastAccessed = Date.now();
+      await saveUserSession(session);
+      return session.oauth.refreshGeneration;
     },
-    async ({ category }) => {
-      try {
-        const blueprints = await session.printifyClient.getPopularBlueprints();
-        let data = blueprints.data || [];
-        
-        // Filter by category if specified
-        if (category) {
-          const categoryMap: {[key: string]: string[]} = {
-            'apparel': ['t-shirt', 'tshirt', 'shirt', 'hoodie', 'tank', 'long sleeve'],
-            'accessories': ['mug', 'bag', 'tote', 'sticker', 'phone case'],
-            'home': ['poster', 'canvas', 'print', 'wall art', 'blanket', 'pillow']
-          };
-          
-          const categoryTerms = categoryMap[category.toLowerCase()] || [];
-          if (categoryTerms.length > 0) {
-            data = data.filter((bp: any) => {
-              const title = (bp.title || '').toLowerCase();
-              return categoryTerms.some(term => title.includes(term));
-            });
-          }
-        }
-        
-        // Create header
-        let header = '⭐ Popular Blueprints\n';
-        header += '═══════════════════\n\n';
-        
-        if (category) {
-          header += `📂 Category: ${category}\n`;
-          header += `📊 Found: ${data.length} popular ${category} product${data.length !== 1 ? 's' : ''}\n\n`;
-        } else {
-          header += `🚀 Most commonly used blueprints for quick product creation\n`;
-          header += `📊 Total: ${data.length} blueprints\n\n`;
-        }
-        
-        // Handle empty results
-        if (data.length === 0) {
-          let suggestions = `💡 No popular blueprints found`;
-          if (category) {
-            suggestions += ` in ${category} category`;
-          }
-          suggestions += `\n\nTry:\n`;
-          suggestions += `• Remove category filter: get-popular-blueprints\n`;
-          suggestions += `• Search by type: search-blueprints type='tshirt'\n`;
-          suggestions += `• Browse all: get-blueprints limit=10\n`;
-          
-          return {
-            content: [{
-              type: "text",
-              text: header + suggestions
-            }]
-          };
-        }
-        
-        // Format using the blueprint formatter
-        const formattedResults = ResponseFormatter.formatBlueprintsList(
-          data,
-          { includeDescription: true, maxItems: data.length }
-        );
-        
-        // Add usage guidance specific to popular blueprints
-        let usageGuidance = `\n🎯 Quick Start Guide:\n`;
-        usageGuidance += `• These are the most reliable and commonly used blueprints\n`;
-        usageGuidance += `• Use with create-product-simple for fastest product creation\n`;
-        usageGuidance += `• All have good print provider availability and variant options\n`;
-        
-        if (!category) {
-          usageGuidance += `• Filter by category: get-popular-blueprints category='apparel'\n`;
-        }
-        
-        // Add fallback information if relevant
-        let fallbackInfo = '';
-        if (blueprints._fallback) {
-          fallbackInfo = `\n⚠️ Note: Using cached data. ${blueprints._message}\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: header + formattedResults + usageGuidance + fallbackInfo
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, 'retrieving popular blueprints');
-        
-        let quickHelp = `\n🚀 Alternative Options:\n`;
-        quickHelp += `• Try get-blueprints limit=5 for general browsing\n`;
-        quickHelp += `• Use search-blueprints category='apparel' for specific categories\n`;
-        quickHelp += `• Check your internet connection and API key\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + quickHelp
-          }]
-        };
-      }
-    }
-  );
+    revokeGrant: revokeUserSession
+  }
+);
+
+// The SDK rejects issuers that are neither HTTPS nor localhost, so a misconfigured
+// BASE_URL disables OAuth instead of preventing startup
+let oauthEnabled = false;
+try {
+  app.use(mcpAuthRouter({
+    provider: oauthProvider,
+    issuerUrl: new URL(getBaseUrl()),
+    resourceName: 'Printify MCP',
+    scopesSupported: [...ALL_SCOPES],
+    serviceDocumentationUrl: new URL('https://github.com/vredrick/printify-mcp-web')
+  }));
+  oauthEnabled = true;
+} catch (error: any) {
+  console.warn(`OAuth authorization disabled: ${error.message}`);
+}
 
-  // Calculate pricing tool
-  server.tool(
-    "calculate-pricing",
-    {
-      baseCost: z.number().describe("Base cost in cents (e.g., 1200 for $12.00)"),
-      profitMargin: z.string().describe("Desired profit margin (e.g., '50%' or '0.5')")
-    },
-    async ({ baseCost, profitMargin }) => {
-      const pricing = session.printifyClient.calculatePricing(baseCost, profitMargin);
-      
-      return {
-        content: [{
-          type: "text",
-          text: `Pricing calculation:
-Base cost: $${(baseCost / 100).toFixed(2)}
-Profit margin: ${profitMargin}
-Selling price: $${(pricing.price / 100).toFixed(2)}
-Profit per sale: $${(pricing.profit / 100).toFixed(2)}
-
-Use ${pricing.price} as the price when creating variants.`
-        }]
-      };
+// OAuth MCP endpoint - the bearer token identifies the session
+if (oauthEnabled) {
+  const bearerAuth = requireBearerAuth({
+    verifier: oauthProvider,
+    resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(new URL(getOAuthMcpUrl()))
+  });
+  
+  app.all('/mcp', bearerAuth, async (req, res) => {
+    const session = await loadUserSession(req.auth?.extra?.sessionId as string).catch(error => {
+      console.error('Failed to load OAuth session:', error);
+      return undefined;
+    });
+    
+    if (!session) {
+      return res.status(401).json({ error: 'invalid_token', error_description: 'Session has been revoked' });
     }
-  );
+    
+    // A refreshed token may carry fewer scopes than the session was granted; full access tokens carry none
+    const tokenScopes = req.auth?.scopes?.length ? req.auth.scopes as Scope[] : undefined;
+    const scopes = expandScopes(intersectScopes(session.scopes, normalizeStoredScopes(tokenScopes)));
+    await handleMcpRequest(session, req, res, scopes);
+  });
+}
 
-  // Get variant colors tool
-  server.tool(
-    "get-variant-colors",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().describe("Print provider ID")
-    },
-    async ({ blueprintId, printProviderId }) => {
-      try {
-        const variants = await session.printifyClient.getVariants(blueprintId, printProviderId);
-        
-        // Extract unique colors from variant titles
-        const colorSet = new Set<string>();
-        const colorPatterns: string[] = [];
-        
-        variants.variants.forEach((v: any) => {
-          // Extract color from title (usually before size or after /)
-          const title = v.title;
-          
-          // Common patterns: "White / S", "Solid White / S", "White", etc.
-          const match = title.match(/^([^\/]+?)(?:\s*\/|$)/);
-          if (match) {
-            const color = match[1].trim();
-            colorSet.add(color);
-          }
-        });
-        
-        const colors = Array.from(colorSet).sort();
-        
-        return {
-          content: [{
-            type: "text",
-            text: `Available colors for blueprint ${blueprintId}:
-${colors.map(c => `• ${c}`).join('\n')}
-
-Total: ${colors.length} colors
-
-Use these exact color names when creating products or filtering variants.`
-          }]
-        };
-      } catch (error: any) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error getting variant colors: ${error.message}`
-          }]
-        };
-      }
-    }
-  );
+// Consent page for a pending authorization request
+app.get('/oauth/consent', (req, res) => {
+  res.sendFile('consent.html', { root: path.join(__dirname, 'public') });
+});
 
-  // Get variant sizes tool
-  server.tool(
-    "get-variant-sizes",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().describe("Print provider ID"),
-      color: z.string().optional().describe("Filter sizes for specific color")
-    },
-    async ({ blueprintId, printProviderId, color }) => {
-      try {
-        const variants = await session.printifyClient.getVariants(blueprintId, printProviderId);
-        
-        // Extract sizes
-        const sizeSet = new Set<string>();
-        
-        variants.variants.forEach((v: any) => {
-          const title = v.title;
-          
-          // If color filter is provided, only process matching variants
-          if (color && !title.toLowerCase().includes(color.toLowerCase())) {
-            return;
-          }
-          
-          // Extract size (usually after / or at the end)
-          const sizeMatch = title.match(/\/\s*([^\/]+?)$/);
-          if (sizeMatch) {
-            sizeSet.add(sizeMatch[1].trim());
-          } else {
-            // Sometimes size is the whole title for simple products
-            const parts = title.split(' ');
-            const lastPart = parts[parts.length - 1];
-            if (['XS', 'S', 'M', 'L', 'XL', '2XL', '3XL', '4XL', '5XL'].includes(lastPart)) {
-              sizeSet.add(lastPart);
-            }
-          }
-        });
-        
-        const sizes = Array.from(sizeSet).sort((a, b) => {
-          const sizeOrder = ['XS', 'S', 'M', 'L', 'XL', '2XL', '3XL', '4XL', '5XL'];
-          return sizeOrder.indexOf(a) - sizeOrder.indexOf(b);
-        });
-        
-        return {
-          content: [{
-            type: "text",
-            text: `Available sizes for blueprint ${blueprintId}${color ? ` (color: ${color})` : ''}:
-${sizes.map(s => `• ${s}`).join('\n')}
-
-Total: ${sizes.length} sizes
-
-Use these exact size names when creating products or filtering variants.`
-          }]
-        };
-      } catch (error: any) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error getting variant sizes: ${error.message}`
-          }]
-        };
-      }
-    }
-  );
+// Details shown on the consent page
+app.get('/api/oauth/requests/:requestId', (req, res) => {
+  const request = oauthProvider.getPendingAuthorization(req.params.requestId);
+  if (!request) {
+    return res.status(404).json({ error: 'Authorization request not found or expired. Please start the connection again from your MCP client.' });
+  }
+  
+  res.json({
+    clientName: request.client.client_name || 'Unnamed MCP client',
+    clientUri: request.client.client_uri || null,
+    redirectHost: new URL(request.params.redirectUri).host,
+    requestedScopes: request.params.scopes || []
+  });
+});
 
-  // Validate product data tool
-  server.tool(
-    "validate-product-data",
-    {
-      blueprintId: z.number().describe("Blueprint ID"),
-      printProviderId: z.number().describe("Print provider ID"),
-      variantIds: z.array(z.number()).describe("Array of variant IDs to validate"),
-      imageId: z.string().describe("Image ID to validate")
-    },
-    async ({ blueprintId, printProviderId, variantIds, imageId }) => {
-      try {
-        const issues: string[] = [];
-        const suggestions: string[] = [];
-        
-        // Check if variants exist
-        const variantsData = await session.printifyClient.getVariants(
-          blueprintId.toString(),
-          printProviderId.toString()
-        );
-        
-        const availableVariantIds = variantsData.variants.map((v: any) => v.id);
-        const invalidVariants = variantIds.filter(id => !availableVariantIds.includes(id));
-        
-        if (invalidVariants.length > 0) {
-          issues.push(`Invalid variant IDs: ${invalidVariants.join(', ')}`);
-          suggestions.push(`Available variant IDs: ${availableVariantIds.slice(0, 5).join(', ')}...`);
-        }
-        
-        // Show sample variant for reference
-        if (variantsData.variants.length > 0) {
-          const sample = variantsData.variants[0];
-          suggestions.push(`Sample variant: ID ${sample.id} = "${sample.title}" (cost: $${(sample.cost / 100).toFixed(2)})`);
-        }
-        
-        const isValid = issues.length === 0;
-        
-        return {
-          content: [{
-            type: "text",
-            text: `Validation result: ${isValid ? '✅ VALID' : '❌ INVALID'}
-
-${issues.length > 0 ? 'Issues found:\n' + issues.map(i => `• ${i}`).join('\n') + '\n\n' : ''}
-${suggestions.length > 0 ? 'Suggestions:\n' + suggestions.map(s => `• ${s}`).join('\n') : ''}
-
-${isValid ? 'This product data should work with create-product.' : 'Fix the issues above before creating the product.'}`
-          }]
-        };
-      } catch (error: any) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error validating product data: ${error.message}`
-          }]
-        };
-      }
+// Approve an authorization request with the user's Printify credentials
+app.post('/api/oauth/requests/:requestId/approve', async (req, res) => {
+  const { printifyApiKey, replicateApiToken, inviteCode, memberName } = req.body;
+  
+  if (!printifyApiKey && !inviteCode) {
+    return res.status(400).json({ error: 'Printify API key or a workspace invite code is required' });
+  }
+  if (inviteCode && !memberName) {
+    return res.status(400).json({ error: 'Your name is required to join a workspace' });
+  }
+  
+  const request = oauthProvider.getPendingAuthorization(req.params.requestId);
+  if (!request) {
+    return res.status(404).json({ error: 'Authorization request not found or expired. Please start the connection again from your MCP client.' });
+  }
+  
+  // The user may grant less than the client asked for, never more
+  let scopes: ScopeGrant;
+  try {
+    scopes = parseScopes(req.body.scopes);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+  const requestedScopes = request.params.scopes || [];
+  if (requestedScopes.length > 0) {
+    scopes = expandScopes(scopes).filter(scope => requestedScopes.includes(scope));
+  }
+  if (scopes !== FULL_ACCESS && scopes.length === 0) {
+    return res.status(400).json({ error: 'Select at least one permission the client requested' });
+  }
+  
+  const oauth: OAuthGrant = {
+    clientId: request.client.client_id,
+    clientName: request.client.client_name,
+    refreshGeneration: 0
+  };
+  
+  // Workspace members sign in with an invite code instead of the Printify key
+  let session: UserSession;
+  try {
+    session = inviteCode
+      ? (await joinWorkspace(inviteCode, String(memberName).trim(), { oauth, limitScopes: scopes })).session
+      : await createUserSession({ printifyApiKey, replicateApiToken, scopes, oauth });
+  } catch (error: any) {
+    return res.status(400).json({ 
+      error: inviteCode ? 'Failed to join workspace' : 'Invalid API key or failed to connect to Printify',
+      details: error.message 
+    });
+  }
+  
+  try {
+    // Full access tokens carry no scopes, which means whatever the session allows
+    const tokenScopes = session.scopes === FULL_ACCESS ? [] : session.scopes;
+    const redirectUrl = oauthProvider.approveAuthorization(req.params.requestId, session.userId, tokenScopes);
+    console.log(`OAuth client ${request.client.client_id} authorized for user ${session.userId}`);
+    res.json({ success: true, redirectUrl });
+  } catch (error: any) {
+    // The request expired while the key was being validated
+    await revokeUserSession(session.userId).catch(console.error);
+    if (session.workspace) {
+      await removeWorkspaceMember(session.workspace.workspaceId, session.workspace.memberId).catch(console.error);
     }
-  );
+    res.status(404).json({ error: error.message });
+  }
+});
 
-  // Generate and upload image tool (if Replicate is configured)
-  if (session.replicateClient) {
-    server.tool(
-      "generate-and-upload-image",
-      {
-        prompt: z.string().describe("Text prompt for image generation"),
-        fileName: z.string().describe("File name for the uploaded image"),
-        width: z.number().optional().default(1024).describe("Image width in pixels"),
-        height: z.number().optional().default(1024).describe("Image height in pixels"),
-        aspectRatio: z.string().optional().describe("Aspect ratio (e.g., '16:9', '4:3', '1:1')"),
-        numInferenceSteps: z.number().optional().default(25).describe("Number of inference steps"),
-        guidanceScale: z.number().optional().default(7.5).describe("Guidance scale"),
-        negativePrompt: z.string().optional().default("low quality, bad quality").describe("Negative prompt"),
-        seed: z.number().optional().describe("Random seed for reproducible generation")
-      },
-      async (params) => {
-        const imagePath = await session.replicateClient!.generateImage(params.prompt, params);
-        const image = await session.printifyClient.uploadImage(params.fileName, imagePath);
-        
-        let output = `✅ AI Image Generated & Uploaded Successfully!\n`;
-        output += `═══════════════════════════════════════════\n\n`;
-        output += `🎨 Generation Details:\n`;
-        output += `• Prompt: "${params.prompt}"\n`;
-        output += `• Dimensions: ${params.width || 1024} × ${params.height || 1024} px\n`;
-        if (params.aspectRatio) output += `• Aspect Ratio: ${params.aspectRatio}\n`;
-        output += `• Inference Steps: ${params.numInferenceSteps || 25}\n`;
-        output += `• Guidance Scale: ${params.guidanceScale || 7.5}\n\n`;
-        
-        output += `📤 Upload Details:\n`;
-        output += `• Image ID: ${image.id}\n`;
-        output += `• File name: ${image.file_name}\n`;
-        output += `• Final dimensions: ${image.width} × ${image.height} px\n`;
-        output += `• Size: ${(image.size / 1024 / 1024).toFixed(2)} MB\n`;
-        output += `• Type: ${image.mime_type}\n`;
-        output += `• Preview: ${image.preview_url}\n\n`;
-        
-        output += `💡 Next Steps:\n`;
-        output += `• Use Image ID (${image.id}) in create-product or create-product-simple\n`;
-        output += `• Generate variations by using the same prompt with different seeds\n`;
-        output += `• Ensure the design works well on your chosen product blueprint\n`;
-        
-        return {
-          content: [{
-            type: "text",
-            text: output
-          }]
-        };
-      }
-    );
+// Deny an authorization request; the client receives access_denied
+app.post('/api/oauth/requests/:requestId/deny', (req, res) => {
+  try {
+    res.json({ success: true, redirectUrl: oauthProvider.denyAuthorization(req.params.requestId) });
+  } catch (error: any) {
+    res.status(404).json({ error: error.message });
   }
+});
 
-  // Get blueprints tool
-  server.tool(
-    "get-blueprints",
-    {
-      page: z.number().optional().default(1).describe("Page number (default: 1)"),
-      limit: z.number().optional().default(10).describe("Number of blueprints per page (default: 10, recommended: 5-15)"),
-      compact: z.boolean().optional().default(false).describe("Show compact view without descriptions (default: false)")
-    },
-    async ({ page, limit, compact }) => {
-      try {
-        const blueprints = await session.printifyClient.getBlueprints(page, limit);
-        
-        // Handle fallback data with formatted response
-        if (blueprints._fallback) {
-          const fallbackMessage = `⚠️ Using cached blueprint data\n${blueprints._message}\n\n`;
-          const formattedList = ResponseFormatter.formatBlueprintsList(
-            blueprints.data || [], 
-            { includeDescription: !compact, maxItems: limit }
-          );
-          
-          return {
-            content: [{
-              type: "text",
-              text: fallbackMessage + formattedList
-            }]
-          };
-        }
-        
-        // Format live API data with pagination
-        const formattedResponse = ResponseFormatter.formatWithPagination(
-          blueprints.data || [],
-          page,
-          limit,
-          (items) => ResponseFormatter.formatBlueprintsList(items, { includeDescription: !compact, maxItems: limit }),
-          blueprints.total
-        );
-        
-        // Add response size warning if needed
-        const responseWithWarning = ResponseFormatter.addResponseSizeWarning(formattedResponse, blueprints);
-        
-        // Add size management guidance for large responses
-        let sizeGuidance = '';
-        if (blueprints.data && blueprints.data.length >= 20) {
-          sizeGuidance = ResponseFormatter.getResponseSizeGuidance();
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: responseWithWarning + sizeGuidance
-          }]
-        };
-      } catch (error: any) {
-        // Format error response
-        const formattedError = ResponseFormatter.formatError(error, 'retrieving blueprints');
-        
-        // Add specific guidance for common issues
-        let additionalGuidance = '';
-        if (error.code === PrintifyErrorCode.TIMEOUT) {
-          additionalGuidance = `\n🔄 Quick Solutions:\n• Try get-blueprints limit=5 for faster loading\n• Use get-popular-blueprints for commonly used items\n• Enable debug mode: PRINTIFY_DEBUG=true\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedError + additionalGuidance
-          }]
-        };
-      }
-    }
-  );
+// Available permission scopes and presets for the registration and consent pages
+app.get('/api/scopes', (req, res) => {
+  const presets = Object.fromEntries(Object.entries(SCOPE_PRESETS).map(([name, grant]) => [name, expandScopes(grant)]));
+  res.json({ scopes: SCOPE_DESCRIPTIONS, presets });
+});
 
-  // Get blueprint details
-  server.tool(
-    "get-blueprint",
-    {
-      blueprintId: z.string().describe("Blueprint ID")
-    },
-    async ({ blueprintId }) => {
-      try {
-        const blueprint = await session.printifyClient.getBlueprint(blueprintId);
-        const formattedResponse = ResponseFormatter.formatBlueprintDetails(blueprint);
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedResponse
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `retrieving blueprint ${blueprintId}`);
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError
-          }]
-        };
-      }
-    }
-  );
+// Test connection endpoint - validates API key without creating a session
+app.post('/api/test-connection', async (req, res) => {
+  const { printifyApiKey } = req.body;
+  
+  if (!printifyApiKey) {
+    return res.status(400).json({ error: 'Printify API key is required' });
+  }
+  
+  try {
+    // Test the API key by initializing the client
+    console.log('Testing API key connection...');
+    const printifyClient = new PrintifyAPI(printifyApiKey);
+    
+    const shops = await printifyClient.initialize();
+    
+    res.json({
+      success: true,
+      shops: shops.map(shop => ({
+        id: shop.id,
+        title: shop.title,
+        sales_channel: shop.sales_channel
+      })),
+      message: 'Connection successful'
+    });
+  } catch (error: any) {
+    console.error('Test connection failed:', error);
+    res.status(400).json({ 
+      error: 'Failed to connect to Printify',
+      details: error.message 
+    });
+  }
+});
 
-  // Get print providers tool
-  server.tool(
-    "get-print-providers",
-    {
-      blueprintId: z.string().describe("Blueprint ID")
-    },
-    async ({ blueprintId }) => {
-      try {
-        const providers = await session.printifyClient.getPrintProviders(blueprintId);
-        const formattedResponse = ResponseFormatter.formatPrintProviders(providers, blueprintId);
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedResponse
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `retrieving print providers for blueprint ${blueprintId}`);
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError
-          }]
-        };
-      }
-    }
-  );
+// Registration endpoint - generates a unique URL for the user
+app.post('/api/register', async (req, res) => {
+  const { printifyApiKey, replicateApiToken } = req.body;
+  
+  if (!LEGACY_MCP_URLS) {
+    return res.status(410).json({
+      error: 'Secret MCP URLs are disabled on this server',
+      details: `Add ${getOAuthMcpUrl()} to your MCP client and sign in with your Printify API key when prompted.`
+    });
+  }
+  
+  if (!printifyApiKey) {
+    return res.status(400).json({ error: 'Printify API key is required' });
+  }
+  
+  let expiresAt: number | undefined;
+  let scopes: ScopeGrant;
+  try {
+    expiresAt = parseExpiry(req.body.expiresAt) ?? undefined;
+    scopes = parseScopes(req.body.scopes);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  try {
+    console.log('Registration attempt received');
+    const session = await createUserSession({ printifyApiKey, replicateApiToken, expiresAt, scopes });
+    
+    // Return the unique MCP endpoint URL
+    const baseUrl = getBaseUrl();
+    console.log(`Generated MCP URL with BASE_URL: ${baseUrl}`);
+    
+    res.json({
+      success: true,
+      mcpUrl: getMcpUrl(session.userId),
+      sseUrl: getSseUrl(session.userId),
+      oauthMcpUrl: oauthEnabled ? getOAuthMcpUrl() : null,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      scopes: expandScopes(scopes),
+      instructions: 'Add this URL to your MCP client (e.g., Claude.com) to connect to your Printify account.'
+    });
+  } catch (error: any) {
+    res.status(400).json({ 
+      error: 'Invalid API key or failed to connect to Printify',
+      details: error.message 
+    });
+  }
+});
 
-  // Get variants tool
-  server.tool(
-    "get-variants",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().describe("Print provider ID")
-    },
-    async ({ blueprintId, printProviderId }) => {
-      try {
-        const variantsData = await session.printifyClient.getVariants(blueprintId, printProviderId);
-        const variants = variantsData.variants || [];
-        const formattedResponse = ResponseFormatter.formatVariants(variants, blueprintId, printProviderId);
-        
-        return {
-          content: [{
-            type: "text",
-            text: formattedResponse
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `retrieving variants for blueprint ${blueprintId}, provider ${printProviderId}`);
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError
-          }]
-        };
-      }
-    }
-  );
+// ===== ENDPOINT MANAGEMENT =====
+// All routes authenticate with the Printify API key (X-API-Key header) that registered the URL
 
-  // ===== VALIDATION TOOLS =====
+// Parse an expiry from the request body: undefined = not provided, null = clear the expiry
+function parseExpiry(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  
+  const timestamp = new Date(value as string).getTime();
+  if (isNaN(timestamp)) {
+    throw new Error('expiresAt must be an ISO 8601 date (e.g., 2025-12-31T23:59:59Z)');
+  }
+  if (timestamp <= Date.now()) {
+    throw new Error('expiresAt must be in the future');
+  }
+  return timestamp;
+}
 
-  // Validate blueprint tool
-  server.tool(
-    "validate-blueprint",
-    {
-      blueprintId: z.string().describe("Blueprint ID to validate")
-    },
-    async ({ blueprintId }) => {
-      try {
-        // Get blueprint details
-        const blueprint = await session.printifyClient.getBlueprint(blueprintId);
-        
-        // Get print providers for this blueprint
-        const providers = await session.printifyClient.getPrintProviders(blueprintId);
-        
-        let output = `✅ Blueprint Validation: ${blueprintId}\n`;
-        output += `═══════════════════════════════════\n\n`;
-        output += `📋 Name: ${blueprint.title || 'Unknown'}\n`;
-        output += `🏢 Brand: ${blueprint.brand || 'Unknown'}\n`;
-        output += `🆔 ID: ${blueprint.id}\n`;
-        output += `📄 Description: ${blueprint.description || 'No description'}\n\n`;
-        
-        output += `🖨️ Print Providers Available: ${providers?.length || 0}\n`;
-        if (providers && providers.length > 0) {
-          output += `   ⭐ Recommended: ${providers[0].title} (ID: ${providers[0].id})\n`;
-          if (providers.length > 1) {
-            output += `   📋 Alternatives: ${providers.slice(1).map((p: any) => `${p.title} (${p.id})`).join(', ')}\n`;
-          }
-        } else {
-          output += `   ❌ No print providers available\n`;
-        }
-        
-        output += `\n💡 Next Steps:\n`;
-        if (providers && providers.length > 0) {
-          output += `• Use validate-variants ${blueprintId} ${providers[0].id} to check available variants\n`;
-          output += `• Use get-variants ${blueprintId} ${providers[0].id} to see all options\n`;
-          output += `• This blueprint is ready for product creation\n`;
-        } else {
-          output += `• ❌ Cannot create products - no print providers available\n`;
-          output += `• Try a different blueprint ID from get-popular-blueprints\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: output
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `validating blueprint ${blueprintId}`);
-        
-        let validationHelp = `\n🔍 Validation Tips:\n`;
-        validationHelp += `• Ensure blueprint ID is correct (use get-popular-blueprints)\n`;
-        validationHelp += `• Try get-blueprints to browse available options\n`;
-        validationHelp += `• Check if the blueprint exists with get-blueprint ${blueprintId}\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + validationHelp
-          }]
-        };
-      }
-    }
-  );
+function describeEndpoint(stored: StoredSession) {
+  const active = userSessions.get(stored.userId);
+  const lastAccessed = active?.lastAccessed ?? stored.lastAccessed;
+  const expiresAt = active ? active.expiresAt : stored.expiresAt;
+  
+  return {
+    id: stored.userId,
+    type: stored.oauth ? 'oauth' : 'url',
+    mcpUrl: stored.oauth ? getOAuthMcpUrl() : getMcpUrl(stored.userId),
+    sseUrl: stored.oauth ? null : getSseUrl(stored.userId),
+    client: stored.oauth?.clientName ?? null,
+    shopId: active?.shopId ?? stored.shopId ?? null,
+    createdAt: new Date(stored.createdAt).toISOString(),
+    lastUsedAt: new Date(lastAccessed).toISOString(),
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+    idleExpiresAt: new Date(lastAccessed + SESSION_TTL).toISOString(),
+    scopes: expandScopes(normalizeStoredScopes(stored.scopes)),
+    workspaceId: stored.workspace?.workspaceId ?? null
+  };
+}
 
-  // Validate variants tool
-  server.tool(
-    "validate-variants",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().describe("Print provider ID"),
-      colors: z.string().optional().describe("Comma-separated colors to check (e.g., 'white,black')"),
-      sizes: z.string().optional().describe("Comma-separated sizes to check (e.g., 'M,L,XL')")
-    },
-    async ({ blueprintId, printProviderId, colors, sizes }) => {
-      try {
-        // Get variants data
-        const variantsData = await session.printifyClient.getVariants(blueprintId, printProviderId);
-        const allVariants = variantsData.variants || [];
-        
-        let output = `✅ Variant Validation\n`;
-        output += `═══════════════════\n\n`;
-        output += `📋 Blueprint: ${blueprintId}\n`;
-        output += `🖨️ Provider: ${printProviderId}\n`;
-        output += `👕 Total variants available: ${allVariants.length}\n\n`;
-        
-        // If no filters specified, show summary
-        if (!colors && !sizes) {
-          // Group by color for summary
-          const colorGroups = new Map<string, any[]>();
-          allVariants.forEach((variant: any) => {
-            const colorMatch = variant.title.match(/^([^\/]+)/);
-            const color = colorMatch ? colorMatch[1].trim() : 'Unknown';
-            if (!colorGroups.has(color)) colorGroups.set(color, []);
-            colorGroups.get(color)!.push(variant);
-          });
-          
-          output += `🎨 Available Colors (${colorGroups.size}):\n`;
-          for (const [color, variants] of colorGroups) {
-            const sampleSizes = variants.slice(0, 3).map((v: any) => {
-              const sizeMatch = v.title.match(/\/\s*(.+)$/);
-              return sizeMatch ? sizeMatch[1].trim() : 'One Size';
-            });
-            output += `  • ${color}: ${sampleSizes.join(', ')}${variants.length > 3 ? ' ...' : ''}\n`;
-          }
-          
-          output += `\n💡 To validate specific options:\n`;
-          output += `• validate-variants ${blueprintId} ${printProviderId} colors='white,black'\n`;
-          output += `• validate-variants ${blueprintId} ${printProviderId} sizes='M,L,XL'\n`;
-          output += `• validate-variants ${blueprintId} ${printProviderId} colors='white' sizes='M,L,XL'\n`;
-          
-          return {
-            content: [{
-              type: "text",
-              text: output
-            }]
-          };
-        }
-        
-        // Filter variants based on specified colors and sizes
-        const requestedColors = colors ? colors.toLowerCase().split(',').map(c => c.trim()) : [];
-        const requestedSizes = sizes ? sizes.toUpperCase().split(',').map(s => s.trim()) : [];
-        
-        const matchingVariants = allVariants.filter((variant: any) => {
-          const title = variant.title;
-          
-          // Check color match
-          let colorMatch = true;
-          if (requestedColors.length > 0) {
-            colorMatch = requestedColors.some(color => 
-              title.toLowerCase().includes(color.toLowerCase())
-            );
-          }
-          
-          // Check size match
-          let sizeMatch = true;
-          if (requestedSizes.length > 0) {
-            sizeMatch = requestedSizes.some(size => {
-              const sizeRegex = new RegExp(`\\b${size}\\b`, 'i');
-              return sizeRegex.test(title);
-            });
-          }
-          
-          return colorMatch && sizeMatch;
-        });
-        
-        // Report validation results
-        if (requestedColors.length > 0) {
-          output += `🎨 Requested Colors: ${requestedColors.join(', ')}\n`;
-        }
-        if (requestedSizes.length > 0) {
-          output += `📏 Requested Sizes: ${requestedSizes.join(', ')}\n`;
-        }
-        
-        output += `\n🔍 Validation Results:\n`;
-        output += `• Found ${matchingVariants.length} matching variants\n`;
-        
-        if (matchingVariants.length === 0) {
-          output += `❌ No variants match your criteria\n\n`;
-          output += `💡 Suggestions:\n`;
-          
-          // Analyze what's available
-          const availableColors = [...new Set(allVariants.map((v: any) => {
-            const match = v.title.match(/^([^\/]+)/);
-            return match ? match[1].trim().toLowerCase() : '';
-          }))].filter(c => c);
-          
-          const availableSizes = [...new Set(allVariants.map((v: any) => {
-            const match = v.title.match(/\/\s*(.+)$/);
-            return match ? match[1].trim().toUpperCase() : '';
-          }))].filter(s => s);
-          
-          if (requestedColors.length > 0) {
-            output += `• Available colors: ${availableColors.slice(0, 5).join(', ')}\n`;
-          }
-          if (requestedSizes.length > 0) {
-            output += `• Available sizes: ${availableSizes.slice(0, 8).join(', ')}\n`;
-          }
-          
-          output += `• Use get-variants ${blueprintId} ${printProviderId} to see all options\n`;
-        } else {
-          output += `✅ Valid combination found\n\n`;
-          
-          // Show sample matching variants
-          const sampleVariants = matchingVariants.slice(0, 5);
-          output += `📋 Sample matching variants:\n`;
-          sampleVariants.forEach((variant: any) => {
-            const cost = variant.cost !== undefined && variant.cost !== null ? `$${(variant.cost / 100).toFixed(2)}` : 'N/A';
-            output += `  • ID ${variant.id}: ${variant.title} (${cost})\n`;
-          });
-          
-          if (matchingVariants.length > 5) {
-            output += `  ... and ${matchingVariants.length - 5} more\n`;
-          }
-          
-          output += `\n💡 Ready for product creation:\n`;
-          output += `• These variant IDs can be used in create-product\n`;
-          output += `• Use calculate-pricing to determine selling prices\n`;
-          output += `• All variants are compatible with this blueprint and provider\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: output
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `validating variants for blueprint ${blueprintId}, provider ${printProviderId}`);
-        
-        let validationHelp = `\n🔍 Validation Tips:\n`;
-        validationHelp += `• Verify blueprint and provider IDs with validate-blueprint ${blueprintId}\n`;
-        validationHelp += `• Check available providers with get-print-providers ${blueprintId}\n`;
-        validationHelp += `• Use get-variants ${blueprintId} ${printProviderId} to see all options\n`;
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError + validationHelp
-          }]
-        };
-      }
-    }
-  );
+// Look up a stored session, but only if it belongs to the API key on the request
+async function findOwnedSession(req: express.Request, userId: string): Promise<StoredSession | undefined> {
+  const stored = await sessionStore.get(userId);
+  if (!stored || stored.keyFingerprint !== fingerprintSecret((req as any).apiKey)) {
+    return undefined;
+  }
+  return stored;
+}
 
-  // Validate product configuration tool
-  server.tool(
-    "validate-product-config",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().describe("Print provider ID"), 
-      variantIds: z.array(z.number()).describe("Array of variant IDs to validate"),
-      imageId: z.string().optional().describe("Image ID to validate (optional)")
-    },
-    async ({ blueprintId, printProviderId, variantIds, imageId }) => {
-      try {
-        let output = `🔍 Product Configuration Validation\n`;
-        output += `═══════════════════════════════════\n\n`;
-        
-        let isValid = true;
-        const issues: string[] = [];
-        const warnings: string[] = [];
-        
-        // Validate blueprint and provider
-        try {
-          await session.printifyClient.getBlueprint(blueprintId);
-          output += `✅ Blueprint ${blueprintId}: Valid\n`;
-        } catch (error) {
-          output += `❌ Blueprint ${blueprintId}: Invalid\n`;
-          issues.push(`Blueprint ${blueprintId} not found`);
-          isValid = false;
-        }
-        
-        // Validate print provider
-        try {
-          const providers = await session.printifyClient.getPrintProviders(blueprintId);
-          const validProvider = providers.find((p: any) => p.id.toString() === printProviderId);
-          if (validProvider) {
-            output += `✅ Print Provider ${printProviderId}: Valid\n`;
-          } else {
-            output += `❌ Print Provider ${printProviderId}: Invalid for this blueprint\n`;
-            issues.push(`Print provider ${printProviderId} not available for blueprint ${blueprintId}`);
-            isValid = false;
-          }
-        } catch (error) {
-          output += `❌ Print Provider ${printProviderId}: Could not validate\n`;
-          issues.push(`Could not validate print provider ${printProviderId}`);
-          isValid = false;
-        }
-        
-        // Validate variants
-        if (isValid) {
-          try {
-            const variantsData = await session.printifyClient.getVariants(blueprintId, printProviderId);
-            const availableVariants = variantsData.variants || [];
-            const availableIds = availableVariants.map((v: any) => v.id);
-            
-            const invalidVariants = variantIds.filter(id => !availableIds.includes(id));
-            const validVariants = variantIds.filter(id => availableIds.includes(id));
-            
-            output += `✅ Variants: ${validVariants.length}/${variantIds.length} valid\n`;
-            
-            if (invalidVariants.length > 0) {
-              output += `❌ Invalid variant IDs: ${invalidVariants.join(', ')}\n`;
-              issues.push(`Invalid variant IDs: ${invalidVariants.join(', ')}`);
-              isValid = false;
-            }
-            
-            if (validVariants.length === 0) {
-              issues.push('No valid variants specified');
-              isValid = false;
-            } else if (validVariants.length < 3) {
-              warnings.push(`Only ${validVariants.length} variant(s) selected - consider adding more size/color options`);
-            }
-          } catch (error) {
-            output += `❌ Variants: Could not validate\n`;
-            issues.push('Could not validate variants');
-            isValid = false;
-          }
-        }
-        
-        // Validate image if provided
-        if (imageId) {
-          // For now, we'll assume valid since there's no direct image validation API
-          output += `ℹ️ Image ${imageId}: Assumed valid (cannot verify)\n`;
-          warnings.push('Image validation not available - ensure image was uploaded successfully');
-        }
-        
-        output += `\n📊 Overall Status: ${isValid ? '✅ VALID' : '❌ INVALID'}\n\n`;
-        
-        // Show issues
-        if (issues.length > 0) {
-          output += `🚨 Issues to fix:\n`;
-          issues.forEach(issue => output += `  • ${issue}\n`);
-          output += `\n`;
-        }
-        
-        // Show warnings
-        if (warnings.length > 0) {
-          output += `⚠️ Warnings:\n`;
-          warnings.forEach(warning => output += `  • ${warning}\n`);
-          output += `\n`;
-        }
-        
-        // Provide next steps
-        output += `💡 Next Steps:\n`;
-        if (isValid) {
-          output += `• Configuration is valid - ready for product creation\n`;
-          output += `• Use create-product with these exact parameters\n`;
-          output += `• Consider testing with create-product-simple first\n`;
-        } else {
-          output += `• Fix the issues listed above before creating product\n`;
-          output += `• Use validate-blueprint ${blueprintId} for blueprint details\n`;
-          output += `• Use get-print-providers ${blueprintId} for valid providers\n`;
-          output += `• Use get-variants ${blueprintId} {provider_id} for valid variants\n`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: output
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, 'validating product configuration');
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError
-          }]
-        };
-      }
-    }
-  );
+// List active MCP URLs registered with this API key
+app.get('/api/endpoints', validateApiKey, async (req, res) => {
+  try {
+    const fingerprint = fingerprintSecret((req as any).apiKey);
+    const now = Date.now();
+    const endpoints = (await sessionStore.list())
+      .filter(stored => stored.keyFingerprint === fingerprint)
+      .filter(stored => !isSessionExpired(userSessions.get(stored.userId) || stored, now))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(describeEndpoint);
+    
+    res.json({ success: true, endpoints });
+  } catch (error: any) {
+    console.error('Failed to list endpoints:', error);
+    res.status(500).json({ error: 'Failed to list endpoints', details: error.message });
+  }
+});
 
-  // Get available colors tool
-  server.tool(
-    "get-available-colors",
-    {
-      blueprintId: z.string().describe("Blueprint ID"),
-      printProviderId: z.string().optional().describe("Print provider ID (optional, uses first provider if not specified)")
-    },
-    async ({ blueprintId, printProviderId }) => {
-      try {
-        // Get print provider if not specified
-        let providerId = printProviderId;
-        if (!providerId) {
-          const providers = await session.printifyClient.getPrintProviders(blueprintId);
-          if (!providers || providers.length === 0) {
-            throw new Error(`No print providers available for blueprint ${blueprintId}`);
-          }
-          providerId = providers[0].id.toString();
-        }
-        
-        // Get variants
-        const variantsData = await session.printifyClient.getVariants(blueprintId, providerId!);
-        const allVariants = variantsData.variants || [];
-        
-        // Extract unique colors
-        const colorMap = new Map<string, number>();
-        allVariants.forEach((variant: any) => {
-          const colorMatch = variant.title.match(/^([^\/]+)/);
-          if (colorMatch) {
-            const color = colorMatch[1].trim().toLowerCase();
-            colorMap.set(color, (colorMap.get(color) || 0) + 1);
-          }
-        });
-        
-        const colors = Array.from(colorMap.entries())
-          .sort((a, b) => b[1] - a[1]) // Sort by count descending
-          .map(([color, count]) => ({ color, count }));
-        
-        let output = `🎨 Available Colors for Blueprint ${blueprintId}\n`;
-        output += `═══════════════════════════════════════\n\n`;
-        output += `🖨️ Provider: ${providerId}\n`;
-        output += `📊 Total colors: ${colors.length}\n\n`;
-        
-        output += `🎨 Colors (with variant count):\n`;
-        colors.forEach(({ color, count }) => {
-          output += `  • ${color}: ${count} variant${count > 1 ? 's' : ''}\n`;
-        });
-        
-        output += `\n💡 Usage Tips:\n`;
-        output += `• Use these exact color names in create-product-simple\n`;
-        output += `• Common mappings: 'carolina blue' → 'blue', 'heather grey' → 'gray'\n`;
-        output += `• Use normalize-color-name to convert non-standard colors\n`;
-        output += `• Some colors may have variations (e.g., 'solid white' vs 'white')\n`;
-        
-        return {
-          content: [{
-            type: "text",
-            text: output
-          }]
-        };
-      } catch (error: any) {
-        const formattedError = ResponseFormatter.formatError(error, `getting available colors for blueprint ${blueprintId}`);
-        
-        return {
-          isError: true,
-          content: [{
-            type: "text",
-            text: formattedError
-          }]
-        };
-      }
+// Revoke an MCP URL immediately
+app.delete('/api/endpoints/:userId', validateApiKey, async (req, res) => {
+  try {
+    const stored = await findOwnedSession(req, req.params.userId);
+    if (!stored) {
+      return res.status(404).json({ error: 'Endpoint not found for this API key' });
     }
-  );
+    
+    await revokeUserSession(stored.userId);
+    console.log(`Revoked MCP URL for user ${stored.userId}`);
+    
+    res.json({ success: true, revoked: stored.userId });
+  } catch (error: any) {
+    console.error('Failed to revoke endpoint:', error);
+    res.status(500).json({ error: 'Failed to revoke endpoint', details: error.message });
+  }
+});
 
-  // Normalize color name tool
-  server.tool(
-    "normalize-color-name",
-    {
-      color: z.string().describe("Color name to normalize (e.g., 'Carolina Blue', 'Heather Grey')")
-    },
-    async ({ color }) => {
-      const normalizedColor = normalizeColorName(color);
-      const isStandardColor = normalizedColor === color.toLowerCase();
-      
-      let output = `🎨 Color Normalization\n`;
-      output += `══════════════════\n\n`;
-      output += `📥 Input: "${color}"\n`;
-      output += `📤 Normalized: "${normalizedColor}"\n`;
-      output += `✅ Status: ${isStandardColor ? 'Already standard' : 'Mapped to standard color'}\n\n`;
-      
-      if (!isStandardColor) {
-        output += `💡 Mapping Info:\n`;
-        output += `• "${color}" is mapped to the standard color "${normalizedColor}"\n`;
-        output += `• This helps match more variants when filtering\n`;
-        output += `• Use "${normalizedColor}" in create-product-simple for best results\n`;
-      } else {
-        output += `💡 This is already a standard color name\n`;
-      }
-      
-      // Show related variations
-      const colorVariations: {[key: string]: string[]} = {
-        'white': ['white', 'solid white', 'natural', 'cream', 'ivory', 'off-white', 'snow'],
-        'black': ['black', 'solid black', 'dark', 'jet black', 'midnight'],
-        'gray': ['gray', 'grey', 'heather gray', 'heather grey', 'charcoal', 'silver', 'ash', 'slate'],
-        'red': ['red', 'cardinal', 'scarlet', 'crimson', 'burgundy', 'cherry', 'ruby', 'maroon'],
-        'blue': ['blue', 'navy', 'royal blue', 'sapphire', 'carolina blue', 'sky blue', 'baby blue', 'ocean', 'cobalt', 'azure', 'teal'],
-        'green': ['green', 'forest', 'olive', 'emerald', 'mint', 'sage', 'lime', 'kelly green', 'hunter green'],
-        'pink': ['pink', 'rose', 'blush', 'fuchsia', 'magenta', 'coral', 'salmon'],
-        'purple': ['purple', 'violet', 'lavender', 'plum', 'eggplant', 'orchid'],
-        'yellow': ['yellow', 'gold', 'mustard', 'lemon', 'butter', 'sunshine'],
-        'orange': ['orange', 'rust', 'burnt orange', 'tangerine', 'peach', 'apricot'],
-        'brown': ['brown', 'tan', 'beige', 'taupe', 'chocolate', 'coffee', 'mocha']
-      };
-      
-      const variations = colorVariations[normalizedColor];
-      if (variations && variations.length > 1) {
-        output += `\n🔄 Related variations that map to "${normalizedColor}":\n`;
-        variations.forEach(v => {
-          if (v !== normalizedColor) {
-            output += `  • ${v}\n`;
-          }
-        });
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: output
-        }]
-      };
+// Replace an MCP URL with a new random ID, keeping credentials and preferences
+app.post('/api/endpoints/:userId/rotate', validateApiKey, async (req, res) => {
+  try {
+    const stored = await findOwnedSession(req, req.params.userId);
+    if (!stored) {
+      return res.status(404).json({ error: 'Endpoint not found for this API key' });
     }
-  );
-
-  // ===== PROMPTS =====
-  
-  // Product creation wizard prompt
-  server.prompt(
-    'create-product-wizard',
-    'Interactive wizard to create a Printify product with best practices',
-    {
-      productType: z.string().describe('Type of product (t-shirt, mug, hoodie, etc)'),
-      designDescription: z.string().describe('Description of your design concept'),
-      targetAudience: z.string().optional().describe('Target customer demographic'),
-      priceRange: z.string().optional().describe('Desired price range (budget, mid-range, premium)')
-    },
-    async ({ productType, designDescription, targetAudience, priceRange }) => {
-      return {
-        messages: [{
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `I want to create a ${productType} product on Printify. 
-
-Design concept: ${designDescription}
-${targetAudience ? `Target audience: ${targetAudience}` : ''}
-${priceRange ? `Price range: ${priceRange}` : ''}
-
-Please help me:
-1. Find the best blueprint for a ${productType}
-2. Select an appropriate print provider based on quality and price
-3. Choose the right variants (sizes/colors) for my target market
-4. Set competitive pricing
-5. Generate or prepare my design for upload
-6. Create the product with optimal settings
-
-Guide me through each step and explain the best practices.`
-          }
-        }]
-      };
+    
+    // OAuth tokens point at the session ID, so rotating would silently disconnect the client
+    if (stored.oauth) {
+      return res.status(400).json({ error: 'OAuth connections cannot be rotated. Revoke it and reconnect from your MCP client instead.' });
     }
-  );
+    
+    const active = userSessions.get(stored.userId);
+    const newUserId = generateUserEndpoint();
+    const rotated: StoredSession = {
+      ...(active ? toStoredSession(active) : stored),
+      userId: newUserId,
+      createdAt: Date.now()
+    };
+    
+    await sessionStore.set(rotated);
+    await revokeUserSession(stored.userId);
+    console.log(`Rotated MCP URL for user ${stored.userId} -> ${newUserId}`);
+    
+    res.json({ success: true, previousId: stored.userId, endpoint: describeEndpoint(rotated) });
+  } catch (error: any) {
+    console.error('Failed to rotate endpoint:', error);
+    res.status(500).json({ error: 'Failed to rotate endpoint', details: error.message });
+  }
+});
 
-  // Bulk product generator prompt
-  server.prompt(
-    'bulk-product-generator',
-    'Generate multiple product variants from a single design',
-    {
-      designId: z.string().describe('The uploaded design image ID'),
-      productTypes: z.string().describe('Comma-separated list of product types to create (e.g., "t-shirt, hoodie, mug")'),
-      basePrice: z.string().describe('Base price in dollars (e.g., "19.99")'),
-      namePattern: z.string().describe('Pattern for product names (e.g., "{design} - {type}")')
-    },
-    async ({ designId, productTypes, basePrice, namePattern }) => {
-      // Parse the comma-separated product types
-      const productTypesList = productTypes.split(',').map(s => s.trim()).filter(s => s.length > 0);
-      
-      // Parse the price
-      const priceNumber = parseFloat(basePrice);
-      const formattedPrice = isNaN(priceNumber) ? basePrice : `$${priceNumber.toFixed(2)}`;
-      
-      return {
-        messages: [{
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `I need to create multiple products using design ID: ${designId}
-
-Product types to create: ${productTypesList.join(', ')}
-Base price: ${formattedPrice}
-Naming pattern: ${namePattern}
-
-Please:
-1. Create a product for each type listed
-2. Apply the design to the main print area
-3. Enable popular sizes and colors
-4. Set pricing based on the base price (adjust for product cost)
-5. Use consistent naming following the pattern
-6. Provide a summary of all created products
-
-Optimize for efficiency while maintaining quality settings.`
-          }
-        }]
-      };
+// Set or clear the explicit expiry date of an MCP URL
+app.put('/api/endpoints/:userId/expiry', validateApiKey, async (req, res) => {
+  let expiresAt: number | null | undefined;
+  try {
+    expiresAt = parseExpiry(req.body.expiresAt);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  if (expiresAt === undefined) {
+    return res.status(400).json({ error: 'expiresAt is required (use null to remove the expiry)' });
+  }
+  
+  try {
+    const stored = await findOwnedSession(req, req.params.userId);
+    if (!stored) {
+      return res.status(404).json({ error: 'Endpoint not found for this API key' });
     }
-  );
+    
+    const active = userSessions.get(stored.userId);
+    const updated: StoredSession = { ...(active ? toStoredSession(active) : stored), expiresAt: expiresAt ?? undefined };
+    if (active) active.expiresAt = updated.expiresAt;
+    await sessionStore.set(updated);
+    
+    res.json({ success: true, endpoint: describeEndpoint(updated) });
+  } catch (error: any) {
+    console.error('Failed to update endpoint expiry:', error);
+    res.status(500).json({ error: 'Failed to update endpoint expiry', details: error.message });
+  }
+});
 
-  // Design upload assistant prompt
-  server.prompt(
-    'design-upload-assistant',
-    'Help prepare and upload designs with optimal settings',
-    {
-      designType: z.string().describe('Type of design (logo, pattern, illustration, photo)'),
-      intendedProducts: z.string().describe('Comma-separated list of products this design will be used on (e.g., "t-shirt, mug, hoodie")'),
-      hasTransparency: z.string().describe('Whether the design needs transparency (yes/no)'),
-      currentFormat: z.string().optional().describe('Current file format if known')
-    },
-    async ({ designType, intendedProducts, hasTransparency, currentFormat }) => {
-      // Parse the comma-separated products list
-      const productsList = intendedProducts.split(',').map(s => s.trim()).filter(s => s.length > 0);
-      
-      // Parse the transparency boolean
-      const needsTransparency = hasTransparency.toLowerCase() === 'yes' || hasTransparency.toLowerCase() === 'true';
-      
-      return {
-        messages: [{
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `I need help uploading a ${designType} design for Printify.
-
-Intended products: ${productsList.join(', ')}
-Needs transparency: ${needsTransparency ? 'Yes' : 'No'}
-${currentFormat ? `Current format: ${currentFormat}` : ''}
-
-Please help me:
-1. Verify the design meets requirements (DPI, dimensions, format)
-2. Explain any necessary preparations or conversions
-3. Upload the design with optimal settings
-4. Provide placement recommendations for each product type
-5. Suggest any design adjustments for better print quality
-
-Include specific technical requirements and best practices.`
-          }
-        }]
-      };
-    }
-  );
+// ===== AUDIT LOG =====
+// Every tool call is appended to the audit log. The owner of the Printify key can query the
+// calls made through any of their MCP URLs, OAuth connections and workspace members.
+
+const MAX_AUDIT_QUERY = 1000;
+
+function describeAuditEntry(entry: AuditEntry) {
+  const { keyFingerprint, ...rest } = entry;
+  return { ...rest, at: new Date(entry.at).toISOString() };
+}
+
+function parseAuditTime(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const time = new Date(String(value)).getTime();
+  if (isNaN(time)) {
+    throw new Error(`${name} must be an ISO 8601 date`);
+  }
+  return time;
+}
+
+app.get('/api/audit', validateApiKey, async (req, res) => {
+  const { endpointId, tool, status, resourceId, workspaceId, memberId } = req.query;
+  
+  let since: number | undefined;
+  let until: number | undefined;
+  try {
+    since = parseAuditTime(req.query.since, 'since');
+    until = parseAuditTime(req.query.until, 'until');
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (status !== undefined && status !== 'success' && status !== 'error') {
+    return res.status(400).json({ error: 'status must be success or error' });
+  }
+  
+  try {
+    const entries = await auditLog.query({
+      keyFingerprint: fingerprintSecret((req as any).apiKey),
+      sessionRef: endpointId ? auditSessionRef(String(endpointId)) : undefined,
+      tool: tool ? String(tool) : undefined,
+      status,
+      resourceId: resourceId ? String(resourceId) : undefined,
+      workspaceId: workspaceId ? String(workspaceId) : undefined,
+      memberId: memberId ? String(memberId) : undefined,
+      since,
+      until,
+      limit: Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, MAX_AUDIT_QUERY)
+    });
+    
+    res.json({ success: true, entries: entries.map(describeAuditEntry) });
+  } catch (error: any) {
+    console.error('Failed to query audit log:', error);
+    res.status(500).json({ error: 'Failed to query audit log', details: error.message });
+  }
+});
 
-  // Product description writer prompt
-  server.prompt(
-    'product-description-writer',
-    'Generate SEO-optimized product descriptions',
-    {
-      productName: z.string().describe('Name of the product'),
-      targetKeywords: z.string().describe('Comma-separated list of SEO keywords to include (e.g., "vintage, retro, graphic tee")'),
-      tone: z.string().describe('Writing tone (professional, casual, playful, luxury)'),
-      features: z.string().describe('Comma-separated list of key product features to highlight (e.g., "soft cotton, eco-friendly, unisex fit")'),
-      idealCustomer: z.string().optional().describe('Description of ideal customer')
-    },
-    async ({ productName, targetKeywords, tone, features, idealCustomer }) => {
-      // Parse the comma-separated keywords and features
-      const keywordsList = targetKeywords.split(',').map(s => s.trim()).filter(s => s.length > 0);
-      const featuresList = features.split(',').map(s => s.trim()).filter(s => s.length > 0);
-      
-      return {
-        messages: [{
-          role: 'user',
-          content: {
-            type: 'text',
-            text: `Write an SEO-optimized product description for: ${productName}
-
-Target keywords: ${keywordsList.join(', ')}
-Tone: ${tone}
-Key features: ${featuresList.join(', ')}
-${idealCustomer ? `Ideal customer: ${idealCustomer}` : ''}
-
-Create:
-1. A compelling title (50-60 characters)
-2. A short description (150-160 characters) 
-3. A detailed description (300-500 words)
-4. 5-7 relevant tags
-5. Key selling points in bullet format
-
-Naturally incorporate keywords while maintaining readability and conversion focus.`
-          }
-        }]
-      };
-    }
-  );
+// ===== WEBHOOKS =====
+// create-webhook without a URL points the Printify webhook at a receiver here. Each receiver
+// has its own signing secret; verified events are kept per receiver for printify://events/recent.
 
-  // ===== RESOURCES =====
+const MAX_RECENT_EVENTS = 50;
 
-  // Design guidelines resource
-  server.resource(
-    'design-guidelines',
-    'printify://guidelines/design-requirements',
-    { 
-      mimeType: 'application/json',
-      description: 'Comprehensive design requirements for all Printify products'
-    },
-    async () => {
-      const guidelines = {
-        general: {
-          dpi: 300,
-          colorMode: 'RGB',
-          recommendedFormats: ['PNG', 'JPG'],
-          maxFileSize: '25MB'
-        },
-        products: {
-          tshirt: {
-            printArea: { width: 4500, height: 5400 },
-            safeZone: '0.125 inches from edges',
-            placement: 'Center chest, 3-4 inches from collar'
-          },
-          mug: {
-            printArea: { width: 2700, height: 1200 },
-            safeZone: '0.25 inches from edges',
-            wraparound: true
-          },
-          hoodie: {
-            printArea: { width: 4500, height: 5400 },
-            pocketPrint: { width: 1200, height: 1200 },
-            safeZone: '0.125 inches from edges'
-          },
-          poster: {
-            printArea: 'Full bleed supported',
-            bleed: '0.125 inches',
-            safeZone: '0.25 inches for text'
-          }
-        },
-        tips: [
-          'Use PNG for designs with transparency',
-          'Ensure text is converted to outlines',
-          'Check design at 100% size before upload',
-          'Avoid very thin lines (minimum 2pt)',
-          'Test print colors may vary from screen'
-        ]
-      };
-      
-      return {
-        contents: [{
-          uri: 'printify://guidelines/design-requirements',
-          text: JSON.stringify(guidelines, null, 2)
-        }]
-      };
-    }
-  );
+function getWebhookReceiverUrl(receiverId: string): string {
+  return `${getBaseUrl()}/api/webhooks/printify/${receiverId}`;
+}
 
-  // Size charts resource
-  server.resource(
-    'size-charts',
-    'printify://reference/size-charts',
-    { 
-      mimeType: 'application/json',
-      description: 'Standard size charts for apparel products'
-    },
-    async () => {
-      const sizeCharts = {
-        unisexTShirt: {
-          units: 'inches',
-          sizes: {
-            S: { chest: '34-36', length: 28 },
-            M: { chest: '38-40', length: 29 },
-            L: { chest: '42-44', length: 30 },
-            XL: { chest: '46-48', length: 31 },
-            '2XL': { chest: '50-52', length: 32 },
-            '3XL': { chest: '54-56', length: 33 }
-          }
-        },
-        womensTShirt: {
-          units: 'inches',
-          sizes: {
-            S: { chest: '30-32', length: 25.5 },
-            M: { chest: '32-34', length: 26 },
-            L: { chest: '36-38', length: 27 },
-            XL: { chest: '40-42', length: 28 }
-          }
-        },
-        hoodie: {
-          units: 'inches', 
-          sizes: {
-            S: { chest: '38-40', length: 27 },
-            M: { chest: '42-44', length: 28 },
-            L: { chest: '46-48', length: 29 },
-            XL: { chest: '50-52', length: 30 },
-            '2XL': { chest: '54-56', length: 31 }
-          }
-        }
-      };
-      
-      return {
-        contents: [{
-          uri: 'printify://reference/size-charts',
-          text: JSON.stringify(sizeCharts, null, 2)
-        }]
-      };
-    }
-  );
+// Receivers visible to a session: those of its Printify key, and for members only their workspace's
+function ownsReceiver(session: UserSession, receiver: WebhookReceiver): boolean {
+  return receiver.keyFingerprint === session.keyFingerprint &&
+    (!session.workspace || receiver.workspaceId === session.workspace.workspaceId);
+}
 
-  // Pricing calculator resource
-  server.resource(
-    'pricing-calculator',
-    'printify://tools/pricing-guide',
-    { 
-      mimeType: 'application/json',
-      description: 'Pricing strategies and profit margin calculator'
+function createWebhookReceiverHost(session: UserSession): WebhookReceiverHost {
+  const receiversFor = async (webhookId: string) =>
+    (await webhookStore.list()).filter(receiver => receiver.webhookId === webhookId && ownsReceiver(session, receiver));
+  
+  return {
+    create: async (topic, shopId) => {
+      const receiverId = crypto.randomBytes(16).toString('hex');
+      const secret = crypto.randomBytes(32).toString('hex');
+      await webhookStore.set({
+        receiverId,
+        keyFingerprint: session.keyFingerprint,
+        workspaceId: session.workspace?.workspaceId,
+        shopId,
+        topic,
+        secret: credentialVault.seal(secret),
+        createdAt: Date.now(),
+        events: []
+      });
+      return { receiverId, url: getWebhookReceiverUrl(receiverId), secret };
     },
-    async () => {
-      const pricingGuide = {
-        strategies: {
-          keystone: {
-            description: 'Double the total cost',
-            formula: 'Retail Price = (Base Cost + Shipping) × 2',
-            profitMargin: '50%'
-          },
-          competitive: {
-            description: 'Market-based pricing',
-            formula: 'Retail Price = Average Market Price',
-            profitMargin: 'Varies (typically 30-40%)'
-          },
-          premium: {
-            description: 'High-end positioning',
-            formula: 'Retail Price = (Base Cost + Shipping) × 2.5-3',
-            profitMargin: '60-70%'
-          }
-        },
-        calculations: {
-          profitMargin: '(Retail Price - Total Cost) / Retail Price × 100',
-          breakEven: 'Fixed Costs / (Retail Price - Variable Cost)',
-          recommendedMinimum: '30% profit margin'
-        },
-        tips: [
-          'Consider shipping costs in your pricing',
-          'Account for marketplace fees (Etsy, Shopify)',
-          'Test different price points',
-          'Bundle products for higher average order value',
-          'Offer volume discounts strategically'
-        ]
-      };
-      
-      return {
-        contents: [{
-          uri: 'printify://tools/pricing-guide',
-          text: JSON.stringify(pricingGuide, null, 2)
-        }]
-      };
-    }
-  );
-
-  // Blueprint catalog resource
-  server.resource(
-    'blueprint-catalog',
-    'printify://catalog/popular-blueprints',
-    { 
-      mimeType: 'application/json',
-      description: 'Popular Printify product blueprints with recommendations'
+    link: async (receiverId, webhookId) => {
+      await webhookStore.update(receiverId, receiver => {
+        receiver.webhookId = webhookId;
+      });
     },
-    async () => {
-      const blueprintCatalog = {
-        apparel: {
-          tshirts: [
-            {
-              id: 12,
-              name: 'Unisex Cotton T-Shirt',
-              popularity: 'Very High',
-              priceRange: '$8-12',
-              bestFor: 'General audience, comfortable everyday wear',
-              providers: ['Monster Digital', 'Print Geek', 'FYBY']
-            },
-            {
-              id: 281,
-              name: 'Unisex Cut & Sew Tee (AOP)',
-              popularity: 'High',
-              priceRange: '$15-22',
-              bestFor: 'All-over prints, patterns, artistic designs',
-              providers: ['Subliminator', 'Print Your Cause']
-            }
-          ],
-          hoodies: [
-            {
-              id: 85,
-              name: 'Unisex Heavy Blend Hoodie',
-              popularity: 'Very High',
-              priceRange: '$25-35',
-              bestFor: 'Cold weather, casual streetwear',
-              providers: ['Monster Digital', 'SwiftPOD']
-            }
-          ],
-          longsleeves: [
-            {
-              id: 428,
-              name: 'Unisex Long Sleeve Tee',
-              popularity: 'Medium',
-              priceRange: '$12-18',
-              bestFor: 'Cooler weather, professional casual',
-              providers: ['Monster Digital', 'FYBY']
-            }
-          ]
-        },
-        accessories: {
-          mugs: [
-            {
-              id: 19,
-              name: 'White Glossy Mug',
-              popularity: 'Very High',
-              priceRange: '$10-15',
-              bestFor: 'Gifts, office use, simple designs',
-              providers: ['District Photo', 'Print Geek']
-            }
-          ],
-          toteBags: [
-            {
-              id: 517,
-              name: 'Canvas Tote Bag',
-              popularity: 'High',
-              priceRange: '$12-18',
-              bestFor: 'Eco-friendly shoppers, minimalist designs',
-              providers: ['Bags of Love USA', 'Print Logistic']
-            }
-          ],
-          phoneCases: [
-            {
-              id: 302,
-              name: 'Clear Case for iPhone®',
-              popularity: 'Medium',
-              priceRange: '$15-20',
-              bestFor: 'Tech accessories, personalized gifts',
-              providers: ['Prisma', 'Case Escape']
-            }
-          ]
-        },
-        homeDecor: {
-          posters: [
-            {
-              id: 1,
-              name: 'Posters',
-              popularity: 'High',
-              priceRange: '$10-25',
-              bestFor: 'Wall art, photography, illustrations',
-              providers: ['Prodigi', 'Printify']
-            }
-          ],
-          canvases: [
-            {
-              id: 30,
-              name: 'Canvas Gallery Wraps',
-              popularity: 'Medium',
-              priceRange: '$25-50',
-              bestFor: 'Premium wall art, photography',
-              providers: ['Dream Junction', 'Prodigi']
-            }
-          ]
-        },
-        seasonal: {
-          ornaments: {
-            availability: 'September-December',
-            popularBlueprints: [447, 632, 741]
-          },
-          beachTowels: {
-            availability: 'March-August',
-            popularBlueprints: [559, 612]
-          }
-        }
-      };
-      
-      return {
-        contents: [{
-          uri: 'printify://catalog/popular-blueprints',
-          text: JSON.stringify(blueprintCatalog, null, 2)
-        }]
-      };
+    discard: receiverId => webhookStore.delete(receiverId),
+    discardWebhook: async webhookId => {
+      for (const receiver of await receiversFor(webhookId)) {
+        await webhookStore.delete(receiver.receiverId);
+      }
+    },
+    isReceiverUrl: url => url.startsWith(getWebhookReceiverUrl('')),
+    readRecentEvents: async () => {
+      const receivers = (await webhookStore.list()).filter(receiver => ownsReceiver(session, receiver));
+      return receivers
+        .flatMap(receiver => receiver.events.map(event => ({ shopId: receiver.shopId, webhookId: receiver.webhookId, ...event })))
+        .sort((a, b) => b.receivedAt - a.receivedAt)
+        .slice(0, MAX_RECENT_EVENTS)
+        .map(event => ({ ...event, receivedAt: new Date(event.receivedAt).toISOString() }));
     }
-  );
+  };
+}
 
-  // API best practices resource
-  server.resource(
-    'api-best-practices',
-    'printify://guides/api-best-practices',
-    { 
-      mimeType: 'application/json',
-      description: 'Best practices for using the Printify API efficiently'
-    },
-    async () => {
-      const bestPractices = {
-        rateLimits: {
-          standard: '120 requests per minute',
-          burst: 'Up to 10 concurrent requests',
-          recommendation: 'Implement exponential backoff on 429 errors'
-        },
-        efficiency: {
-          batching: [
-            'Create multiple variants in a single product creation',
-            'Use bulk operations when available',
-            'Cache blueprint and provider data locally'
-          ],
-          pagination: [
-            'Use limit parameter (max 100)',
-            'Process results in parallel when possible',
-            'Store cursor for resumable operations'
-          ]
-        },
-        imageOptimization: {
-          upload: [
-            'Compress images before upload (85% JPEG quality)',
-            'Use appropriate dimensions for product type',
-            'Upload once, reuse image ID for multiple products'
-          ],
-          formats: {
-            transparent: 'PNG (for logos, text)',
-            photos: 'JPEG (smaller file size)',
-            vectors: 'Convert to high-res PNG first'
-          }
-        },
-        errorHandling: {
-          common: {
-            401: 'Check API key validity',
-            404: 'Verify resource IDs',
-            422: 'Validate request payload',
-            429: 'Implement rate limit backoff',
-            500: 'Retry with exponential backoff'
-          }
-        },
-        webhooks: {
-          events: [
-            'product.created',
-            'product.updated', 
-            'product.deleted',
-            'order.created',
-            'order.shipped'
-          ],
-          tip: 'Use webhooks instead of polling for real-time updates'
-        }
-      };
-      
-      return {
-        contents: [{
-          uri: 'printify://guides/api-best-practices',
-          text: JSON.stringify(bestPractices, null, 2)
-        }]
-      };
+app.post('/api/webhooks/printify/:receiverId', async (req, res) => {
+  try {
+    const receiver = await webhookStore.get(req.params.receiverId);
+    if (!receiver) {
+      return res.status(404).json({ error: 'Unknown webhook receiver' });
     }
-  );
+    
+    const secret = credentialVault.open<string>(receiver.secret);
+    if (!verifyWebhookSignature((req as any).rawBody, req.headers['x-pfy-signature'], secret)) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+    
+    const body = req.body || {};
+    const event: WebhookEvent = {
+      eventId: String(body.id ?? crypto.randomUUID()),
+      topic: String(body.type ?? receiver.topic),
+      resourceType: body.resource?.type,
+      resourceId: body.resource?.id !== undefined ? String(body.resource.id) : undefined,
+      createdAt: body.created_at,
+      receivedAt: Date.now(),
+      data: sanitizeArguments(body.resource?.data)
+    };
+    
+    // Printify retries deliveries that time out, so the same event can arrive twice
+    await webhookStore.update(receiver.receiverId, stored => {
+      if (stored.events.some(existing => existing.eventId === event.eventId)) return;
+      stored.events.push(event);
+      if (stored.events.length > MAX_WEBHOOK_EVENTS) {
+        stored.events.splice(0, stored.events.length - MAX_WEBHOOK_EVENTS);
+      }
+    });
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Failed to store webhook event:', error);
+    res.status(500).json({ error: 'Failed to store webhook event', details: error.message });
+  }
+});
 
-    return server;
-  } catch (error) {
-    console.error('Error creating MCP server:', error);
-    throw new Error(`Failed to create MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+// ===== TEAM WORKSPACES =====
+// The owner registers the Printify key once and invites members. Each member gets their own
+// MCP URL (or OAuth connection) with their own scopes; their writes are recorded as activity.
+// Management routes authenticate with the owner's Printify API key (X-API-Key header).
+
+const WORKSPACE_ROLES: WorkspaceRole[] = ['admin', 'editor', 'viewer'];
+const INVITE_TTL_DAYS = 7;
+
+function parseRole(value: unknown): WorkspaceRole {
+  if (!WORKSPACE_ROLES.includes(value as WorkspaceRole)) {
+    throw new Error(`role must be one of: ${WORKSPACE_ROLES.join(', ')}`);
   }
+  return value as WorkspaceRole;
 }
 
-// Generate unique API endpoint for each user
-function generateUserEndpoint(): string {
-  return crypto.randomBytes(16).toString('hex');
+async function findOwnedWorkspace(req: express.Request, workspaceId: string): Promise<Workspace | undefined> {
+  const workspace = await workspaceStore.get(workspaceId);
+  if (!workspace || workspace.ownerFingerprint !== fingerprintSecret((req as any).apiKey)) {
+    return undefined;
+  }
+  return workspace;
 }
 
-// Main MCP endpoint - handles all requests for a specific user
-app.all('/api/mcp/a/:userId/mcp', async (req, res) => {
-  const userId = req.params.userId;
+async function listWorkspaceSessions(workspaceId: string, memberId?: string): Promise<StoredSession[]> {
+  return (await sessionStore.list()).filter(stored =>
+    stored.workspace?.workspaceId === workspaceId &&
+    (!memberId || stored.workspace.memberId === memberId)
+  );
+}
+
+async function describeWorkspace(workspace: Workspace) {
+  const sessions = await listWorkspaceSessions(workspace.workspaceId);
+  const now = Date.now();
   
-  try {
-    // Get user session
-    const session = userSessions.get(userId);
-    
-    if (!session) {
-      return res.status(404).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32001,
-          message: 'Session not found. Please register first.',
-        },
-        id: null,
-      });
-    }
-    
-    // Update last accessed time
-    session.lastAccessed = Date.now();
+  return {
+    id: workspace.workspaceId,
+    name: workspace.name,
+    shopId: workspace.shopId ?? null,
+    createdAt: new Date(workspace.createdAt).toISOString(),
+    members: workspace.members.map(member => ({
+      id: member.memberId,
+      name: member.name,
+      role: member.role,
+      scopes: expandScopes(normalizeStoredScopes(member.scopes)),
+      joinedAt: new Date(member.joinedAt).toISOString(),
+      endpoints: sessions.filter(stored => stored.workspace?.memberId === member.memberId).map(describeEndpoint)
+    })),
+    invites: workspace.invites
+      .filter(invite => invite.expiresAt > now)
+      .map(invite => ({
+        id: invite.inviteId,
+        label: invite.label ?? null,
+        role: invite.role,
+        scopes: expandScopes(invite.scopes),
+        expiresAt: new Date(invite.expiresAt).toISOString()
+      }))
+  };
+}
+
+// Drop a member and revoke every session they connected with
+async function removeWorkspaceMember(workspaceId: string, memberId: string): Promise<void> {
+  for (const stored of await listWorkspaceSessions(workspaceId, memberId)) {
+    await revokeUserSession(stored.userId);
+  }
+  await workspaceStore.update(workspaceId, ws => {
+    ws.members = ws.members.filter(member => member.memberId !== memberId);
+  });
+}
+
+// Redeem a single-use invite: add the member and create their session on the workspace credentials.
+// limitScopes narrows the session further (the OAuth consent page may grant less than the role allows).
+async function joinWorkspace(inviteCode: string, memberName: string, options: { oauth?: OAuthGrant; limitScopes?: ScopeGrant } = {}) {
+  const codeHash = fingerprintSecret(inviteCode);
+  const isValidInvite = (invite: WorkspaceInvite) => invite.codeHash === codeHash && invite.expiresAt > Date.now();
+  
+  const workspace = (await workspaceStore.list()).find(ws => ws.invites.some(isValidInvite));
+  if (!workspace) {
+    throw new Error('Invite code is invalid, expired or has already been used');
+  }
+  
+  const memberId = crypto.randomBytes(8).toString('hex');
+  let invite = undefined as WorkspaceInvite | undefined;
+  await workspaceStore.update(workspace.workspaceId, ws => {
+    const index = ws.invites.findIndex(isValidInvite);
+    if (index === -1) return;
     
-    // Session recovery: Re-initialize Printify client if shop ID is missing
-    if (!session.printifyClient.shopId) {
-      console.log('Session missing shop ID, attempting recovery...');
-      try {
-        await session.printifyClient.initialize();
-        console.log('Session recovered successfully');
-      } catch (initError) {
-        console.error('Failed to recover session:', initError);
-        return res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: 'Session recovery failed. Please re-register.',
-          },
-          id: null,
-        });
-      }
+    invite = ws.invites.splice(index, 1)[0];
+    ws.members.push({ memberId, name: memberName, role: invite.role, scopes: invite.scopes, joinedAt: Date.now() });
+  });
+  if (!invite) {
+    throw new Error('Invite code is invalid, expired or has already been used');
+  }
+  
+  const scopes = options.limitScopes ? intersectScopes(invite.scopes, options.limitScopes) : invite.scopes;
+  
+  try {
+    if (scopes !== FULL_ACCESS && scopes.length === 0) {
+      throw new Error('None of the requested permissions are allowed for this invite');
     }
     
-    // Create new MCP server instance for this request (following SDK pattern)
-    const server = createUserMcpServer(session);
-    
-    // Create transport in stateless mode
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined, // Stateless mode
+    const credentials = credentialVault.open<SessionCredentials>(workspace.credentials);
+    const session = await createUserSession({
+      printifyApiKey: credentials.printifyApiKey,
+      replicateApiToken: credentials.replicateApiToken,
+      shopId: workspace.shopId,
+      scopes,
+      oauth: options.oauth,
+      workspace: { workspaceId: workspace.workspaceId, memberId }
     });
+    console.log(`Member ${memberId} joined workspace ${workspace.workspaceId} as ${invite.role}`);
     
-    // Connect server to transport
-    await server.connect(transport);
+    return { workspace, memberId, role: invite.role, session };
+  } catch (error) {
+    // Give the invite back so the member can try again
+    const claimed = invite;
+    await workspaceStore.update(workspace.workspaceId, ws => {
+      ws.members = ws.members.filter(member => member.memberId !== memberId);
+      ws.invites.push(claimed);
+    }).catch(console.error);
+    throw error;
+  }
+}
+
+// Create a workspace for the Printify key in X-API-Key
+app.post('/api/workspaces', validateApiKey, async (req, res) => {
+  const { name, replicateApiToken } = req.body;
+  const printifyApiKey = (req as any).apiKey;
+  
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'Workspace name is required' });
+  }
+  
+  try {
+    const printifyClient = new PrintifyAPI(printifyApiKey);
+    await printifyClient.initialize();
     
-    // Handle the request
-    await transport.handleRequest(req, res, req.body);
+    const workspace: Workspace = {
+      workspaceId: crypto.randomBytes(8).toString('hex'),
+      name: name.trim(),
+      ownerFingerprint: fingerprintSecret(printifyApiKey),
+      credentials: sealCredentials(printifyApiKey, replicateApiToken),
+      shopId: printifyClient.shopId,
+      createdAt: Date.now(),
+      members: [],
+      invites: [],
+      activity: []
+    };
+    await workspaceStore.set(workspace);
+    console.log(`Created workspace ${workspace.workspaceId}`);
     
-    // Clean up when response is done
-    res.on('close', () => {
-      transport.close().catch(console.error);
-      server.close().catch(console.error);
+    res.json({ success: true, workspace: await describeWorkspace(workspace) });
+  } catch (error: any) {
+    res.status(400).json({ 
+      error: 'Invalid API key or failed to connect to Printify',
+      details: error.message 
     });
+  }
+});
+
+// List workspaces owned by this API key
+app.get('/api/workspaces', validateApiKey, async (req, res) => {
+  try {
+    const fingerprint = fingerprintSecret((req as any).apiKey);
+    const owned = (await workspaceStore.list()).filter(workspace => workspace.ownerFingerprint === fingerprint);
     
+    res.json({ success: true, workspaces: await Promise.all(owned.map(describeWorkspace)) });
   } catch (error: any) {
-    console.error('Error handling MCP request:', error);
+    console.error('Failed to list workspaces:', error);
+    res.status(500).json({ error: 'Failed to list workspaces', details: error.message });
+  }
+});
+
+app.get('/api/workspaces/:workspaceId', validateApiKey, async (req, res) => {
+  const workspace = await findOwnedWorkspace(req, req.params.workspaceId).catch(() => undefined);
+  if (!workspace) {
+    return res.status(404).json({ error: 'Workspace not found for this API key' });
+  }
+  
+  res.json({ success: true, workspace: await describeWorkspace(workspace) });
+});
+
+// Delete a workspace and disconnect every member
+app.delete('/api/workspaces/:workspaceId', validateApiKey, async (req, res) => {
+  try {
+    const workspace = await findOwnedWorkspace(req, req.params.workspaceId);
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found for this API key' });
+    }
     
-    // Return proper JSON-RPC error response
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: error.message || 'Internal server error',
-          data: {
-            type: error.name,
-            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
-          }
-        },
-        id: null,
-      });
+    for (const stored of await listWorkspaceSessions(workspace.workspaceId)) {
+      await revokeUserSession(stored.userId);
     }
+    await workspaceStore.delete(workspace.workspaceId);
+    console.log(`Deleted workspace ${workspace.workspaceId}`);
+    
+    res.json({ success: true, deleted: workspace.workspaceId });
+  } catch (error: any) {
+    console.error('Failed to delete workspace:', error);
+    res.status(500).json({ error: 'Failed to delete workspace', details: error.message });
   }
 });
 
-// Test connection endpoint - validates API key without creating a session
-app.post('/api/test-connection', async (req, res) => {
-  const { printifyApiKey } = req.body;
+// Create a single-use invite. The code is only returned once.
+app.post('/api/workspaces/:workspaceId/invites', validateApiKey, async (req, res) => {
+  let role: WorkspaceRole;
+  let scopes: ScopeGrant;
+  try {
+    role = parseRole(req.body.role ?? 'editor');
+    scopes = req.body.scopes === undefined ? copyScopes(ROLE_SCOPES[role]) : parseScopes(req.body.scopes);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
   
-  if (!printifyApiKey) {
-    return res.status(400).json({ error: 'Printify API key is required' });
+  const expiresInDays = Number(req.body.expiresInDays ?? INVITE_TTL_DAYS);
+  if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > 90) {
+    return res.status(400).json({ error: 'expiresInDays must be between 1 and 90' });
   }
   
   try {
-    // Test the API key by initializing the client
-    console.log('Testing API key connection...');
-    const printifyClient = new PrintifyAPI(printifyApiKey);
+    const code = `inv_${crypto.randomBytes(18).toString('base64url')}`;
+    const invite: WorkspaceInvite = {
+      inviteId: crypto.randomBytes(6).toString('hex'),
+      codeHash: fingerprintSecret(code),
+      role,
+      scopes,
+      label: typeof req.body.label === 'string' ? req.body.label : undefined,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + expiresInDays * 24 * 60 * 60 * 1000
+    };
     
-    const shops = await printifyClient.initialize();
+    const workspace = await findOwnedWorkspace(req, req.params.workspaceId);
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found for this API key' });
+    }
+    await workspaceStore.update(workspace.workspaceId, ws => {
+      ws.invites = ws.invites.filter(existing => existing.expiresAt > Date.now());
+      ws.invites.push(invite);
+    });
     
     res.json({
       success: true,
-      shops: shops.map(shop => ({
-        id: shop.id,
-        title: shop.title,
-        sales_channel: shop.sales_channel
-      })),
-      message: 'Connection successful'
+      invite: { id: invite.inviteId, role, scopes: expandScopes(scopes), expiresAt: new Date(invite.expiresAt).toISOString() },
+      code,
+      joinUrl: `${getBaseUrl()}/join?code=${code}`
     });
   } catch (error: any) {
-    console.error('Test connection failed:', error);
-    res.status(400).json({ 
-      error: 'Failed to connect to Printify',
-      details: error.message 
+    console.error('Failed to create invite:', error);
+    res.status(500).json({ error: 'Failed to create invite', details: error.message });
+  }
+});
+
+app.delete('/api/workspaces/:workspaceId/invites/:inviteId', validateApiKey, async (req, res) => {
+  try {
+    const workspace = await findOwnedWorkspace(req, req.params.workspaceId);
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found for this API key' });
+    }
+    
+    await workspaceStore.update(workspace.workspaceId, ws => {
+      ws.invites = ws.invites.filter(invite => invite.inviteId !== req.params.inviteId);
     });
+    res.json({ success: true, revoked: req.params.inviteId });
+  } catch (error: any) {
+    console.error('Failed to revoke invite:', error);
+    res.status(500).json({ error: 'Failed to revoke invite', details: error.message });
   }
 });
 
-// Registration endpoint - generates a unique URL for the user
-app.post('/api/register', async (req, res) => {
-  const { printifyApiKey, replicateApiToken } = req.body;
-  
-  if (!printifyApiKey) {
-    return res.status(400).json({ error: 'Printify API key is required' });
+// Change a member's role or scopes; their connected sessions pick up the change immediately
+app.put('/api/workspaces/:workspaceId/members/:memberId', validateApiKey, async (req, res) => {
+  let role: WorkspaceRole | undefined;
+  let scopes: ScopeGrant | undefined;
+  try {
+    role = req.body.role === undefined ? undefined : parseRole(req.body.role);
+    scopes = req.body.scopes === undefined ? undefined : parseScopes(req.body.scopes);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
   }
   
   try {
-    // Validate the API key by initializing the client
-    console.log('Registration attempt with API key:', printifyApiKey ? printifyApiKey.substring(0, 10) + '...' : 'None');
-    const printifyClient = new PrintifyAPI(printifyApiKey);
-    
-    console.log('Initializing Printify API...');
-    await printifyClient.initialize();
+    const workspace = await findOwnedWorkspace(req, req.params.workspaceId);
+    if (!workspace || !workspace.members.some(member => member.memberId === req.params.memberId)) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
     
-    // Generate unique user ID
-    const userId = generateUserEndpoint();
+    const updated = await workspaceStore.update(workspace.workspaceId, ws => {
+      const member = ws.members.find(m => m.memberId === req.params.memberId);
+      if (!member) return;
+      if (role) member.role = role;
+      member.scopes = scopes ?? (role ? copyScopes(ROLE_SCOPES[role]) : member.scopes);
+    });
+    const member = updated!.members.find(m => m.memberId === req.params.memberId)!;
     
-    // Store session
-    const session: UserSession = {
-      printifyApiKey,
-      printifyClient,
-      lastAccessed: Date.now(),
-    };
+    for (const stored of await listWorkspaceSessions(workspace.workspaceId, member.memberId)) {
+      const active = userSessions.get(stored.userId);
+      if (active) active.scopes = member.scopes;
+      await sessionStore.set({ ...(active ? toStoredSession(active) : stored), scopes: member.scopes });
+    }
     
-    if (replicateApiToken) {
-      session.replicateClient = new ReplicateClient(replicateApiToken);
+    res.json({ success: true, workspace: await describeWorkspace(updated!) });
+  } catch (error: any) {
+    console.error('Failed to update member:', error);
+    res.status(500).json({ error: 'Failed to update member', details: error.message });
+  }
+});
+
+// Remove a member and revoke all of their MCP URLs
+app.delete('/api/workspaces/:workspaceId/members/:memberId', validateApiKey, async (req, res) => {
+  try {
+    const workspace = await findOwnedWorkspace(req, req.params.workspaceId);
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found for this API key' });
     }
     
-    userSessions.set(userId, session);
+    await removeWorkspaceMember(workspace.workspaceId, req.params.memberId);
+    console.log(`Removed member ${req.params.memberId} from workspace ${workspace.workspaceId}`);
     
-    // Return the unique MCP endpoint URL
-    const baseUrl = getBaseUrl();
-    console.log(`Generated MCP URL with BASE_URL: ${baseUrl}`);
+    res.json({ success: true, removed: req.params.memberId });
+  } catch (error: any) {
+    console.error('Failed to remove member:', error);
+    res.status(500).json({ error: 'Failed to remove member', details: error.message });
+  }
+});
+
+// Who changed what, newest first. Filters: memberId, resourceId, action, limit (default 50)
+app.get('/api/workspaces/:workspaceId/activity', validateApiKey, async (req, res) => {
+  const workspace = await findOwnedWorkspace(req, req.params.workspaceId).catch(() => undefined);
+  if (!workspace) {
+    return res.status(404).json({ error: 'Workspace not found for this API key' });
+  }
+  
+  const { memberId, resourceId, action } = req.query;
+  const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, MAX_WORKSPACE_ACTIVITY);
+  const activity = workspace.activity
+    .filter(entry => !memberId || entry.memberId === memberId)
+    .filter(entry => !resourceId || entry.resourceId === resourceId)
+    .filter(entry => !action || entry.action === action)
+    .reverse()
+    .slice(0, limit)
+    .map(entry => ({ ...entry, at: new Date(entry.at).toISOString() }));
+  
+  res.json({ success: true, activity });
+});
+
+// Invite landing page
+app.get('/join', (req, res) => {
+  res.sendFile('join.html', { root: path.join(__dirname, 'public') });
+});
+
+// Redeem an invite for a secret MCP URL (OAuth clients redeem it on the consent page instead)
+app.post('/api/workspaces/join', async (req, res) => {
+  const { code, name } = req.body;
+  
+  if (!code || !name) {
+    return res.status(400).json({ error: 'Invite code and your name are required' });
+  }
+  
+  if (!LEGACY_MCP_URLS) {
+    return res.status(410).json({
+      error: 'Secret MCP URLs are disabled on this server',
+      details: `Add ${getOAuthMcpUrl()} to your MCP client and enter the invite code on the sign-in page.`
+    });
+  }
+  
+  try {
+    const { workspace, role, session } = await joinWorkspace(code, String(name).trim());
     
     res.json({
       success: true,
-      mcpUrl: `${baseUrl}/api/mcp/a/${userId}/mcp`,
-      instructions: 'Add this URL to your MCP client (e.g., Claude.com) to connect to your Printify account.'
+      workspace: workspace.name,
+      role,
+      scopes: session.scopes,
+      mcpUrl: getMcpUrl(session.userId),
+      sseUrl: getSseUrl(session.userId),
+      instructions: 'Add this URL to your MCP client (e.g., Claude.com) to connect to the team workspace.'
     });
   } catch (error: any) {
-    res.status(400).json({ 
-      error: 'Invalid API key or failed to connect to Printify',
-      details: error.message 
-    });
+    res.status(400).json({ error: 'Failed to join workspace', details: error.message });
   }
 });
 
@@ -3045,6 +1546,10 @@ app.get('/health', (req, res) => {
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     activeSessions: userSessions.size,
+    sessionStore: sessionStore.kind,
+    webhookStore: webhookStore.kind,
+    catalogIndex: { kind: catalogIndex.kind, blueprints: catalogIndex.size },
+    mcpSessionMode: MCP_SESSION_MODE,
     environment: {
       nodeVersion: process.version,
       platform: process.platform,
@@ -3062,8 +1567,9 @@ app.get('/health', (req, res) => {
 });
 
 // Metrics endpoint for monitoring
-app.get('/metrics', (req, res) => {
+app.get('/metrics', async (req, res) => {
   const now = Date.now();
+  const storedSessions = await sessionStore.list().catch(() => []);
   const sessionMetrics = Array.from(userSessions.values()).map(session => ({
     hasReplicate: !!session.replicateClient,
     shopId: session.shopId,
@@ -3084,10 +1590,19 @@ app.get('/metrics', (req, res) => {
     },
     sessions: {
       total: userSessions.size,
+      persisted: storedSessions.length,
+      store: sessionStore.kind,
       activeInLast5Min,
       activeInLast1Hour,
-      withReplicate: sessionMetrics.filter(s => s.hasReplicate).length
+      withReplicate: sessionMetrics.filter(s => s.hasReplicate).length,
+      mcpSessionMode: MCP_SESSION_MODE,
+      openMcpSessions: mcpSessions?.size ?? 0,
+      openSseStreams: sseSessions.size
     },
+    // Requests waiting for Printify rate limit budget, across every API key
+    printifyRequests: printifyScheduler.stats(),
+    // Requests sent to Printify, counting every retry but not cache hits
+    printifyHttp: printifyHttpMetrics.snapshot(),
     deployment: {
       baseUrl: getBaseUrl(),
       port: PORT,
@@ -3121,14 +1636,14 @@ process.on('uncaughtException', (error) => {
 });
 
 // Start server
-const PORT = parseInt(process.env.PORT || '3000', 10);
-const HOST = '0.0.0.0'; // Bind to all interfaces for container compatibility
-
 // Debug environment variables for Railway deployment
 console.log('=== Railway Deployment Environment ===');
 console.log('NODE_ENV:', process.env.NODE_ENV || 'not set');
 console.log('PORT:', process.env.PORT || 'not set (default: 3000)');
 console.log('BASE_URL:', process.env.BASE_URL || 'not set');
+console.log('SESSION_STORE:', sessionStore.kind, process.env.SESSION_STORE_PATH ? `(${process.env.SESSION_STORE_PATH})` : '');
+console.log('OAUTH:', oauthEnabled ? 'enabled' : 'disabled', '| LEGACY_MCP_URLS:', LEGACY_MCP_URLS);
+console.log('MCP_SESSION_MODE:', MCP_SESSION_MODE);
 console.log('--- Railway Variables ---');
 console.log('RAILWAY_PUBLIC_DOMAIN:', process.env.RAILWAY_PUBLIC_DOMAIN || 'not set');
 console.log('RAILWAY_STATIC_URL:', process.env.RAILWAY_STATIC_URL || 'not set');
@@ -3167,12 +1682,36 @@ function getBaseUrl(): string {
   return baseUrl;
 }
 
+function getMcpUrl(userId: string): string {
+  return `${getBaseUrl()}/api/mcp/a/${userId}/mcp`;
+}
+
+// Same session over the HTTP+SSE transport, for older clients
+function getSseUrl(userId: string): string {
+  return `${getBaseUrl()}/api/mcp/a/${userId}/sse`;
+}
+
+function getOAuthMcpUrl(): string {
+  return `${getBaseUrl()}/mcp`;
+}
+
+rotateSessionKeys()
+  .then(rotated => {
+    if (rotated > 0) {
+      console.log(`Re-encrypted ${rotated} stored sessions under key ${credentialVault.currentKeyId}`);
+    }
+  })
+  .catch(error => console.error('Session key rotation failed:', error));
+
 app.listen(PORT, HOST, () => {
   const baseUrl = getBaseUrl();
   
   console.log(`Printify MCP Web Server running on ${HOST}:${PORT}`);
   console.log(`Detected BASE_URL: ${baseUrl}`);
   console.log(`Health check available at: ${baseUrl}/health`);
+  if (oauthEnabled) {
+    console.log(`OAuth MCP endpoint: ${getOAuthMcpUrl()}`);
+  }
   console.log(`Register at: ${baseUrl}`);
 }).on('error', (error) => {
   console.error('Failed to start server:', error);
@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EncryptedEnvelope } from './credential-vault.js';
+import { ScopeGrant } from './scopes.js';
+
+// Secrets sealed into StoredSession.credentials
+export interface SessionCredentials {
+  printifyApiKey: string;
+  replicateApiToken?: string;
+}
+
+// OAuth grant backing a session created through the authorization flow. Such sessions are
+// reached through bearer tokens on /mcp, never through their userId in a URL.
+export interface OAuthGrant {
+  clientId: string;
+  clientName?: string;
+  refreshGeneration: number; // Bumped on every refresh so each refresh token works only once
+}
+
+// Session belonging to a team workspace member; writes made through it are attributed to the member
+export interface WorkspaceMembership {
+  workspaceId: string;
+  memberId: string;
+}
+
+// Persisted view of a user session. Runtime clients (PrintifyAPI, ReplicateClient)
+// are not stored; they are rebuilt from these fields on the first request after a restart.
+export interface StoredSession {
+  userId: string;
+  credentials: EncryptedEnvelope;
+  keyFingerprint: string; // fingerprintSecret(printifyApiKey), used to find all URLs for a key
+  shopId?: string;
+  createdAt: number;
+  lastAccessed: number;
+  expiresAt?: number; // Explicit expiry set by the owner, in addition to SESSION_TTL_DAYS
+  scopes?: ScopeGrant; // Tool permissions; missing on records created before scopes existed (full access)
+  oauth?: OAuthGrant;
+  workspace?: WorkspaceMembership;
+}
+
+// Pluggable backend for session persistence
+export interface SessionStore {
+  readonly kind: string;
+  get(userId: string): Promise<StoredSession | undefined>;
+  set(session: StoredSession): Promise<void>;
+  delete(userId: string): Promise<void>;
+  list(): Promise<StoredSession[]>;
+}
+
+// Volatile store - sessions are lost on restart (useful for local testing)
+export class MemorySessionStore implements SessionStore {
+  readonly kind = 'memory';
+  private sessions = new Map<string, StoredSession>();
+
+  async get(userId: string): Promise<StoredSession | undefined> {
+    const session = this.sessions.get(userId);
+    return session ? { ...session } : undefined;
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    this.sessions.set(session.userId, { ...session });
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.sessions.delete(userId);
+  }
+
+  async list(): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values()).map(session => ({ ...session }));
+  }
+}
+
+// Keyed records persisted to a single JSON file as { version, [collection]: [...] }.
+// Writes go to a temp file and are renamed into place so a crash never leaves a partial file.
+export class JsonFileRecords<T> {
+  private records = new Map<string, T>();
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private collection: string,
+    private keyOf: (record: T) => string
+  ) {}
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw);
+      const records: T[] = Array.isArray(parsed?.[this.collection]) ? parsed[this.collection] : [];
+      records.forEach(record => this.records.set(this.keyOf(record), record));
+      console.log(`Loaded ${this.records.size} persisted ${this.collection} from ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read ${this.collection} store ${this.filePath}: ${error.message}`);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Chain writes so concurrent updates never interleave on disk
+    const write = this.writeChain.then(() => this.writeFile());
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeFile(): Promise<void> {
+    const data = JSON.stringify({ version: 1, [this.collection]: Array.from(this.records.values()) }, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, data, { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    await this.ensureLoaded();
+    const record = this.records.get(key);
+    return record ? { ...record } : undefined;
+  }
+
+  async set(record: T): Promise<void> {
+    await this.ensureLoaded();
+    this.records.set(this.keyOf(record), { ...record });
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureLoaded();
+    if (this.records.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async list(): Promise<T[]> {
+    await this.ensureLoaded();
+    return Array.from(this.records.values()).map(record => ({ ...record }));
+  }
+}
+
+// Durable store backed by a single JSON file (mount its directory as a volume in production)
+export class FileSessionStore implements SessionStore {
+  readonly kind = 'file';
+  private records: JsonFileRecords<StoredSession>;
+
+  constructor(filePath: string) {
+    this.records = new JsonFileRecords<StoredSession>(filePath, 'sessions', session => session.userId);
+  }
+
+  get(userId: string): Promise<StoredSession | undefined> {
+    return this.records.get(userId);
+  }
+
+  set(session: StoredSession): Promise<void> {
+    return this.records.set(session);
+  }
+
+  delete(userId: string): Promise<void> {
+    return this.records.delete(userId);
+  }
+
+  list(): Promise<StoredSession[]> {
+    return this.records.list();
+  }
+}
+
+// Select the backend from the environment (SESSION_STORE=file|memory, SESSION_STORE_PATH)
+export function createSessionStore(): SessionStore {
+  const backend = (process.env.SESSION_STORE || 'file').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemorySessionStore();
+  }
+
+  const filePath = process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json');
+  return new FileSessionStore(filePath);
+}
@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { PrintifyAPI } from './printify-api.js';
+import { ReplicateClient } from './replicate-client.js';
+import { CatalogIndex } from './catalog-index.js';
+import { createPrintifyMcpServer } from './mcp-server.js';
+import { expandScopes, parseScopes } from './scopes.js';
+
+// Local MCP server over stdio for Claude Desktop and IDEs. Serves the same tools as the
+// web server, with credentials from the environment instead of a registered session.
+
+// stdout carries the protocol, so all logging has to go to stderr
+console.log = console.error;
+console.info = console.error;
+
+async function main() {
+  const printifyApiKey = process.env.PRINTIFY_API_KEY;
+  if (!printifyApiKey) {
+    console.error('PRINTIFY_API_KEY is required. Get one from https://printify.com/app/account/api');
+    process.exit(1);
+  }
+
+  const printifyClient = new PrintifyAPI(printifyApiKey, process.env.PRINTIFY_SHOP_ID);
+  await printifyClient.initialize();
+
+  const replicateApiToken = process.env.REPLICATE_API_TOKEN;
+  const server = createPrintifyMcpServer({
+    printifyClient,
+    replicateClient: replicateApiToken ? new ReplicateClient(replicateApiToken) : undefined,
+    scopes: expandScopes(parseScopes(process.env.PRINTIFY_SCOPES)),
+    // Kept in memory unless a file is configured, since the working directory is up to the client
+    catalogIndex: new CatalogIndex(process.env.CATALOG_INDEX_PATH)
+  });
+
+  await server.connect(new StdioServerTransport());
+  console.error(`Printify MCP server running on stdio (shop ${printifyClient.shopId ?? 'none'})`);
+}
+
+main().catch(error => {
+  console.error('Failed to start Printify MCP server:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import path from 'path';
+import { EncryptedEnvelope } from './credential-vault.js';
+import { JsonFileRecords } from './session-store.js';
+
+export const MAX_WEBHOOK_EVENTS = 200; // Per receiver; oldest events are dropped beyond this
+
+// A shop event Printify delivered to one of our receiver URLs
+export interface WebhookEvent {
+  eventId: string;
+  topic: string;
+  resourceType?: string;
+  resourceId?: string;
+  createdAt?: string; // When Printify raised the event
+  receivedAt: number;
+  data: unknown; // Trimmed copy of the resource data
+}
+
+// Receiver URL for one Printify webhook. The receiver ID in the URL is random and unrelated
+// to the session ID, which is itself a credential and must never be handed to Printify.
+export interface WebhookReceiver {
+  receiverId: string;
+  keyFingerprint: string; // Owner of the Printify account the webhook belongs to
+  workspaceId?: string;
+  shopId: string;
+  topic: string;
+  webhookId?: string; // Set once Printify has accepted the webhook
+  secret: EncryptedEnvelope; // Signing secret, sealed like session credentials
+  createdAt: number;
+  events: WebhookEvent[];
+}
+
+// Printify sends X-Pfy-Signature: sha256=<hex HMAC of the raw body>
+export function verifyWebhookSignature(rawBody: Buffer | undefined, header: unknown, secret: string): boolean {
+  if (!rawBody || typeof header !== 'string') return false;
+
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`);
+  const received = Buffer.from(header);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// Pluggable backend for webhook receivers, selected like the session store
+export interface WebhookStore {
+  readonly kind: string;
+  get(receiverId: string): Promise<WebhookReceiver | undefined>;
+  set(receiver: WebhookReceiver): Promise<void>;
+  delete(receiverId: string): Promise<void>;
+  list(): Promise<WebhookReceiver[]>;
+  // Read-modify-write without losing concurrent deliveries
+  update(receiverId: string, change: (receiver: WebhookReceiver) => void): Promise<WebhookReceiver | undefined>;
+}
+
+abstract class SerializedWebhookStore implements WebhookStore {
+  abstract readonly kind: string;
+  private updateChain: Promise<unknown> = Promise.resolve();
+
+  abstract get(receiverId: string): Promise<WebhookReceiver | undefined>;
+  abstract set(receiver: WebhookReceiver): Promise<void>;
+  abstract delete(receiverId: string): Promise<void>;
+  abstract list(): Promise<WebhookReceiver[]>;
+
+  update(receiverId: string, change: (receiver: WebhookReceiver) => void): Promise<WebhookReceiver | undefined> {
+    const run = this.updateChain.then(async () => {
+      const receiver = await this.get(receiverId);
+      if (!receiver) return undefined;
+
+      change(receiver);
+      await this.set(receiver);
+      return receiver;
+    });
+    this.updateChain = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Records are deep-copied because events are a nested array
+function copyReceiver(receiver: WebhookReceiver): WebhookReceiver {
+  return JSON.parse(JSON.stringify(receiver));
+}
+
+// Volatile store - receivers and their events are lost on restart
+export class MemoryWebhookStore extends SerializedWebhookStore {
+  readonly kind = 'memory';
+  private receivers = new Map<string, WebhookReceiver>();
+
+  async get(receiverId: string): Promise<WebhookReceiver | undefined> {
+    const receiver = this.receivers.get(receiverId);
+    return receiver ? copyReceiver(receiver) : undefined;
+  }
+
+  async set(receiver: WebhookReceiver): Promise<void> {
+    this.receivers.set(receiver.receiverId, copyReceiver(receiver));
+  }
+
+  async delete(receiverId: string): Promise<void> {
+    this.receivers.delete(receiverId);
+  }
+
+  async list(): Promise<WebhookReceiver[]> {
+    return Array.from(this.receivers.values()).map(copyReceiver);
+  }
+}
+
+// Durable store backed by a single JSON file next to the session file
+export class FileWebhookStore extends SerializedWebhookStore {
+  readonly kind = 'file';
+  private records: JsonFileRecords<WebhookReceiver>;
+
+  constructor(filePath: string) {
+    super();
+    this.records = new JsonFileRecords<WebhookReceiver>(filePath, 'webhooks', receiver => receiver.receiverId);
+  }
+
+  async get(receiverId: string): Promise<WebhookReceiver | undefined> {
+    const receiver = await this.records.get(receiverId);
+    return receiver ? copyReceiver(receiver) : undefined;
+  }
+
+  set(receiver: WebhookReceiver): Promise<void> {
+    return this.records.set(copyReceiver(receiver));
+  }
+
+  delete(receiverId: string): Promise<void> {
+    return this.records.delete(receiverId);
+  }
+
+  async list(): Promise<WebhookReceiver[]> {
+    return (await this.records.list()).map(copyReceiver);
+  }
+}
+
+// Select the backend from the environment (SESSION_STORE=file|memory, WEBHOOK_STORE_PATH)
+export function createWebhookStore(): WebhookStore {
+  const backend = (process.env.SESSION_STORE || 'file').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemoryWebhookStore();
+  }
+
+  const sessionPath = process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json');
+  const filePath = process.env.WEBHOOK_STORE_PATH || path.join(path.dirname(sessionPath), 'webhooks.json');
+  return new FileWebhookStore(filePath);
+}
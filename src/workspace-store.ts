@@ -0,0 +1,163 @@
+import path from 'path';
+import { EncryptedEnvelope } from './credential-vault.js';
+import { ScopeGrant, SCOPE_PRESETS } from './scopes.js';
+import { JsonFileRecords } from './session-store.js';
+
+export type WorkspaceRole = 'admin' | 'editor' | 'viewer';
+
+// Default scopes for each role; individual members can be narrowed or widened by the owner
+export const ROLE_SCOPES: Record<WorkspaceRole, ScopeGrant> = {
+  admin: SCOPE_PRESETS['full'],
+  editor: SCOPE_PRESETS['no-destructive'],
+  viewer: SCOPE_PRESETS['read-only']
+};
+
+export const MAX_WORKSPACE_ACTIVITY = 1000; // Oldest entries are dropped beyond this
+
+export interface WorkspaceMember {
+  memberId: string;
+  name: string;
+  role: WorkspaceRole;
+  scopes: ScopeGrant;
+  joinedAt: number;
+}
+
+// Single-use invitation; only a hash of the code is stored
+export interface WorkspaceInvite {
+  inviteId: string;
+  codeHash: string;
+  role: WorkspaceRole;
+  scopes: ScopeGrant;
+  label?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// A change a member made to the shared Printify account
+export interface WorkspaceActivity {
+  at: number;
+  memberId: string;
+  memberName: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  title?: string;
+  shopId?: string;
+}
+
+// One Printify account shared by a team. The owner is whoever holds the Printify key;
+// members only ever get MCP URLs whose sessions reuse the workspace credentials.
+export interface Workspace {
+  workspaceId: string;
+  name: string;
+  ownerFingerprint: string; // fingerprintSecret(printifyApiKey) of the owner
+  credentials: EncryptedEnvelope;
+  shopId?: string;
+  createdAt: number;
+  members: WorkspaceMember[];
+  invites: WorkspaceInvite[];
+  activity: WorkspaceActivity[];
+}
+
+// Pluggable backend for workspace persistence, selected like the session store
+export interface WorkspaceStore {
+  readonly kind: string;
+  get(workspaceId: string): Promise<Workspace | undefined>;
+  set(workspace: Workspace): Promise<void>;
+  delete(workspaceId: string): Promise<void>;
+  list(): Promise<Workspace[]>;
+  // Read-modify-write without losing concurrent updates (e.g. two members acting at once)
+  update(workspaceId: string, change: (workspace: Workspace) => void): Promise<Workspace | undefined>;
+}
+
+abstract class SerializedWorkspaceStore implements WorkspaceStore {
+  abstract readonly kind: string;
+  private updateChain: Promise<unknown> = Promise.resolve();
+
+  abstract get(workspaceId: string): Promise<Workspace | undefined>;
+  abstract set(workspace: Workspace): Promise<void>;
+  abstract delete(workspaceId: string): Promise<void>;
+  abstract list(): Promise<Workspace[]>;
+
+  update(workspaceId: string, change: (workspace: Workspace) => void): Promise<Workspace | undefined> {
+    const run = this.updateChain.then(async () => {
+      const workspace = await this.get(workspaceId);
+      if (!workspace) return undefined;
+
+      change(workspace);
+      await this.set(workspace);
+      return workspace;
+    });
+    this.updateChain = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Records are deep-copied because members, invites and activity are nested arrays
+function copyWorkspace(workspace: Workspace): Workspace {
+  return JSON.parse(JSON.stringify(workspace));
+}
+
+// Volatile store - workspaces are lost on restart (useful for local testing)
+export class MemoryWorkspaceStore extends SerializedWorkspaceStore {
+  readonly kind = 'memory';
+  private workspaces = new Map<string, Workspace>();
+
+  async get(workspaceId: string): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(workspaceId);
+    return workspace ? copyWorkspace(workspace) : undefined;
+  }
+
+  async set(workspace: Workspace): Promise<void> {
+    this.workspaces.set(workspace.workspaceId, copyWorkspace(workspace));
+  }
+
+  async delete(workspaceId: string): Promise<void> {
+    this.workspaces.delete(workspaceId);
+  }
+
+  async list(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values()).map(copyWorkspace);
+  }
+}
+
+// Durable store backed by a single JSON file next to the session file
+export class FileWorkspaceStore extends SerializedWorkspaceStore {
+  readonly kind = 'file';
+  private records: JsonFileRecords<Workspace>;
+
+  constructor(filePath: string) {
+    super();
+    this.records = new JsonFileRecords<Workspace>(filePath, 'workspaces', workspace => workspace.workspaceId);
+  }
+
+  async get(workspaceId: string): Promise<Workspace | undefined> {
+    const workspace = await this.records.get(workspaceId);
+    return workspace ? copyWorkspace(workspace) : undefined;
+  }
+
+  set(workspace: Workspace): Promise<void> {
+    return this.records.set(copyWorkspace(workspace));
+  }
+
+  delete(workspaceId: string): Promise<void> {
+    return this.records.delete(workspaceId);
+  }
+
+  async list(): Promise<Workspace[]> {
+    return (await this.records.list()).map(copyWorkspace);
+  }
+}
+
+// Select the backend from the environment (SESSION_STORE=file|memory, WORKSPACE_STORE_PATH)
+export function createWorkspaceStore(): WorkspaceStore {
+  const backend = (process.env.SESSION_STORE || 'file').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemoryWorkspaceStore();
+  }
+
+  const sessionPath = process.env.SESSION_STORE_PATH || path.join(path.resolve(), 'data', 'sessions.json');
+  const filePath = process.env.WORKSPACE_STORE_PATH || path.join(path.dirname(sessionPath), 'workspaces.json');
+  return new FileWorkspaceStore(filePath);
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { describe, it } from 'node:test';
+import { CredentialVault, fingerprintSecret } from '../src/credential-vault.js';
+
+const credentials = { printifyApiKey: 'pk_test', replicateApiToken: 'r8_test' };
+
+describe('CredentialVault', () => {
+  it('opens what it sealed without exposing the plaintext', () => {
+    const vault = new CredentialVault(crypto.randomBytes(32));
+    const envelope = vault.seal(credentials);
+
+    assert.equal(envelope.keyId, vault.currentKeyId);
+    assert.ok(!JSON.stringify(envelope).includes('pk_test'));
+    assert.deepEqual(vault.open(envelope), credentials);
+  });
+
+  it('uses a fresh data key and IV for every seal', () => {
+    const vault = new CredentialVault(crypto.randomBytes(32));
+    const first = vault.seal(credentials);
+    const second = vault.seal(credentials);
+
+    assert.notEqual(first.wrappedKey, second.wrappedKey);
+    assert.notEqual(first.iv, second.iv);
+    assert.notEqual(first.ciphertext, second.ciphertext);
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const vault = new CredentialVault(crypto.randomBytes(32));
+    const envelope = vault.seal(credentials);
+    const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+    ciphertext[0] ^= 0xff;
+
+    assert.throws(() => vault.open({ ...envelope, ciphertext: ciphertext.toString('base64') }));
+  });
+
+  it('cannot open envelopes sealed under an unknown key', () => {
+    const envelope = new CredentialVault(crypto.randomBytes(32)).seal(credentials);
+
+    assert.throws(() => new CredentialVault(crypto.randomBytes(32)).open(envelope), /No encryption key available/);
+  });
+
+  it('opens and rewraps envelopes sealed under a previous key', () => {
+    const oldKey = crypto.randomBytes(32);
+    const envelope = new CredentialVault(oldKey).seal(credentials);
+    const rotated = new CredentialVault(crypto.randomBytes(32), [oldKey]);
+
+    assert.ok(rotated.needsRewrap(envelope));
+    assert.deepEqual(rotated.open(envelope), credentials);
+
+    const rewrapped = rotated.rewrap(envelope);
+    assert.equal(rewrapped.keyId, rotated.currentKeyId);
+    assert.equal(rewrapped.ciphertext, envelope.ciphertext);
+    assert.ok(!rotated.needsRewrap(rewrapped));
+    assert.deepEqual(rotated.open(rewrapped), credentials);
+  });
+
+  it('reads hex and base64 master keys from the environment', () => {
+    const key = crypto.randomBytes(32);
+    const saved = { ...process.env };
+    try {
+      process.env.SESSION_ENCRYPTION_KEY = key.toString('base64');
+      process.env.SESSION_ENCRYPTION_PREVIOUS_KEYS = '';
+      const envelope = CredentialVault.fromEnvironment().seal(credentials);
+
+      process.env.SESSION_ENCRYPTION_KEY = key.toString('hex');
+      const vault = CredentialVault.fromEnvironment();
+      assert.equal(vault.isEphemeral, false);
+      assert.deepEqual(vault.open(envelope), credentials);
+
+      process.env.SESSION_ENCRYPTION_KEY = 'too-short';
+      assert.throws(() => CredentialVault.fromEnvironment(), /32 bytes/);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('fingerprintSecret', () => {
+  it('is stable, ignores surrounding whitespace and does not contain the secret', () => {
+    assert.equal(fingerprintSecret(' pk_test '), fingerprintSecret('pk_test'));
+    assert.notEqual(fingerprintSecret('pk_test'), fingerprintSecret('pk_other'));
+    assert.ok(!fingerprintSecret('pk_test').includes('pk_test'));
+  });
+});
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  cacheMiddleware,
+  createHttpClient,
+  defaultRetryPolicy,
+  FetchLike,
+  HttpRequest,
+  HttpResponse,
+  HttpTimeoutError,
+  retryMiddleware
+} from '../src/http-client.js';
+
+type Step = number | Error;
+
+// Answers each call with the next status, or throws the next error
+function scriptedFetch(steps: Step[]) {
+  const calls: string[] = [];
+  const fetch: FetchLike = async (url, init) => {
+    calls.push(`${init.method} ${url}`);
+    const step = steps.shift() ?? 200;
+    if (step instanceof Error) throw step;
+    return { status: step, ok: step < 400, headers: { get: () => null }, text: async () => `{"status":${step}}` };
+  };
+  return { fetch, calls };
+}
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+function request(method: string, overrides: Partial<HttpRequest> = {}): HttpRequest {
+  return { url: 'https://api.test/x', method, headers: {}, label: 'request', timeoutMs: 1000, retries: 3, ...overrides };
+}
+
+// The default retry decisions without the backoff wait
+const immediateRetry = retryMiddleware((attempt, outcome, req) =>
+  defaultRetryPolicy(attempt, outcome, req) === undefined ? undefined : 0);
+
+function response(status: number, headers: Record<string, string> = {}): HttpResponse {
+  return { status, ok: status < 400, headers: { get: name => headers[name] ?? null }, body: '' };
+}
+
+describe('retryMiddleware', () => {
+  it('retries GETs after server errors, timeouts and dropped connections', async () => {
+    const { fetch, calls } = scriptedFetch([500, new HttpTimeoutError(request('GET')), networkError('ECONNRESET'), 200]);
+    const result = await createHttpClient([immediateRetry], fetch)(request('GET'));
+
+    assert.equal(result.status, 200);
+    assert.equal(calls.length, 4);
+  });
+
+  it('does not repeat a POST after a server error, timeout or dropped connection', async () => {
+    for (const step of [502, new HttpTimeoutError(request('POST')), networkError('ETIMEDOUT')]) {
+      const { fetch, calls } = scriptedFetch([step, 200]);
+      const send = createHttpClient([immediateRetry], fetch)(request('POST'));
+
+      if (step instanceof Error) {
+        await assert.rejects(send, step);
+      } else {
+        assert.equal((await send).status, 502);
+      }
+      assert.equal(calls.length, 1);
+    }
+  });
+
+  it('does not repeat PUT or DELETE after a server error', async () => {
+    for (const method of ['PUT', 'DELETE']) {
+      const { fetch, calls } = scriptedFetch([503, 200]);
+      assert.equal((await createHttpClient([immediateRetry], fetch)(request(method))).status, 503);
+      assert.equal(calls.length, 1);
+    }
+  });
+
+  it('retries any method after a 429, which Printify did not process', async () => {
+    const { fetch, calls } = scriptedFetch([429, 200]);
+    assert.equal((await createHttpClient([immediateRetry], fetch)(request('POST'))).status, 200);
+    assert.equal(calls.length, 2);
+  });
+
+  it('retries a write the caller marked idempotent', async () => {
+    const { fetch, calls } = scriptedFetch([500, 200]);
+    assert.equal((await createHttpClient([immediateRetry], fetch)(request('POST', { idempotent: true }))).status, 200);
+    assert.equal(calls.length, 2);
+  });
+
+  it('gives up after request.retries attempts and returns the last response', async () => {
+    const { fetch, calls } = scriptedFetch([500, 500, 500]);
+    assert.equal((await createHttpClient([immediateRetry], fetch)(request('GET', { retries: 2 }))).status, 500);
+    assert.equal(calls.length, 3);
+  });
+
+  it('never retries when retries is 0', async () => {
+    const { fetch, calls } = scriptedFetch([429, 200]);
+    assert.equal((await createHttpClient([immediateRetry], fetch)(request('POST', { retries: 0 }))).status, 429);
+    assert.equal(calls.length, 1);
+  });
+
+  it('does not retry client errors', async () => {
+    const { fetch, calls } = scriptedFetch([422, 200]);
+    assert.equal((await createHttpClient([immediateRetry], fetch)(request('GET'))).status, 422);
+    assert.equal(calls.length, 1);
+  });
+});
+
+describe('defaultRetryPolicy', () => {
+  it('backs off exponentially and honors a longer Retry-After', () => {
+    assert.equal(defaultRetryPolicy(0, { response: response(500) }, request('GET')), 1000);
+    assert.equal(defaultRetryPolicy(5, { response: response(500) }, request('GET')), 5000);
+    assert.equal(defaultRetryPolicy(0, { response: response(429, { 'retry-after': '30' }) }, request('POST')), 30000);
+    assert.equal(defaultRetryPolicy(1, { error: new HttpTimeoutError(request('GET')) }, request('GET')), 4000);
+  });
+});
+
+describe('cacheMiddleware', () => {
+  it('reuses successful GETs only while they are fresh', async () => {
+    const { fetch, calls } = scriptedFetch([200, 200]);
+    const send = createHttpClient([cacheMiddleware()], fetch);
+
+    await send(request('GET', { cacheTtl: 20 }));
+    await send(request('GET', { cacheTtl: 20 }));
+    assert.equal(calls.length, 1);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await send(request('GET', { cacheTtl: 20 }));
+    assert.equal(calls.length, 2);
+  });
+
+  it('never caches writes or failed responses', async () => {
+    const { fetch, calls } = scriptedFetch([500, 200, 200, 200]);
+    const send = createHttpClient([cacheMiddleware()], fetch);
+
+    await send(request('GET', { cacheTtl: 1000 }));
+    await send(request('GET', { cacheTtl: 1000 }));
+    await send(request('POST', { cacheTtl: 1000 }));
+    await send(request('POST', { cacheTtl: 1000 }));
+    assert.equal(calls.length, 4);
+  });
+
+  it('drops the least recently used URL beyond its capacity', async () => {
+    const { fetch, calls } = scriptedFetch([]);
+    const send = createHttpClient([cacheMiddleware(2)], fetch);
+    const get = (path: string) => send(request('GET', { url: `https://api.test/${path}`, cacheTtl: 1000 }));
+
+    await get('a');
+    await get('b');
+    await get('a'); // a is now more recent than b
+    await get('c'); // evicts b
+    await get('a');
+    assert.equal(calls.length, 3);
+
+    await get('b');
+    assert.equal(calls.length, 4);
+  });
+});
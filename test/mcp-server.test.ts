@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult, ElicitRequestSchema, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { FetchLike } from '../src/http-client.js';
+import { createPrintifyMcpServer } from '../src/mcp-server.js';
+import { PrintifyAPI, PrintifyOrder } from '../src/printify-api.js';
+import { ALL_SCOPES } from '../src/scopes.js';
+
+const order: PrintifyOrder = {
+  id: 'order-1',
+  status: 'on-hold',
+  address_to: { city: 'Austin', region: 'TX', country: 'US' },
+  line_items: [],
+  total_price: 2000,
+  total_shipping: 450,
+  total_tax: 150,
+  shipping_method: 1,
+  created_at: '2025-01-31 10:00:00+00:00'
+};
+const total = 2600;
+
+// Answers Printify's order endpoints and records whether the order was sent to production
+function printifyApi() {
+  const sent: string[] = [];
+  const fetch: FetchLike = async (url, init) => {
+    if (init.method === 'POST' && url.endsWith('/send_to_production.json')) sent.push(url);
+    const body = JSON.stringify(init.method === 'POST' ? { ...order, status: 'sending-to-production' } : order);
+    return { status: 200, ok: true, headers: { get: () => null }, text: async () => body };
+  };
+  return { printifyClient: new PrintifyAPI('printify-token', '1', { fetch }), sent };
+}
+
+// Connects a client that answers charge prompts with `elicit`, or has no prompts at all
+async function connect(printifyClient: PrintifyAPI, elicit?: () => ElicitResult): Promise<Client> {
+  const server = createPrintifyMcpServer({ printifyClient, scopes: [...ALL_SCOPES] });
+  const client = new Client({ name: 'orders-test', version: '1.0.0' }, { capabilities: elicit ? { elicitation: {} } : {} });
+  if (elicit) {
+    client.setRequestHandler(ElicitRequestSchema, async () => elicit());
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function sendToProduction(client: Client, args: Record<string, unknown>): Promise<string> {
+  const result = await client.callTool({ name: 'send-order-to-production', arguments: { orderId: order.id, ...args } }) as CallToolResult;
+  assert.ok(!result.isError);
+  return result.content.map(part => part.type === 'text' ? part.text : '').join('');
+}
+
+describe('send-order-to-production', () => {
+  it('asks for confirmTotal when the client cannot show a confirmation prompt', async () => {
+    const { printifyClient, sent } = printifyApi();
+    const client = await connect(printifyClient);
+
+    const output = await sendToProduction(client, {});
+    assert.match(output, /nothing has been charged/);
+    assert.match(output, new RegExp(`confirmTotal: ${total}`));
+    assert.deepEqual(sent, []);
+    await client.close();
+  });
+
+  it('rejects a confirmTotal that does not match the order total', async () => {
+    const { printifyClient, sent } = printifyApi();
+    const client = await connect(printifyClient);
+
+    const output = await sendToProduction(client, { confirmTotal: total - 1 });
+    assert.match(output, /doesn't match the current total of \$26\.00/);
+    assert.deepEqual(sent, []);
+    await client.close();
+  });
+
+  it('sends the order once confirmTotal matches the order total', async () => {
+    const { printifyClient, sent } = printifyApi();
+    const client = await connect(printifyClient);
+
+    assert.match(await sendToProduction(client, { confirmTotal: total }), /Order sent to production/);
+    assert.equal(sent.length, 1);
+    await client.close();
+  });
+
+  it('lets the prompt decide when the client can show one, whatever confirmTotal says', async () => {
+    const declined = printifyApi();
+    const decliningClient = await connect(declined.printifyClient, () => ({ action: 'reject' }));
+    assert.match(await sendToProduction(decliningClient, { confirmTotal: total }), /did not confirm the charge/);
+    assert.deepEqual(declined.sent, []);
+    await decliningClient.close();
+
+    const accepted = printifyApi();
+    const acceptingClient = await connect(accepted.printifyClient, () => ({ action: 'accept', content: { confirm: true } }));
+    assert.match(await sendToProduction(acceptingClient, {}), /Order sent to production/);
+    assert.equal(accepted.sent.length, 1);
+    await acceptingClient.close();
+  });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FetchLike } from '../src/http-client.js';
+import { PrintifyAPI, PrintifyProduct } from '../src/printify-api.js';
+
+function frontArea(variantIds: number[], imageId: string) {
+  return {
+    variant_ids: variantIds,
+    placeholders: [{ position: 'front', images: [{ id: imageId, x: 0.5, y: 0.5, scale: 1, angle: 0 }] }]
+  };
+}
+
+// A product whose light variants (1, 2) and dark variants (3, 4) carry different designs
+const product = {
+  id: 'product-1',
+  title: 'Tee',
+  variants: [1, 2, 3, 4].map(id => ({ id, price: 2000, is_enabled: true })),
+  images: [],
+  print_areas: [frontArea([1, 2], 'light-design'), frontArea([3, 4], 'dark-design')]
+} as unknown as PrintifyProduct;
+
+// Serves the product and captures the body of the update sent back to Printify
+function printifyApi() {
+  const updates: any[] = [];
+  const fetch: FetchLike = async (_url, init) => {
+    if (init.method === 'PUT') updates.push(JSON.parse(init.body!));
+    const body = JSON.stringify(init.method === 'PUT' ? { ...product, ...updates.at(-1) } : product);
+    return { status: 200, ok: true, headers: { get: () => null }, text: async () => body };
+  };
+  return { printifyClient: new PrintifyAPI('printify-token', '1', { fetch }), updates };
+}
+
+describe('updateProduct print areas', () => {
+  it('moves the placement of whole print areas in place', async () => {
+    const { printifyClient, updates } = printifyApi();
+    await printifyClient.updateProduct(product.id, {
+      printAreas: [{ variantIds: [3, 4], placeholders: [{ position: 'front', images: [{ y: 0.3 }] }] }]
+    });
+
+    assert.deepEqual(updates[0].print_areas.map((area: any) => area.variant_ids), [[1, 2], [3, 4]]);
+    assert.equal(updates[0].print_areas[1].placeholders[0].images[0].y, 0.3);
+  });
+
+  it('splits variants taken from several areas while keeping each source design', async () => {
+    const { printifyClient, updates } = printifyApi();
+    await printifyClient.updateProduct(product.id, {
+      printAreas: [{ variantIds: [2, 3], placeholders: [{ position: 'front', images: [{ scale: 0.8 }] }] }]
+    });
+
+    const areas = updates[0].print_areas.map((area: any) => ({
+      variantIds: area.variant_ids,
+      image: area.placeholders[0].images[0].id,
+      scale: area.placeholders[0].images[0].scale
+    }));
+    assert.deepEqual(areas, [
+      { variantIds: [1], image: 'light-design', scale: 1 },
+      { variantIds: [4], image: 'dark-design', scale: 1 },
+      { variantIds: [2], image: 'light-design', scale: 0.8 },
+      { variantIds: [3], image: 'dark-design', scale: 0.8 }
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createPrintifyMcpServer } from '../src/mcp-server.js';
+import { PrintifyAPI } from '../src/printify-api.js';
+import { ReplicateClient } from '../src/replicate-client.js';
+import {
+  ALL_SCOPES,
+  expandScopes,
+  FULL_ACCESS,
+  intersectScopes,
+  normalizeStoredScopes,
+  parseScopes,
+  Scope,
+  SCOPE_PRESETS,
+  TOOL_SCOPES
+} from '../src/scopes.js';
+
+// The tools an MCP client is offered. No tool is called, so the API clients never reach
+// the network; the Replicate client is needed for generate-and-upload-image to be offered.
+async function listedTools(scopes: Scope[]): Promise<string[]> {
+  const server = createPrintifyMcpServer({
+    printifyClient: new PrintifyAPI('printify-token', '1'),
+    replicateClient: new ReplicateClient('replicate-token'),
+    scopes
+  });
+  const client = new Client({ name: 'scopes-test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  try {
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name).sort();
+  } finally {
+    await client.close();
+  }
+}
+
+describe('parseScopes', () => {
+  it('treats missing input and the full preset as full access', () => {
+    assert.equal(parseScopes(undefined), FULL_ACCESS);
+    assert.equal(parseScopes(''), FULL_ACCESS);
+    assert.equal(parseScopes('full'), FULL_ACCESS);
+  });
+
+  it('expands other presets to a copy of their scopes', () => {
+    const scopes = parseScopes('read-only');
+    assert.deepEqual(scopes, SCOPE_PRESETS['read-only']);
+    assert.notEqual(scopes, SCOPE_PRESETS['read-only']);
+  });
+
+  it('accepts lists and space or comma separated strings in canonical order', () => {
+    assert.deepEqual(parseScopes(['orders:read', 'catalog:read']), ['catalog:read', 'orders:read']);
+    assert.deepEqual(parseScopes('orders:read, catalog:read'), ['catalog:read', 'orders:read']);
+  });
+
+  it('rejects unknown scopes and empty lists', () => {
+    assert.throws(() => parseScopes(['catalog:read', 'admin']), /Unknown scopes: admin/);
+    assert.throws(() => parseScopes([]), /preset/);
+    assert.throws(() => parseScopes(42), /preset/);
+  });
+});
+
+describe('scope grants', () => {
+  it('expands full access and missing grants to every current scope', () => {
+    assert.deepEqual(expandScopes(FULL_ACCESS), [...ALL_SCOPES]);
+    assert.deepEqual(expandScopes(undefined), [...ALL_SCOPES]);
+    assert.deepEqual(expandScopes(['catalog:read']), ['catalog:read']);
+  });
+
+  it('only reads records without scopes as full access', () => {
+    const withoutOrders: Scope[] = ['catalog:read', 'products:read', 'products:write', 'products:delete', 'publish', 'images:generate'];
+    assert.equal(normalizeStoredScopes(undefined), FULL_ACCESS);
+    assert.equal(normalizeStoredScopes(FULL_ACCESS), FULL_ACCESS);
+    assert.deepEqual(normalizeStoredScopes(withoutOrders), withoutOrders);
+    assert.deepEqual(normalizeStoredScopes([...ALL_SCOPES]), [...ALL_SCOPES]);
+  });
+
+  it('intersects grants, with full access as the identity', () => {
+    assert.deepEqual(intersectScopes(FULL_ACCESS, ['catalog:read']), ['catalog:read']);
+    assert.deepEqual(intersectScopes(['catalog:read', 'publish'], FULL_ACCESS), ['catalog:read', 'publish']);
+    assert.deepEqual(intersectScopes(['catalog:read', 'publish'], ['publish', 'webhooks']), ['publish']);
+    assert.equal(intersectScopes(FULL_ACCESS, FULL_ACCESS), FULL_ACCESS);
+  });
+});
+
+describe('TOOL_SCOPES', () => {
+  it('classifies every tool defined in mcp-server.ts', () => {
+    const source = readFileSync(new URL('../src/mcp-server.ts', import.meta.url), 'utf8');
+    const defined = Array.from(source.matchAll(/\btool\(\s*"([^"]+)"/g), match => match[1]);
+
+    assert.ok(defined.length > 0);
+    assert.deepEqual(defined.filter(name => !TOOL_SCOPES[name]), []);
+    assert.deepEqual(Object.keys(TOOL_SCOPES).filter(name => !defined.includes(name)), []);
+  });
+
+  it('only offers the tools a session is allowed', async () => {
+    assert.deepEqual(await listedTools([...ALL_SCOPES]), Object.keys(TOOL_SCOPES).sort());
+
+    const readOnly = await listedTools(expandScopes(SCOPE_PRESETS['read-only']));
+    assert.ok(readOnly.includes('get-order'));
+    for (const name of readOnly) {
+      assert.ok(['catalog:read', 'products:read', 'orders:read'].includes(TOOL_SCOPES[name]), name);
+    }
+    assert.ok(!readOnly.includes('create-order'));
+    assert.ok(!readOnly.includes('delete-product'));
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { describe, it } from 'node:test';
+import { verifyWebhookSignature } from '../src/webhook-store.js';
+
+const secret = 'receiver-secret';
+const body = Buffer.from('{"id":"evt_1","type":"order:updated"}');
+
+function sign(rawBody: Buffer, key = secret): string {
+  return `sha256=${crypto.createHmac('sha256', key).update(rawBody).digest('hex')}`;
+}
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the HMAC of the raw body', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body), secret), true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body, 'other-secret'), secret), false);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const tampered = Buffer.from('{"id":"evt_1","type":"order:deleted"}');
+    assert.equal(verifyWebhookSignature(tampered, sign(body), secret), false);
+  });
+
+  it('rejects a missing header or body', () => {
+    assert.equal(verifyWebhookSignature(body, undefined, secret), false);
+    assert.equal(verifyWebhookSignature(body, [sign(body)], secret), false);
+    assert.equal(verifyWebhookSignature(undefined, sign(body), secret), false);
+  });
+
+  it('rejects signatures of the wrong length or without the sha256= prefix', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body).slice(0, -2), secret), false);
+    assert.equal(verifyWebhookSignature(body, sign(body).slice('sha256='.length), secret), false);
+    assert.equal(verifyWebhookSignature(body, '', secret), false);
+  });
+});